@@ -5,11 +5,29 @@ import {
   Box, Layers, Maximize, Minimize, ChevronRight, ChevronLeft,
   BookOpen, Eye, EyeOff, SlidersHorizontal, PenTool, Video, Scan,
   Settings, Key, X, RotateCcw, Sparkles, Upload, Trash2, Home,
-  StopCircle, MessageSquare
+  StopCircle, MessageSquare, AlertTriangle, Download, Ruler,
+  Play, Pause, SkipBack, SkipForward, RotateCw, Tag
 } from 'lucide-react';
+import * as THREE from 'three';
 import { GlassBoxScene } from './components/GlassBoxScene';
 import { HomePage } from './components/HomePage';
-import { GeometryType, GEOMETRIES, GeometryParams } from './types';
+import { PrimitiveEditor } from './components/PrimitiveEditor';
+import { detectModelFormat, MODEL_FILE_ACCEPT } from './components/CustomModel';
+import { getRevolutionAxes } from './components/SceneComponents';
+import { computeDrawingProjections, layoutThreeViews, createDrawingSvg, downloadTextFile } from './utils/drawingExport';
+import { createDrawingDxf } from './utils/dxfExport';
+import { SectionLoop } from './utils/sectionPlane';
+import { CombinedSection, SECTION_PLANE_COLORS } from './utils/multiSection';
+import { DEFAULT_INTERSECTION_SETTINGS, INTERSECTION_KIND_LABELS } from './utils/intersectionCurve';
+import { AUXILIARY_PLANE_COUNT, AUXILIARY_PLANE_LABELS } from './utils/auxiliaryPlaneMethod';
+import { DEFAULT_PRIMITIVE_SCENE } from './utils/primitives';
+import { ViewPlane } from './utils/viewProjection';
+import { ChangeOfPlaneSolution } from './utils/changeOfPlane';
+import { RotationSolution } from './utils/rotationMethod';
+import { AXONOMETRIC_SPECS, createAxonometricLayout } from './utils/axonometric';
+import { HATCH_PATTERNS } from './utils/sectionHatch';
+import { CUTAWAY_LABELS } from './utils/cutaway';
+import { GeometryType, GEOMETRIES, GeometryParams, ProjectionSystem, AuxiliaryPlaneSettings, ChangeOfPlaneMode, RotationAxis, PointLabelSettings, AxonometricType, HatchPattern, HatchSettings, CutawayMode, SectionPlaneSettings, IntersectionKind, IntersectionSettings, PrimitiveScene } from './types';
 import { 
   explainGeometryStream, 
   getApiKey, 
@@ -31,8 +49,18 @@ const App: React.FC = () => {
   const [showObject, setShowObject] = useState(true);
   const [showProjectors, setShowProjectors] = useState(true);
   const [useOrthographic, setUseOrthographic] = useState(false);
+  const [projectionSystem, setProjectionSystem] = useState<ProjectionSystem>('first-angle');
+  const [extraViews, setExtraViews] = useState<ViewPlane[]>([]);
+  const [auxiliaryPlane, setAuxiliaryPlane] = useState<AuxiliaryPlaneSettings | null>(null);
+  const [changeOfPlaneMode, setChangeOfPlaneMode] = useState<ChangeOfPlaneMode | null>(null);
+  const [changeOfPlaneSolution, setChangeOfPlaneSolution] = useState<ChangeOfPlaneSolution | null>(null);
+  const [rotationAxis, setRotationAxis] = useState<RotationAxis | null>(null);
+  const [rotationSolution, setRotationSolution] = useState<RotationSolution | null>(null);
+  const [pointLabels, setPointLabels] = useState<PointLabelSettings | null>(null);
+  const [featurePointNames, setFeaturePointNames] = useState<string[]>([]);
   const [showAxonometric, setShowAxonometric] = useState(false);
-  const [axonometricType, setAxonometricType] = useState<'isometric' | 'dimetric' | 'cabinet'>('isometric');
+  const [axonometricType, setAxonometricType] = useState<AxonometricType>('isometric');
+  const [axonometricSimplified, setAxonometricSimplified] = useState(false);
   
   const [aiExplanation, setAiExplanation] = useState<string>("");
   const [isLoadingAi, setIsLoadingAi] = useState(false);
@@ -50,6 +78,11 @@ const App: React.FC = () => {
   
   const [customModelUrl, setCustomModelUrl] = useState<string | null>(null);
   const [customModelName, setCustomModelName] = useState<string>("");
+  const [customModelError, setCustomModelError] = useState<string | null>(null);
+  // 场景中当前参与投影的几何体（导出图纸时使用）
+  const sceneGeometryRef = useRef<THREE.BufferGeometry | null>(null);
+  const [canExportDrawing, setCanExportDrawing] = useState(false);
+  const [combinedSection, setCombinedSection] = useState<CombinedSection | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   
   const [drawCompleted, setDrawCompleted] = useState(false);
@@ -58,8 +91,60 @@ const App: React.FC = () => {
   
   // 截平面相关状态
   const [showSectionPlane, setShowSectionPlane] = useState(false);
-  const [sectionPlanePosition, setSectionPlanePosition] = useState<[number, number, number]>([0, 0.5, 0]);
-  const [sectionPlaneRotation, setSectionPlaneRotation] = useState<[number, number, number]>([Math.PI / 2, 0, 0]);
+  const [sectionPlanes, setSectionPlanes] = useState<SectionPlaneSettings[]>([
+    { id: 'P1', position: [0, 0.5, 0], rotation: [Math.PI / 2, 0, 0], color: SECTION_PLANE_COLORS[0] },
+  ]);
+  const [activeSectionPlaneId, setActiveSectionPlaneId] = useState('P1');
+  const [sectionCombine, setSectionCombine] = useState(false);
+  const [showSectionHatch, setShowSectionHatch] = useState(true);
+  const [sectionHatch, setSectionHatch] = useState<HatchSettings>({ pattern: 'metal', spacing: 0.15, angle: 45 });
+  const [showSectionView, setShowSectionView] = useState(false);
+  const [cutawayMode, setCutawayMode] = useState<CutawayMode | null>(null);
+  const [showSectionGizmo, setShowSectionGizmo] = useState(true);
+  const [sectionVertexPicking, setSectionVertexPicking] = useState(false);
+  const [sectionPointPicking, setSectionPointPicking] = useState(false);
+  // 辅助平面法作图：已作出的辅助平面个数（null 为未进入作图模式）
+  const [auxiliaryMethodStep, setAuxiliaryMethodStep] = useState<number | null>(null);
+  const [auxiliaryPlaying, setAuxiliaryPlaying] = useState(false);
+
+  // 滑块与拖动手柄编辑当前截平面
+  const activeSectionPlane = sectionPlanes.find(plane => plane.id === activeSectionPlaneId) ?? sectionPlanes[0];
+  const sectionPlanePosition = activeSectionPlane.position;
+  const sectionPlaneRotation = activeSectionPlane.rotation;
+  const updateActiveSectionPlane = useCallback((changes: Partial<SectionPlaneSettings>) => {
+    setSectionPlanes(planes => planes.map(plane => plane.id === activeSectionPlane.id ? { ...plane, ...changes } : plane));
+  }, [activeSectionPlane.id]);
+  const setSectionPlanePosition = (position: [number, number, number]) => updateActiveSectionPlane({ position });
+  const setSectionPlaneRotation = (rotation: [number, number, number]) => updateActiveSectionPlane({ rotation });
+
+  const handleSectionPlaneChange = useCallback((position: [number, number, number], rotation: [number, number, number]) => {
+    updateActiveSectionPlane({ position, rotation });
+  }, [updateActiveSectionPlane]);
+
+  // 增加截平面：默认为过中心的侧平面，颜色取未使用的颜色
+  const handleAddSectionPlane = () => {
+    if (sectionPlanes.length >= SECTION_PLANE_COLORS.length) return;
+    const index = Math.max(...sectionPlanes.map(plane => parseInt(plane.id.slice(1), 10))) + 1;
+    const color = SECTION_PLANE_COLORS.find(c => !sectionPlanes.some(plane => plane.color === c)) ?? SECTION_PLANE_COLORS[0];
+    const plane: SectionPlaneSettings = { id: `P${index}`, position: [0, 0, 0], rotation: [0, Math.PI / 2, 0], color };
+    setSectionPlanes([...sectionPlanes, plane]);
+    setActiveSectionPlaneId(plane.id);
+  };
+
+  const handleRemoveSectionPlane = () => {
+    if (sectionPlanes.length <= 1) return;
+    const remaining = sectionPlanes.filter(plane => plane.id !== activeSectionPlane.id);
+    setSectionPlanes(remaining);
+    setActiveSectionPlaneId(remaining[0].id);
+  };
+
+  // 法向反向（绕局部 X 轴转 180°），切除一侧随之交换
+  const handleFlipSectionPlane = () => {
+    const quaternion = new THREE.Quaternion().setFromEuler(new THREE.Euler(...sectionPlaneRotation))
+      .multiply(new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(1, 0, 0), Math.PI));
+    const euler = new THREE.Euler().setFromQuaternion(quaternion);
+    setSectionPlaneRotation([euler.x, euler.y, euler.z]);
+  };
 
   const aiContentRef = useRef<HTMLDivElement>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
@@ -99,6 +184,19 @@ const App: React.FC = () => {
     }
   }, [chatMessages, currentAssistantMessage, isLoadingAi]);
 
+  // 辅助平面法动画：每隔一段时间作出下一个辅助平面，作完最后一个时停止
+  useEffect(() => {
+    if (!auxiliaryPlaying) return;
+    const timer = setInterval(() => {
+      setAuxiliaryMethodStep(step => Math.min((step ?? 0) + 1, AUXILIARY_PLANE_COUNT));
+    }, 1200);
+    return () => clearInterval(timer);
+  }, [auxiliaryPlaying]);
+
+  useEffect(() => {
+    if (auxiliaryMethodStep === AUXILIARY_PLANE_COUNT) setAuxiliaryPlaying(false);
+  }, [auxiliaryMethodStep]);
+
   // 切换形体时生成欢迎消息
   useEffect(() => {
     const geoInfo = GEOMETRIES.find(g => g.id === currentGeometry);
@@ -161,25 +259,107 @@ const App: React.FC = () => {
 
   const handleStopAi = () => { if (abortControllerRef.current) abortControllerRef.current.abort(); setIsLoadingAi(false); };
   const handleParamChange = (key: keyof GeometryParams, value: number) => setGeoParams(prev => ({ ...prev, [key]: value }));
+  // 相贯回转体设置：T 形相贯时偏距不超过 1 - 直径比，保证支管全部贯入主体
+  const intersectionSettings = geoParams.intersection ?? DEFAULT_INTERSECTION_SETTINGS;
+  const intersectionMaxOffset = intersectionSettings.through ? 1 : 1 - intersectionSettings.radiusRatio;
+  const handleIntersectionChange = (changes: Partial<IntersectionSettings>) => setGeoParams(prev => {
+    const next = { ...(prev.intersection ?? DEFAULT_INTERSECTION_SETTINGS), ...changes };
+    const maxOffset = next.through ? 1 : 1 - next.radiusRatio;
+    return { ...prev, intersection: { ...next, offset: Math.min(next.offset, maxOffset) } };
+  });
+  const handlePrimitivesChange = (primitives: PrimitiveScene) => setGeoParams(prev => ({ ...prev, primitives }));
   const handleResetParams = () => setGeoParams({ width: 2, height: 2, depth: 2, cutSize: 0.5, customModelScale: 1 });
 
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
+    event.target.value = ''; // 允许重复选择同一文件
     if (file) {
+      const format = detectModelFormat(file.name);
+      if (!format) {
+        setCustomModelError(`不支持的文件格式：${file.name}（支持 .glb/.gltf/.stl/.obj）`);
+        return;
+      }
+      if (customModelUrl) URL.revokeObjectURL(customModelUrl);
       const url = URL.createObjectURL(file);
-      setCustomModelUrl(url); setCustomModelName(file.name);
+      setCustomModelUrl(url); setCustomModelName(file.name); setCustomModelError(null);
       setCurrentGeometry(GeometryType.CUSTOM);
-      setGeoParams(prev => ({ ...prev, customModelUrl: url, customModelScale: 1 }));
+      setGeoParams(prev => ({ ...prev, customModelUrl: url, customModelFormat: format, customModelScale: 1 }));
     }
   };
 
   const handleClearCustomModel = () => {
     if (customModelUrl) URL.revokeObjectURL(customModelUrl);
-    setCustomModelUrl(null); setCustomModelName("");
-    setGeoParams(prev => ({ ...prev, customModelUrl: undefined }));
+    setCustomModelUrl(null); setCustomModelName(""); setCustomModelError(null);
+    setGeoParams(prev => ({ ...prev, customModelUrl: undefined, customModelFormat: undefined }));
     if (currentGeometry === GeometryType.CUSTOM) setCurrentGeometry(GeometryType.CUBE);
   };
 
+  const handleGeometryChange = useCallback((geometry: THREE.BufferGeometry | null) => {
+    sceneGeometryRef.current = geometry;
+    setCanExportDrawing(!!geometry);
+  }, []);
+
+  const handleFeaturePointsChange = useCallback((names: string[]) => {
+    setFeaturePointNames(names);
+  }, []);
+
+  // 换了立体后同一序号不再是原来的顶点，清除标注选择
+  useEffect(() => {
+    setPointLabels(prev => prev && { selected: null });
+  }, [currentGeometry]);
+
+  // 切换某个特征点是否标注（selected 为 null 表示全部标注）
+  const togglePointLabel = (index: number) => {
+    if (!pointLabels) return;
+    const selected = pointLabels.selected ?? featurePointNames.map((_, i) => i);
+    setPointLabels({
+      selected: selected.includes(index) ? selected.filter(i => i !== index) : [...selected, index].sort((a, b) => a - b),
+    });
+  };
+
+  // 按当前几何体计算三视图并排布
+  const buildDrawingLayout = () => {
+    const geometry = sceneGeometryRef.current;
+    if (!geometry) return null;
+    const axes = getRevolutionAxes(currentGeometry, geoParams);
+    // 第一角画法取主、俯、左视图，第三角画法取前、顶、右视图
+    const planes: ViewPlane[] = projectionSystem === 'third-angle' ? ['V', 'H', 'R'] : ['V', 'H', 'W'];
+    return layoutThreeViews(computeDrawingProjections(geometry, planes, { axes }), 1, projectionSystem);
+  };
+
+  const getDrawingFileName = (ext: string, suffix: string = '三视图') => {
+    const name = currentGeometry === GeometryType.CUSTOM ? customModelName.replace(/\.[^.]+$/, '') : GEOMETRIES.find(g => g.id === currentGeometry)?.name;
+    return `${name || '形体'}-${suffix}.${ext}`;
+  };
+
+  const handleExportSvg = () => {
+    const layout = buildDrawingLayout();
+    if (layout) downloadTextFile(createDrawingSvg(layout), getDrawingFileName('svg'), 'image/svg+xml');
+  };
+
+  const handleExportDxf = () => {
+    const layout = buildDrawingLayout();
+    if (!layout) return;
+    // 各截平面的截交线与截平面之间的交线
+    const sections: SectionLoop[] = showSectionPlane && combinedSection ? [
+      ...combinedSection.sections.flatMap(section => section.result.loops),
+      ...combinedSection.intersections.flatMap(line => line.segments.map(points => ({ points, isClosed: false }))),
+    ] : [];
+    const dxf = createDrawingDxf(layout, { sections });
+    downloadTextFile(dxf, getDrawingFileName('dxf'), 'application/dxf');
+  };
+
+  // 导出当前类型的轴测图
+  const handleExportAxonometric = (format: 'svg' | 'dxf') => {
+    const geometry = sceneGeometryRef.current;
+    if (!geometry) return;
+    const axes = getRevolutionAxes(currentGeometry, geoParams);
+    const layout = createAxonometricLayout(geometry, axonometricType, axonometricSimplified, { axes });
+    const fileName = getDrawingFileName(format, AXONOMETRIC_SPECS[axonometricType].label);
+    if (format === 'svg') downloadTextFile(createDrawingSvg(layout), fileName, 'image/svg+xml');
+    else downloadTextFile(createDrawingDxf(layout), fileName, 'application/dxf');
+  };
+
   const handleDrawComplete = (points: [number, number][], depth: number) => {
     setDrawnPoints(points); setDrawnDepth(depth); setDrawCompleted(true);
     setGeoParams(prev => ({ ...prev, drawPoints: points, drawDepth: depth }));
@@ -267,7 +447,7 @@ const App: React.FC = () => {
               {currentGeometry === GeometryType.DRAW && drawCompleted && <button onClick={handleBackToDraw} className="w-full p-2 rounded-lg text-[10px] bg-white/5 border border-white/10 text-slate-300 hover:bg-white/10 flex items-center justify-center gap-1">← 返回编辑</button>}
             </div>
             <div className="mt-3 pt-3 border-t border-white/10">
-              <input ref={fileInputRef} type="file" accept=".glb,.gltf" onChange={handleFileUpload} className="hidden" />
+              <input ref={fileInputRef} type="file" accept={MODEL_FILE_ACCEPT} onChange={handleFileUpload} className="hidden" />
               {customModelUrl ? (
                 <div className={`p-2.5 rounded-lg text-[11px] transition-all border ${currentGeometry === GeometryType.CUSTOM ? 'bg-gradient-to-r from-purple-600/90 to-pink-600/90 border-purple-400/50 text-white shadow-lg shadow-purple-500/30' : 'bg-white/5 border-white/10 text-slate-300'}`}>
                   <div className="flex items-center justify-between">
@@ -277,9 +457,16 @@ const App: React.FC = () => {
                 </div>
               ) : (
                 <button onClick={() => fileInputRef.current?.click()} className="w-full p-2.5 rounded-lg text-[11px] text-left transition-all border border-dashed border-indigo-500/30 text-slate-400 hover:border-purple-500/50 hover:text-purple-300 hover:bg-purple-500/10 flex items-center gap-1.5 group">
-                  <Upload size={12} className="group-hover:scale-110 transition-transform" />上传模型 (.glb/.gltf)
+                  <Upload size={12} className="group-hover:scale-110 transition-transform" />上传模型 (.glb/.gltf/.stl/.obj)
                 </button>
               )}
+              {customModelError && (
+                <div className="mt-1.5 p-2 rounded-lg text-[10px] bg-red-500/10 border border-red-500/30 text-red-300 flex items-start gap-1.5">
+                  <AlertTriangle size={12} className="shrink-0 mt-px" />
+                  <span className="flex-1 break-all">{customModelError}</span>
+                  <button onClick={() => setCustomModelError(null)} className="text-red-300/70 hover:text-red-200" title="关闭"><X size={10} /></button>
+                </div>
+              )}
             </div>
           </section>
 
@@ -294,7 +481,10 @@ const App: React.FC = () => {
                 <button onClick={handleResetParams} className="p-1 hover:bg-white/10 rounded-lg transition-colors text-slate-400 hover:text-white hover:rotate-[-180deg] duration-300" title="重置参数"><RotateCcw size={12} /></button>
               </div>
               <div className="space-y-3">
-                {[{ key: 'width' as const, label: '宽度', value: geoParams.width, color: 'indigo' }, { key: 'height' as const, label: '高度', value: geoParams.height, color: 'purple' }, { key: 'depth' as const, label: '深度', value: geoParams.depth, color: 'pink' }].map(({ key, label, value, color }) => (
+                {currentGeometry === GeometryType.PRIMITIVES && (
+                  <PrimitiveEditor scene={geoParams.primitives ?? DEFAULT_PRIMITIVE_SCENE} onChange={handlePrimitivesChange} />
+                )}
+                {currentGeometry !== GeometryType.PRIMITIVES && [{ key: 'width' as const, label: '宽度', value: geoParams.width, color: 'indigo' }, { key: 'height' as const, label: '高度', value: geoParams.height, color: 'purple' }, { key: 'depth' as const, label: '深度', value: geoParams.depth, color: 'pink' }].map(({ key, label, value, color }) => (
                   <div key={key} className="flex items-center gap-2">
                     <label className="text-[10px] text-slate-400 w-8">{label}</label>
                     <input type="range" min="1" max="4" step="0.1" value={value} onChange={(e) => handleParamChange(key, parseFloat(e.target.value))} className={`flex-1 h-1.5 bg-white/10 rounded-full appearance-none cursor-pointer accent-${color}-500`} />
@@ -310,6 +500,57 @@ const App: React.FC = () => {
                     </div>
                   </div>
                 )}
+                {currentGeometry === GeometryType.INTERSECTING_SOLIDS && (
+                  <div className="pt-2 mt-2 border-t border-white/10 space-y-2">
+                    <div className="grid grid-cols-3 gap-1">
+                      {(Object.keys(INTERSECTION_KIND_LABELS) as IntersectionKind[]).map(kind => (
+                        <button
+                          key={kind}
+                          onClick={() => handleIntersectionChange({ kind })}
+                          className={`p-1.5 rounded-md text-[10px] transition-all border ${intersectionSettings.kind === kind ? 'bg-rose-500/30 text-rose-200 border-rose-500/40' : 'bg-white/5 text-slate-400 border-white/10 hover:bg-white/10'}`}
+                        >
+                          {INTERSECTION_KIND_LABELS[kind]}
+                        </button>
+                      ))}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <label className="text-[10px] text-rose-400 w-8 font-medium">径比</label>
+                      <input type="range" min="0.2" max="1" step="0.05" value={intersectionSettings.radiusRatio} onChange={(e) => handleIntersectionChange({ radiusRatio: parseFloat(e.target.value) })} className="flex-1 h-1.5 bg-white/10 rounded-full appearance-none cursor-pointer accent-rose-500" />
+                      <span className="text-[10px] text-rose-300 w-8 text-right font-mono bg-rose-500/10 px-1.5 py-0.5 rounded">{intersectionSettings.radiusRatio.toFixed(2)}</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <label className="text-[10px] text-rose-400 w-8 font-medium">偏距</label>
+                      <input type="range" min="0" max={intersectionMaxOffset} step="0.05" value={intersectionSettings.offset} onChange={(e) => handleIntersectionChange({ offset: parseFloat(e.target.value) })} className="flex-1 h-1.5 bg-white/10 rounded-full appearance-none cursor-pointer accent-rose-500" />
+                      <span className="text-[10px] text-rose-300 w-8 text-right font-mono bg-rose-500/10 px-1.5 py-0.5 rounded">{intersectionSettings.offset.toFixed(2)}</span>
+                    </div>
+                    <button onClick={() => handleIntersectionChange({ through: !intersectionSettings.through })} title="支管贯穿主体两侧，否则只在一侧（T 形）" className={`w-full flex items-center justify-between p-2 rounded-md text-[10px] transition-all border ${intersectionSettings.through ? 'bg-rose-500/30 text-rose-200 border-rose-500/40' : 'bg-white/5 text-slate-400 border-white/10 hover:bg-white/10'}`}>
+                      <span>支管贯穿</span>
+                      <div className={`w-1.5 h-1.5 rounded-full ${intersectionSettings.through ? 'bg-rose-300' : 'bg-slate-500'}`} />
+                    </button>
+                    {/* 辅助平面法：逐个作辅助平面求共有点，连成相贯线 */}
+                    <button onClick={() => { setAuxiliaryMethodStep(auxiliaryMethodStep === null ? 0 : null); setAuxiliaryPlaying(false); }} className={`w-full flex items-center justify-between p-2 rounded-md text-[10px] transition-all border ${auxiliaryMethodStep !== null ? 'bg-rose-500/30 text-rose-200 border-rose-500/40' : 'bg-white/5 text-slate-400 border-white/10 hover:bg-white/10'}`}>
+                      <span>辅助平面法作图（{AUXILIARY_PLANE_LABELS[intersectionSettings.kind]}）</span>
+                      <div className={`w-1.5 h-1.5 rounded-full ${auxiliaryMethodStep !== null ? 'bg-rose-300' : 'bg-slate-500'}`} />
+                    </button>
+                    {auxiliaryMethodStep !== null && (
+                      <div className="flex items-center gap-1">
+                        <button onClick={() => { setAuxiliaryPlaying(false); setAuxiliaryMethodStep(Math.max(0, auxiliaryMethodStep - 1)); }} disabled={auxiliaryMethodStep === 0} title="上一步" className="p-1.5 rounded-md border bg-white/5 text-slate-300 border-white/10 hover:bg-white/10 disabled:opacity-40 disabled:cursor-not-allowed"><SkipBack size={12} /></button>
+                        <button
+                          onClick={() => {
+                            if (!auxiliaryPlaying && auxiliaryMethodStep === AUXILIARY_PLANE_COUNT) setAuxiliaryMethodStep(0);
+                            setAuxiliaryPlaying(!auxiliaryPlaying);
+                          }}
+                          title={auxiliaryPlaying ? '暂停' : '播放'}
+                          className="p-1.5 rounded-md border bg-rose-500/20 text-rose-200 border-rose-500/30 hover:bg-rose-500/30"
+                        >
+                          {auxiliaryPlaying ? <Pause size={12} /> : <Play size={12} />}
+                        </button>
+                        <button onClick={() => { setAuxiliaryPlaying(false); setAuxiliaryMethodStep(Math.min(AUXILIARY_PLANE_COUNT, auxiliaryMethodStep + 1)); }} disabled={auxiliaryMethodStep === AUXILIARY_PLANE_COUNT} title="下一步" className="p-1.5 rounded-md border bg-white/5 text-slate-300 border-white/10 hover:bg-white/10 disabled:opacity-40 disabled:cursor-not-allowed"><SkipForward size={12} /></button>
+                        <span className="ml-auto text-[10px] text-rose-300 font-mono">{auxiliaryMethodStep} / {AUXILIARY_PLANE_COUNT}</span>
+                      </div>
+                    )}
+                  </div>
+                )}
                 {currentGeometry === GeometryType.CUSTOM && customModelUrl && (
                   <div className="pt-2 mt-2 border-t border-white/10">
                     <div className="flex items-center gap-2">
@@ -345,11 +586,125 @@ const App: React.FC = () => {
                   ))}
                 </div>
               )}
+              {showAxonometric && (
+                <div className="grid grid-cols-3 gap-1">
+                  <button onClick={() => setAxonometricSimplified(!axonometricSimplified)} disabled={axonometricType === 'cabinet'} className={`py-1.5 rounded-md text-[9px] transition-all border disabled:opacity-40 disabled:cursor-not-allowed ${axonometricSimplified && axonometricType !== 'cabinet' ? 'bg-violet-500/20 text-violet-300 border-violet-500/30' : 'bg-white/5 text-slate-400 border-white/10 hover:bg-white/10'}`}>简化系数</button>
+                  <button onClick={() => handleExportAxonometric('svg')} disabled={!canExportDrawing} className="flex items-center justify-center gap-1 py-1.5 rounded-md text-[9px] transition-all border bg-white/5 text-slate-300 border-white/10 hover:bg-white/10 disabled:opacity-40 disabled:cursor-not-allowed"><Download size={10} />SVG</button>
+                  <button onClick={() => handleExportAxonometric('dxf')} disabled={!canExportDrawing} className="flex items-center justify-center gap-1 py-1.5 rounded-md text-[9px] transition-all border bg-white/5 text-slate-300 border-white/10 hover:bg-white/10 disabled:opacity-40 disabled:cursor-not-allowed"><Download size={10} />DXF</button>
+                </div>
+              )}
+              <div className="flex gap-1 p-1.5 bg-white/5 rounded-lg border border-white/10">
+                {[{ id: 'first-angle' as const, label: '第一角画法' }, { id: 'third-angle' as const, label: '第三角画法' }].map(({ id, label }) => (
+                  <button key={id} onClick={() => setProjectionSystem(id)} className={`flex-1 py-1.5 rounded-md text-[10px] transition-all ${projectionSystem === id ? 'bg-gradient-to-r from-indigo-600 to-purple-600 text-white shadow-lg shadow-indigo-500/30' : 'text-slate-400 hover:text-white hover:bg-white/10'}`}>{label}</button>
+                ))}
+              </div>
+              <div className="grid grid-cols-3 gap-1.5">
+                {[{ id: 'B' as const, label: '仰视图' }, { id: 'K' as const, label: '后视图' }].map(({ id, label }) => {
+                  const enabled = extraViews.includes(id);
+                  return (
+                    <button key={id} onClick={() => setExtraViews(enabled ? extraViews.filter(v => v !== id) : [...extraViews, id])} className={`p-2 rounded-lg text-[10px] transition-all border ${enabled ? 'bg-indigo-500/20 text-indigo-300 border-indigo-500/30' : 'bg-white/5 text-slate-400 border-white/10 hover:bg-white/10'}`}>{label}</button>
+                  );
+                })}
+                <button onClick={() => setAuxiliaryPlane(auxiliaryPlane ? null : { parent: 'H', angle: 45 })} className={`p-2 rounded-lg text-[10px] transition-all border ${auxiliaryPlane ? 'bg-cyan-500/20 text-cyan-300 border-cyan-500/30' : 'bg-white/5 text-slate-400 border-white/10 hover:bg-white/10'}`}>辅助面</button>
+              </div>
+              {auxiliaryPlane && (
+                <div className="space-y-2 p-2.5 bg-cyan-500/10 rounded-lg border border-cyan-500/20">
+                  <div className="flex gap-1">
+                    {[{ id: 'H' as const, label: '垂直于 H 面' }, { id: 'V' as const, label: '垂直于 V 面' }].map(({ id, label }) => (
+                      <button key={id} onClick={() => setAuxiliaryPlane({ ...auxiliaryPlane, parent: id })} className={`flex-1 py-1.5 rounded-md text-[9px] transition-all ${auxiliaryPlane.parent === id ? 'bg-gradient-to-r from-cyan-600 to-sky-600 text-white shadow-lg shadow-cyan-500/30' : 'text-slate-400 hover:text-white hover:bg-white/10'}`}>{label}</button>
+                    ))}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <label className="text-[10px] text-cyan-400 w-12">转角</label>
+                    <input 
+                      type="range" 
+                      min={0} 
+                      max={90} 
+                      step={1} 
+                      value={auxiliaryPlane.angle} 
+                      onChange={(e) => setAuxiliaryPlane({ ...auxiliaryPlane, angle: parseFloat(e.target.value) })} 
+                      className="flex-1 h-1.5 bg-white/10 rounded-full appearance-none cursor-pointer accent-cyan-500" 
+                    />
+                    <span className="text-[10px] text-cyan-300 w-8 text-right font-mono">{auxiliaryPlane.angle}°</span>
+                  </div>
+                </div>
+              )}
+
+              {/* 换面法 */}
+              <div className="grid grid-cols-2 gap-1.5">
+                {[{ id: 'edge' as const, label: '选棱线求实长' }, { id: 'face' as const, label: '选平面求实形' }].map(({ id, label }) => (
+                  <button key={id} onClick={() => { setChangeOfPlaneMode(changeOfPlaneMode === id ? null : id); setRotationAxis(null); }} className={`flex items-center justify-center gap-1.5 p-2.5 rounded-lg text-[10px] transition-all border ${changeOfPlaneMode === id ? 'bg-gradient-to-r from-yellow-600/20 to-amber-600/20 text-yellow-300 border-yellow-500/30' : 'bg-white/5 text-slate-400 border-white/10 hover:bg-white/10'}`}><Ruler size={12} />{label}</button>
+                ))}
+              </div>
+              {changeOfPlaneMode && (
+                <div className="p-2.5 bg-yellow-500/10 rounded-lg border border-yellow-500/20 text-[10px] space-y-1">
+                  {changeOfPlaneSolution ? (
+                    <>
+                      <p className="text-yellow-300 font-medium">
+                        {changeOfPlaneSolution.element.kind === 'edge' ? '实长' : '实形面积'}：<span className="font-mono">{changeOfPlaneSolution.measure.toFixed(3)}</span>
+                        <span className="text-yellow-400/70">（{changeOfPlaneSolution.trueView} 面）</span>
+                      </p>
+                      <p className="text-slate-400 leading-relaxed">{changeOfPlaneSolution.description}</p>
+                    </>
+                  ) : (
+                    <p className="text-slate-400">{changeOfPlaneMode === 'edge' ? '点击物体上的一条棱线' : '点击物体上的一个平面'}</p>
+                  )}
+                </div>
+              )}
+
+              {/* 旋转法 */}
+              <div className="grid grid-cols-2 gap-1.5">
+                {[{ id: 'H' as const, label: '旋转法（轴⊥H）' }, { id: 'V' as const, label: '旋转法（轴⊥V）' }].map(({ id, label }) => (
+                  <button key={id} onClick={() => { setRotationAxis(rotationAxis === id ? null : id); setChangeOfPlaneMode(null); }} className={`flex items-center justify-center gap-1.5 p-2.5 rounded-lg text-[10px] transition-all border ${rotationAxis === id ? 'bg-gradient-to-r from-orange-600/20 to-amber-600/20 text-orange-300 border-orange-500/30' : 'bg-white/5 text-slate-400 border-white/10 hover:bg-white/10'}`}><RotateCw size={12} />{label}</button>
+                ))}
+              </div>
+              {rotationAxis && (
+                <div className="p-2.5 bg-orange-500/10 rounded-lg border border-orange-500/20 text-[10px] space-y-1">
+                  {rotationSolution ? (
+                    <>
+                      <p className="text-orange-300 font-medium">
+                        实长：<span className="font-mono">{rotationSolution.trueLength.toFixed(3)}</span>
+                        <span className="text-orange-400/70">（{rotationSolution.trueView} 面）</span>
+                      </p>
+                      <p className="text-orange-200 font-mono">
+                        α = {rotationSolution.angles.alpha.toFixed(1)}°　β = {rotationSolution.angles.beta.toFixed(1)}°　γ = {rotationSolution.angles.gamma.toFixed(1)}°
+                      </p>
+                      <p className="text-slate-400 leading-relaxed">{rotationSolution.description}</p>
+                    </>
+                  ) : (
+                    <p className="text-slate-400">点击物体上的一条棱线，{rotationAxis === 'H' ? '绕铅垂轴转成正平线' : '绕正垂轴转成水平线'}</p>
+                  )}
+                </div>
+              )}
               <div className="grid grid-cols-2 gap-1.5">
                 <button onClick={() => setUseOrthographic(!useOrthographic)} className={`flex items-center justify-center gap-1.5 p-2.5 rounded-lg text-[11px] transition-all border ${useOrthographic ? 'bg-indigo-500/20 text-indigo-300 border-indigo-500/30' : 'bg-white/5 text-slate-400 border-white/10 hover:bg-white/10'}`}>{useOrthographic ? <Scan size={12} /> : <Video size={12} />}{useOrthographic ? '正交' : '透视'}</button>
                 <button onClick={() => setShowObject(!showObject)} className={`flex items-center justify-center gap-1.5 p-2.5 rounded-lg text-[11px] transition-all border ${showObject ? 'bg-white/5 text-slate-300 border-white/10 hover:bg-white/10' : 'bg-white/5 text-slate-500 border-white/10'}`}>{showObject ? <Eye size={12} /> : <EyeOff size={12} />}{showObject ? '实体' : '隐藏'}</button>
               </div>
               <button onClick={() => setShowProjectors(!showProjectors)} className={`w-full flex items-center justify-center gap-1.5 p-2.5 rounded-lg text-[11px] transition-all border ${showProjectors ? 'bg-gradient-to-r from-rose-600/20 to-pink-600/20 text-rose-300 border-rose-500/30' : 'bg-white/5 text-slate-400 border-white/10 hover:bg-white/10'}`}><PenTool size={12} />{showProjectors ? '投影线 ON' : '投影线 OFF'}</button>
+              <button onClick={() => setPointLabels(pointLabels ? null : { selected: null })} className={`w-full flex items-center justify-center gap-1.5 p-2.5 rounded-lg text-[11px] transition-all border ${pointLabels ? 'bg-gradient-to-r from-red-600/20 to-rose-600/20 text-red-300 border-red-500/30' : 'bg-white/5 text-slate-400 border-white/10 hover:bg-white/10'}`}><Tag size={12} />{pointLabels ? '投影点标注 ON' : '投影点标注 OFF'}</button>
+              {pointLabels && featurePointNames.length === 0 && (
+                <p className="p-2.5 bg-red-500/10 rounded-lg border border-red-500/20 text-[10px] text-slate-400">当前立体没有可标注的特征顶点</p>
+              )}
+              {pointLabels && featurePointNames.length > 0 && (
+                <div className="p-2.5 bg-red-500/10 rounded-lg border border-red-500/20 space-y-2">
+                  <div className="flex items-center justify-between text-[10px]">
+                    <span className="text-slate-400">选择要标注的点（a′ / a / a″，不可见加括号）</span>
+                    <button onClick={() => setPointLabels({ selected: pointLabels.selected === null ? [] : null })} className="text-red-300 hover:text-red-200">{pointLabels.selected === null ? '全不选' : '全选'}</button>
+                  </div>
+                  <div className="grid grid-cols-8 gap-1">
+                    {featurePointNames.map((name, i) => {
+                      const active = pointLabels.selected === null || pointLabels.selected.includes(i);
+                      return (
+                        <button key={name} onClick={() => togglePointLabel(i)} className={`p-1 rounded-md text-[10px] font-mono transition-all border ${active ? 'bg-red-500/30 text-red-200 border-red-500/40' : 'bg-white/5 text-slate-500 border-white/10 hover:bg-white/10'}`}>{name}</button>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+              <div className="grid grid-cols-2 gap-1.5">
+                <button onClick={handleExportSvg} disabled={!canExportDrawing} className="flex items-center justify-center gap-1.5 p-2.5 rounded-lg text-[11px] transition-all border bg-white/5 text-slate-300 border-white/10 hover:bg-white/10 hover:border-sky-500/30 disabled:opacity-40 disabled:cursor-not-allowed"><Download size={12} />导出 SVG</button>
+                <button onClick={handleExportDxf} disabled={!canExportDrawing} className="flex items-center justify-center gap-1.5 p-2.5 rounded-lg text-[11px] transition-all border bg-white/5 text-slate-300 border-white/10 hover:bg-white/10 hover:border-sky-500/30 disabled:opacity-40 disabled:cursor-not-allowed"><Download size={12} />导出 DXF</button>
+              </div>
               
               {/* 截平面控制 */}
               <button onClick={() => setShowSectionPlane(!showSectionPlane)} className={`w-full flex items-center justify-between p-2.5 rounded-lg transition-all border ${showSectionPlane ? 'bg-gradient-to-r from-red-600/20 to-orange-600/20 border-red-500/30 text-red-300' : 'bg-white/5 border-white/10 text-slate-300 hover:bg-white/10 hover:border-red-500/30'}`}>
@@ -358,6 +713,41 @@ const App: React.FC = () => {
               </button>
               {showSectionPlane && (
                 <div className="space-y-2 p-2.5 bg-red-500/10 rounded-lg border border-red-500/20">
+                  {/* 截平面列表：点击选择当前编辑的截平面 */}
+                  <div className="flex items-center gap-1">
+                    {sectionPlanes.map(plane => (
+                      <button
+                        key={plane.id}
+                        onClick={() => setActiveSectionPlaneId(plane.id)}
+                        className={`flex items-center gap-1 px-1.5 py-1 rounded-md text-[10px] transition-all border ${plane.id === activeSectionPlane.id ? 'bg-white/15 text-white border-white/30' : 'bg-white/5 text-slate-400 border-white/10 hover:bg-white/10'}`}
+                      >
+                        <span className="w-2 h-2 rounded-full" style={{ backgroundColor: plane.color }} />
+                        {plane.id}
+                      </button>
+                    ))}
+                    <button onClick={handleAddSectionPlane} disabled={sectionPlanes.length >= SECTION_PLANE_COLORS.length} title="增加截平面" className="px-1.5 py-1 rounded-md text-[10px] transition-all border bg-white/5 text-slate-300 border-white/10 hover:bg-white/10 disabled:opacity-40 disabled:cursor-not-allowed">＋</button>
+                    <button onClick={handleRemoveSectionPlane} disabled={sectionPlanes.length <= 1} title="删除当前截平面" className="px-1.5 py-1 rounded-md text-[10px] transition-all border bg-white/5 text-slate-300 border-white/10 hover:bg-white/10 disabled:opacity-40 disabled:cursor-not-allowed">－</button>
+                    <button onClick={handleFlipSectionPlane} title="法向反向（交换切除一侧）" className="ml-auto px-1.5 py-1 rounded-md text-[10px] transition-all border bg-white/5 text-slate-300 border-white/10 hover:bg-white/10">反向</button>
+                  </div>
+                  {sectionPlanes.length > 1 && (
+                    <button onClick={() => setSectionCombine(!sectionCombine)} title="各截平面共同围成切去的部分（如开槽），断面互相裁剪" className={`w-full flex items-center justify-between p-2 rounded-md text-[10px] transition-all border ${sectionCombine ? 'bg-red-500/30 text-red-200 border-red-500/40' : 'bg-white/5 text-slate-400 border-white/10 hover:bg-white/10'}`}>
+                      <span>组合截切（切口）</span>
+                      <div className={`w-1.5 h-1.5 rounded-full ${sectionCombine ? 'bg-red-300' : 'bg-slate-500'}`} />
+                    </button>
+                  )}
+                  <div className="flex items-center gap-2">
+                    <label className="text-[10px] text-red-400 w-12">位置 X</label>
+                    <input 
+                      type="range" 
+                      min={-1.5} 
+                      max={1.5} 
+                      step={0.1} 
+                      value={sectionPlanePosition[0]} 
+                      onChange={(e) => setSectionPlanePosition([parseFloat(e.target.value), sectionPlanePosition[1], sectionPlanePosition[2]])} 
+                      className="flex-1 h-1.5 bg-white/10 rounded-full appearance-none cursor-pointer accent-red-500" 
+                    />
+                    <span className="text-[10px] text-red-300 w-8 text-right font-mono">{sectionPlanePosition[0].toFixed(1)}</span>
+                  </div>
                   <div className="flex items-center gap-2">
                     <label className="text-[10px] text-red-400 w-12">高度 Y</label>
                     <input 
@@ -371,6 +761,19 @@ const App: React.FC = () => {
                     />
                     <span className="text-[10px] text-red-300 w-8 text-right font-mono">{sectionPlanePosition[1].toFixed(1)}</span>
                   </div>
+                  <div className="flex items-center gap-2">
+                    <label className="text-[10px] text-red-400 w-12">位置 Z</label>
+                    <input 
+                      type="range" 
+                      min={-1.5} 
+                      max={1.5} 
+                      step={0.1} 
+                      value={sectionPlanePosition[2]} 
+                      onChange={(e) => setSectionPlanePosition([sectionPlanePosition[0], sectionPlanePosition[1], parseFloat(e.target.value)])} 
+                      className="flex-1 h-1.5 bg-white/10 rounded-full appearance-none cursor-pointer accent-red-500" 
+                    />
+                    <span className="text-[10px] text-red-300 w-8 text-right font-mono">{sectionPlanePosition[2].toFixed(1)}</span>
+                  </div>
                   <div className="flex items-center gap-2">
                     <label className="text-[10px] text-orange-400 w-12">旋转 X</label>
                     <input 
@@ -397,6 +800,77 @@ const App: React.FC = () => {
                     />
                     <span className="text-[10px] text-yellow-300 w-8 text-right font-mono">{(sectionPlaneRotation[1] * 180 / Math.PI).toFixed(0)}°</span>
                   </div>
+                  {/* 拖动手柄：沿法向平移、自由旋转，吸附特殊位置与选定顶点 */}
+                  <div className="grid grid-cols-2 gap-1 pt-1">
+                    <button onClick={() => setShowSectionGizmo(!showSectionGizmo)} className={`p-1.5 rounded-md text-[10px] transition-all border ${showSectionGizmo ? 'bg-red-500/30 text-red-200 border-red-500/40' : 'bg-white/5 text-slate-400 border-white/10 hover:bg-white/10'}`}>拖动手柄</button>
+                    <button onClick={() => { setSectionVertexPicking(!sectionVertexPicking); setSectionPointPicking(false); }} title="点击几何体选取/取消吸附顶点" className={`p-1.5 rounded-md text-[10px] transition-all border ${sectionVertexPicking ? 'bg-red-500/30 text-red-200 border-red-500/40' : 'bg-white/5 text-slate-400 border-white/10 hover:bg-white/10'}`}>选取吸附顶点</button>
+                  </div>
+                  {/* 三点定平面：点击立体上的顶点或棱线上的点 A、B、C，当前截平面通过这三点 */}
+                  <button onClick={() => { setSectionPointPicking(!sectionPointPicking); setSectionVertexPicking(false); }} title="依次点击顶点或棱线上的点 A、B、C" className={`w-full p-1.5 rounded-md text-[10px] transition-all border ${sectionPointPicking ? 'bg-red-500/30 text-red-200 border-red-500/40' : 'bg-white/5 text-slate-400 border-white/10 hover:bg-white/10'}`}>三点定平面（A、B、C）</button>
+                  {sectionPointPicking && (
+                    <p className="text-[10px] text-red-300/80 leading-relaxed">依次点击立体的顶点或棱线上的点，选满三点后截平面即通过 A、B、C；再次点击已选的点可取消。</p>
+                  )}
+                  {/* 剖切方式：切除截平面法向一侧的材料 */}
+                  <div className="grid grid-cols-4 gap-1 pt-1">
+                    <button onClick={() => setCutawayMode(null)} className={`p-1.5 rounded-md text-[10px] transition-all border ${!cutawayMode ? 'bg-orange-500/30 text-orange-200 border-orange-500/40' : 'bg-white/5 text-slate-400 border-white/10 hover:bg-white/10'}`}>不剖切</button>
+                    {(Object.keys(CUTAWAY_LABELS) as CutawayMode[]).map(mode => (
+                      <button
+                        key={mode}
+                        onClick={() => setCutawayMode(mode)}
+                        className={`p-1.5 rounded-md text-[10px] transition-all border ${cutawayMode === mode ? 'bg-orange-500/30 text-orange-200 border-orange-500/40' : 'bg-white/5 text-slate-400 border-white/10 hover:bg-white/10'}`}
+                      >
+                        {CUTAWAY_LABELS[mode]}
+                      </button>
+                    ))}
+                  </div>
+                  {/* 断面剖面线 */}
+                  <div className="grid grid-cols-4 gap-1 pt-1">
+                    <button onClick={() => setShowSectionHatch(false)} className={`p-1.5 rounded-md text-[10px] transition-all border ${!showSectionHatch ? 'bg-red-500/30 text-red-200 border-red-500/40' : 'bg-white/5 text-slate-400 border-white/10 hover:bg-white/10'}`}>无</button>
+                    {(Object.keys(HATCH_PATTERNS) as HatchPattern[]).map(pattern => (
+                      <button
+                        key={pattern}
+                        onClick={() => { setShowSectionHatch(true); setSectionHatch({ ...sectionHatch, pattern }); }}
+                        title={HATCH_PATTERNS[pattern].label}
+                        className={`p-1.5 rounded-md text-[10px] transition-all border ${showSectionHatch && sectionHatch.pattern === pattern ? 'bg-red-500/30 text-red-200 border-red-500/40' : 'bg-white/5 text-slate-400 border-white/10 hover:bg-white/10'}`}
+                      >
+                        {HATCH_PATTERNS[pattern].label.replace('材料', '')}
+                      </button>
+                    ))}
+                  </div>
+                  {showSectionHatch && (
+                    <>
+                      <div className="flex items-center gap-2">
+                        <label className="text-[10px] text-red-400 w-12">线间距</label>
+                        <input 
+                          type="range" 
+                          min={0.05} 
+                          max={0.5} 
+                          step={0.01} 
+                          value={sectionHatch.spacing} 
+                          onChange={(e) => setSectionHatch({ ...sectionHatch, spacing: parseFloat(e.target.value) })} 
+                          className="flex-1 h-1.5 bg-white/10 rounded-full appearance-none cursor-pointer accent-red-500" 
+                        />
+                        <span className="text-[10px] text-red-300 w-8 text-right font-mono">{sectionHatch.spacing.toFixed(2)}</span>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <label className="text-[10px] text-red-400 w-12">线角度</label>
+                        <input 
+                          type="range" 
+                          min={0} 
+                          max={180} 
+                          step={5} 
+                          value={sectionHatch.angle} 
+                          onChange={(e) => setSectionHatch({ ...sectionHatch, angle: parseFloat(e.target.value) })} 
+                          className="flex-1 h-1.5 bg-white/10 rounded-full appearance-none cursor-pointer accent-red-500" 
+                        />
+                        <span className="text-[10px] text-red-300 w-8 text-right font-mono">{sectionHatch.angle}°</span>
+                      </div>
+                    </>
+                  )}
+                  <button onClick={() => setShowSectionView(!showSectionView)} className={`w-full flex items-center justify-between p-2 rounded-md text-[10px] transition-all border ${showSectionView ? 'bg-red-500/30 text-red-200 border-red-500/40' : 'bg-white/5 text-slate-400 border-white/10 hover:bg-white/10'}`}>
+                    <span>断面图（实形）</span>
+                    <div className={`w-1.5 h-1.5 rounded-full ${showSectionView ? 'bg-red-300' : 'bg-slate-500'}`} />
+                  </button>
                 </div>
               )}
             </div>
@@ -425,6 +899,9 @@ const App: React.FC = () => {
               <div className="flex items-center gap-2"><span className="w-3 h-3 rounded-md bg-gradient-to-br from-sky-300 to-sky-400 shadow-sm"></span><span className="text-slate-300">H - 俯视图</span></div>
               <div className="flex items-center gap-2"><span className="w-3 h-3 rounded-md bg-gradient-to-br from-green-300 to-green-400 shadow-sm"></span><span className="text-slate-300">W - 左视图</span></div>
               <div className="flex items-center gap-2"><span className="w-3 h-3 rounded-md bg-gradient-to-br from-amber-300 to-amber-400 shadow-sm"></span><span className="text-slate-300">R - 右视图</span></div>
+              {extraViews.includes('B') && <div className="flex items-center gap-2"><span className="w-3 h-3 rounded-md bg-gradient-to-br from-violet-300 to-violet-400 shadow-sm"></span><span className="text-slate-300">B - 仰视图</span></div>}
+              {extraViews.includes('K') && <div className="flex items-center gap-2"><span className="w-3 h-3 rounded-md bg-gradient-to-br from-pink-300 to-pink-400 shadow-sm"></span><span className="text-slate-300">K - 后视图</span></div>}
+              {auxiliaryPlane && <div className="flex items-center gap-2"><span className="w-3 h-3 rounded-md bg-gradient-to-br from-cyan-300 to-cyan-400 shadow-sm"></span><span className="text-slate-300">{auxiliaryPlane.parent === 'H' ? 'V1' : 'H1'} - 辅助投影面</span></div>}
             </div>
           </div>
         </div>
@@ -458,15 +935,37 @@ const App: React.FC = () => {
             showObject={showObject} 
             showProjectors={showProjectors} 
             useOrthographic={useOrthographic} 
+            projectionSystem={projectionSystem}
+            extraViews={extraViews}
+            auxiliaryPlane={auxiliaryPlane}
+            changeOfPlaneMode={changeOfPlaneMode}
+            onChangeOfPlaneSolve={setChangeOfPlaneSolution}
+            rotationAxis={rotationAxis}
+            onRotationSolve={setRotationSolution}
+            pointLabels={pointLabels}
+            onFeaturePointsChange={handleFeaturePointsChange}
             showAxonometric={showAxonometric} 
             axonometricType={axonometricType} 
+            axonometricSimplified={axonometricSimplified}
             drawCompleted={drawCompleted} 
             drawnPoints={drawnPoints} 
             drawnDepth={drawnDepth} 
             onDrawComplete={handleDrawComplete}
             showSectionPlane={showSectionPlane}
-            sectionPlanePosition={sectionPlanePosition}
-            sectionPlaneRotation={sectionPlaneRotation}
+            sectionPlanes={sectionPlanes}
+            activeSectionPlaneId={activeSectionPlane.id}
+            sectionCombine={sectionCombine}
+            sectionHatch={showSectionHatch ? sectionHatch : null}
+            showSectionView={showSectionView}
+            cutawayMode={cutawayMode}
+            showSectionGizmo={showSectionGizmo}
+            sectionVertexPicking={sectionVertexPicking}
+            sectionPointPicking={sectionPointPicking}
+            auxiliaryMethodStep={currentGeometry === GeometryType.INTERSECTING_SOLIDS ? auxiliaryMethodStep : null}
+            onSectionPlaneChange={handleSectionPlaneChange}
+            onCustomModelError={setCustomModelError}
+            onGeometryChange={handleGeometryChange}
+            onSectionChange={setCombinedSection}
           />
         </Canvas>
       </div>
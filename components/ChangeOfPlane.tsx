@@ -0,0 +1,221 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import * as THREE from 'three';
+import { ThreeEvent, useFrame } from '@react-three/fiber';
+import { Line, Text } from '@react-three/drei';
+import { ChangeOfPlaneMode } from '../types';
+import { buildMeshTopology } from '../utils/meshTopology';
+import { PickedElement, pickEdge, pickFace } from '../utils/changeOfPlane';
+import { ViewPlaneDefinition } from '../utils/glassBox';
+import { ViewTarget, projectPointToView } from '../utils/viewProjection';
+
+// 选中元素的高亮颜色
+const HIGHLIGHT_COLOR = '#facc15';
+const FOLD_LINE_COLOR = '#0f172a';
+
+// 选中元素的线段（棱线为一段，平面为边界）
+const getElementSegments = (element: PickedElement): [THREE.Vector3, THREE.Vector3][] =>
+  element.kind === 'edge' ? [[element.start, element.end]] : element.outline;
+
+/**
+ * 换面法拾取层
+ * 在几何体上覆盖一层透明网格捕获点击，按模式拾取棱线或平面
+ */
+interface ChangeOfPlanePickerProps {
+  geometry: THREE.BufferGeometry;
+  mode: ChangeOfPlaneMode;
+  onPick: (element: PickedElement | null) => void;
+}
+
+export const ChangeOfPlanePicker: React.FC<ChangeOfPlanePickerProps> = ({ geometry, mode, onPick }) => {
+  const topology = useMemo(() => buildMeshTopology(geometry), [geometry]);
+
+  // 卸载时恢复鼠标样式
+  useEffect(() => () => { document.body.style.cursor = 'auto'; }, []);
+
+  const handleClick = (event: ThreeEvent<MouseEvent>) => {
+    event.stopPropagation();
+    onPick(mode === 'edge' ? pickEdge(topology, event.point) : pickFace(topology, event.point));
+  };
+
+  return (
+    <mesh
+      geometry={geometry}
+      onClick={handleClick}
+      onPointerOver={() => { document.body.style.cursor = 'crosshair'; }}
+      onPointerOut={() => { document.body.style.cursor = 'auto'; }}
+    >
+      <meshBasicMaterial transparent opacity={0} depthWrite={false} />
+    </mesh>
+  );
+};
+
+/**
+ * 选中元素的3D高亮
+ */
+export const PickedElementHighlight: React.FC<{ element: PickedElement }> = ({ element }) => {
+  const faceGeometry = useMemo(() => {
+    if (element.kind !== 'face') return null;
+    return new THREE.BufferGeometry().setFromPoints(element.triangles.flat());
+  }, [element]);
+
+  const segments = useMemo(() => getElementSegments(element).flat(), [element]);
+
+  return (
+    <group>
+      {faceGeometry && (
+        <mesh geometry={faceGeometry} renderOrder={10}>
+          <meshBasicMaterial color={HIGHLIGHT_COLOR} transparent opacity={0.45} side={THREE.DoubleSide} depthWrite={false} polygonOffset polygonOffsetFactor={-1} />
+        </mesh>
+      )}
+      <Line points={segments} segments color={HIGHLIGHT_COLOR} lineWidth={3} depthTest={false} renderOrder={11} />
+    </group>
+  );
+};
+
+/**
+ * 换面投射线动画
+ * 从选中元素的端点向新投影面（折叠位置）逐渐伸出投射线
+ */
+interface ChangeOfPlaneRaysProps {
+  element: PickedElement;
+  planes: ViewPlaneDefinition[];  // 新投影面
+  explodeGap?: number;
+}
+
+export const ChangeOfPlaneRays: React.FC<ChangeOfPlaneRaysProps> = ({ element, planes, explodeGap = 0 }) => {
+  const [progress, setProgress] = useState(0);
+
+  // 元素或投影面变化时重新播放
+  useEffect(() => setProgress(0), [element, planes]);
+
+  useFrame((_, delta) => {
+    if (progress < 1) setProgress(p => Math.min(1, p + delta * 0.8));
+  });
+
+  const rays = useMemo(() => {
+    // 去重后的端点
+    const points: THREE.Vector3[] = [];
+    getElementSegments(element).flat().forEach(p => {
+      if (!points.some(q => q.distanceToSquared(p) < 1e-10)) points.push(p);
+    });
+
+    return planes.flatMap(plane => {
+      const dir = plane.basis.direction;
+      const planePoint = plane.center.clone().addScaledVector(plane.outward, explodeGap);
+      return points.map(p => ({
+        key: `${plane.id}-${p.toArray().join(',')}`,
+        start: p,
+        end: p.clone().addScaledVector(dir, planePoint.clone().sub(p).dot(dir)),
+      }));
+    });
+  }, [element, planes, explodeGap]);
+
+  return (
+    <group>
+      {rays.map(({ key, start, end }) => {
+        const tip = start.clone().lerp(end, progress);
+        if (tip.distanceToSquared(start) < 1e-6) return null;
+        return (
+          <React.Fragment key={key}>
+            <Line points={[start, tip]} color={HIGHLIGHT_COLOR} lineWidth={1.5} dashed dashSize={0.15} gapSize={0.08} />
+            {progress >= 1 && (
+              <mesh position={end}>
+                <sphereGeometry args={[0.06, 8, 8]} />
+                <meshBasicMaterial color={HIGHLIGHT_COLOR} />
+              </mesh>
+            )}
+          </React.Fragment>
+        );
+      })}
+    </group>
+  );
+};
+
+/**
+ * 选中元素在投影面上的投影
+ * 在反映实长/实形的投影面上加粗显示并标注度量值
+ */
+interface PickedElementProjectionProps {
+  element: PickedElement;
+  plane: ViewTarget;
+  label?: string;          // 度量标注（仅反映实长/实形的投影面）
+  labelRotation?: number;  // 标注绕平面法向的旋转，与投影面标签一致
+  offset?: number;
+}
+
+export const PickedElementProjection: React.FC<PickedElementProjectionProps> = ({ element, plane, label, labelRotation = 0, offset = 0.08 }) => {
+  const { points, center } = useMemo(() => {
+    const projected = getElementSegments(element).flat().map(p => {
+      const [u, v] = projectPointToView(p, plane);
+      return [u, v, 0] as [number, number, number];
+    });
+    const c = projected.reduce((acc, [u, v]) => [acc[0] + u / projected.length, acc[1] + v / projected.length], [0, 0]);
+    return { points: projected, center: c };
+  }, [element, plane]);
+
+  return (
+    <group position={[0, 0, offset]}>
+      <Line points={points} segments color={HIGHLIGHT_COLOR} lineWidth={label ? 4 : 2} />
+      {label && (
+        <Text
+          position={[center[0], center[1], 0.01]}
+          rotation={[0, 0, labelRotation]}
+          fontSize={0.28}
+          color="#92400e"
+          anchorX="center"
+          anchorY="middle"
+          outlineWidth={0.03}
+          outlineColor="white"
+        >
+          {label}
+        </Text>
+      )}
+    </group>
+  );
+};
+
+/**
+ * 换面的投影轴（X1、X2……）
+ * 即新投影面与被保留投影面的交线，画在新投影面局部坐标中，展开后与父面上的位置重合
+ */
+interface FoldLineProps {
+  definition: ViewPlaneDefinition;
+  boxSize: number;
+  label: string;
+}
+
+export const FoldLine: React.FC<FoldLineProps> = ({ definition, boxSize, label }) => {
+  const line = useMemo(() => {
+    const { hinge, center, basis } = definition;
+    if (!hinge) return null;
+    // 铰链上离平面中心最近的点，沿铰链方向取一个平面边长
+    const mid = hinge.point.clone().addScaledVector(hinge.axis, center.clone().sub(hinge.point).dot(hinge.axis));
+    const toLocal = (p: THREE.Vector3) => {
+      const d = p.clone().sub(center);
+      return [d.dot(basis.uAxis), d.dot(basis.vAxis), 0] as [number, number, number];
+    };
+    const start = toLocal(mid.clone().addScaledVector(hinge.axis, -boxSize / 2));
+    const end = toLocal(mid.clone().addScaledVector(hinge.axis, boxSize / 2));
+    return { start, end };
+  }, [definition, boxSize]);
+
+  if (!line) return null;
+
+  return (
+    <group position={[0, 0, 0.09]}>
+      <Line points={[line.start, line.end]} color={FOLD_LINE_COLOR} lineWidth={2} />
+      <Text
+        position={[line.end[0] * 0.9, line.end[1] * 0.9, 0.01]}
+        rotation={[0, 0, definition.labelRotation]}
+        fontSize={0.3}
+        color={FOLD_LINE_COLOR}
+        anchorX="center"
+        anchorY="middle"
+        outlineWidth={0.03}
+        outlineColor="white"
+      >
+        {label}
+      </Text>
+    </group>
+  );
+};
@@ -1,23 +1,86 @@
 import React, { useEffect, useMemo, useRef } from 'react';
 import { useLoader } from '@react-three/fiber';
 import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { STLLoader } from 'three/examples/jsm/loaders/STLLoader.js';
+import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader.js';
 import { Edges } from '@react-three/drei';
 import * as THREE from 'three';
 import { COLORS } from './SceneComponents';
+import { CustomModelFormat } from '../types';
+
+// 上传控件接受的文件扩展名
+export const MODEL_FILE_ACCEPT = '.glb,.gltf,.stl,.obj';
+
+/**
+ * 根据文件名识别模型格式
+ * 上传得到的 blob URL 不带扩展名，因此格式须在上传时由文件名确定
+ * @param fileName 文件名
+ * @returns 模型格式，不支持的格式返回 null
+ */
+export function detectModelFormat(fileName: string): CustomModelFormat | null {
+  const ext = fileName.split('.').pop()?.toLowerCase();
+  switch (ext) {
+    case 'glb':
+    case 'gltf':
+      return 'gltf';
+    case 'stl':
+      return 'stl';
+    case 'obj':
+      return 'obj';
+    default:
+      return null;
+  }
+}
+
+// 按格式选择 three.js 加载器，并统一转换为场景节点
+export const useModelScene = (url: string, format: CustomModelFormat = 'gltf'): THREE.Object3D => {
+  const loader = format === 'stl' ? STLLoader : format === 'obj' ? OBJLoader : GLTFLoader;
+  const result = useLoader(loader, url);
+
+  return useMemo(() => {
+    // STL 只包含一个几何体，OBJ 直接返回 Group，GLTF 取其 scene
+    if (result instanceof THREE.BufferGeometry) return new THREE.Mesh(result);
+    if (result instanceof THREE.Object3D) return result;
+    return result.scene;
+  }, [result]);
+};
+
+// 模型加载错误边界：加载器抛出的异常在此捕获并上报，不再停留在 Suspense 的空白状态
+interface ModelErrorBoundaryProps {
+  onError?: (message: string) => void;
+  children?: React.ReactNode;
+}
+
+export class ModelErrorBoundary extends React.Component<ModelErrorBoundaryProps, { hasError: boolean }> {
+  state = { hasError: false };
+
+  static getDerivedStateFromError() {
+    return { hasError: true };
+  }
+
+  componentDidCatch(error: Error) {
+    this.props.onError?.(`模型文件解析失败：${error.message || '未知错误'}`);
+  }
+
+  render() {
+    return this.state.hasError ? null : this.props.children;
+  }
+}
 
 interface CustomModelProps {
   url: string;
+  format?: CustomModelFormat;
   scale?: number;
   showEdges?: boolean;
 }
 
-export const CustomModel: React.FC<CustomModelProps> = ({ url, scale = 1, showEdges = true }) => {
-  const gltf = useLoader(GLTFLoader, url);
+export const CustomModel: React.FC<CustomModelProps> = ({ url, format = 'gltf', scale = 1, showEdges = true }) => {
+  const modelScene = useModelScene(url, format);
   const groupRef = useRef<THREE.Group>(null);
 
   // 计算模型的包围盒并居中、缩放
   const { scene, normalizedScale } = useMemo(() => {
-    const clonedScene = gltf.scene.clone();
+    const clonedScene = modelScene.clone();
     
     // 计算包围盒
     const box = new THREE.Box3().setFromObject(clonedScene);
@@ -47,7 +110,7 @@ export const CustomModel: React.FC<CustomModelProps> = ({ url, scale = 1, showEd
     });
     
     return { scene: clonedScene, normalizedScale };
-  }, [gltf]);
+  }, [modelScene]);
 
   return (
     <group ref={groupRef} scale={normalizedScale * scale}>
@@ -80,29 +143,14 @@ const ModelEdges: React.FC<{ scene: THREE.Object3D }> = ({ scene }) => {
 };
 
 // 获取自定义模型的合并几何体（用于投影）
-export const useCustomModelGeometry = (url: string | undefined, scale: number = 1) => {
-  const gltf = url ? useLoader(GLTFLoader, url) : null;
+export const useCustomModelGeometry = (url: string | undefined, scale: number = 1, format: CustomModelFormat = 'gltf') => {
+  const modelScene = url ? useModelScene(url, format) : null;
   
   return useMemo(() => {
-    if (!gltf) return new THREE.BoxGeometry(1, 1, 1);
+    if (!modelScene) return new THREE.BoxGeometry(1, 1, 1);
     
-    const geometries: THREE.BufferGeometry[] = [];
-    
-    gltf.scene.traverse((child) => {
-      if (child instanceof THREE.Mesh && child.geometry) {
-        const clonedGeometry = child.geometry.clone();
-        child.updateMatrixWorld();
-        clonedGeometry.applyMatrix4(child.matrixWorld);
-        geometries.push(clonedGeometry);
-      }
-    });
-    
-    if (geometries.length === 0) return new THREE.BoxGeometry(1, 1, 1);
-    
-    // 合并所有几何体
-    const mergedGeometry = geometries.length === 1 
-      ? geometries[0] 
-      : mergeGeometries(geometries);
+    const mergedGeometry = mergeSceneGeometry(modelScene);
+    if (!mergedGeometry) return new THREE.BoxGeometry(1, 1, 1);
     
     // 居中和缩放
     mergedGeometry.computeBoundingBox();
@@ -116,28 +164,54 @@ export const useCustomModelGeometry = (url: string | undefined, scale: number =
     mergedGeometry.scale(normalizedScale * scale, normalizedScale * scale, normalizedScale * scale);
     
     return mergedGeometry;
-  }, [gltf, scale]);
+  }, [modelScene, scale]);
 };
 
-// 简单的几何体合并函数
+/**
+ * 将场景中所有网格合并为一个世界坐标系下的几何体
+ * 各网格先应用自身的世界变换，再展开为非索引三角形，只保留位置属性
+ * @param object 场景根节点
+ * @returns 合并后的几何体，场景中没有网格时返回 null
+ */
+export function mergeSceneGeometry(object: THREE.Object3D): THREE.BufferGeometry | null {
+  object.updateMatrixWorld(true);
+  
+  const geometries: THREE.BufferGeometry[] = [];
+  
+  object.traverse((child) => {
+    if (child instanceof THREE.Mesh && child.geometry?.attributes.position?.count > 0) {
+      const cloned = child.geometry.index ? child.geometry.toNonIndexed() : child.geometry.clone();
+      cloned.applyMatrix4(child.matrixWorld);
+      geometries.push(cloned);
+    }
+  });
+  
+  if (geometries.length === 0) return null;
+  
+  return mergeGeometries(geometries);
+}
+
+// 简单的几何体合并函数（输入须为非索引几何体）
 function mergeGeometries(geometries: THREE.BufferGeometry[]): THREE.BufferGeometry {
   const merged = new THREE.BufferGeometry();
   
   let totalVertices = 0;
-  let totalIndices = 0;
-  
   geometries.forEach(geo => {
     totalVertices += geo.attributes.position.count;
-    if (geo.index) totalIndices += geo.index.count;
   });
   
   const positions = new Float32Array(totalVertices * 3);
   let posOffset = 0;
   
   geometries.forEach(geo => {
-    const pos = geo.attributes.position.array;
-    positions.set(pos, posOffset);
-    posOffset += pos.length;
+    const pos = geo.attributes.position;
+    // 逐点读取，兼容交错存储的属性
+    for (let i = 0; i < pos.count; i++) {
+      positions[posOffset++] = pos.getX(i);
+      positions[posOffset++] = pos.getY(i);
+      positions[posOffset++] = pos.getZ(i);
+    }
+    geo.dispose();
   });
   
   merged.setAttribute('position', new THREE.BufferAttribute(positions, 3));
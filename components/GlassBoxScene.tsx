@@ -1,13 +1,34 @@
 import React, { useRef, Suspense, useCallback } from 'react';
-import { useFrame, useLoader } from '@react-three/fiber';
-import { Grid, OrbitControls, PerspectiveCamera, OrthographicCamera, Edges, Line } from '@react-three/drei';
-import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { useFrame } from '@react-three/fiber';
+import { Grid, OrbitControls, PerspectiveCamera, OrthographicCamera, Edges, Line, Text } from '@react-three/drei';
 import * as THREE from 'three';
-import { GeometryType, GeometryParams } from '../types';
-import { MainObject, ProjectedView, COLORS, PlaneLabel, ProjectorRays, useGeometryFactory } from './SceneComponents';
+import { GeometryType, GeometryParams, CustomModelFormat, ProjectionSystem, AuxiliaryPlaneSettings, ChangeOfPlaneMode, RotationAxis, PointLabelSettings, AxonometricType, HatchSettings, CutawayMode, SectionPlaneSettings } from '../types';
+import { MainObject, ProjectedView, ProjectionLines, COLORS, PlaneLabel, ProjectorRays, ProjectionSymbol, useGeometryFactory, getRevolutionAxes, getFeatureVertices } from './SceneComponents';
 import { SketchBuilder } from './SketchBuilder';
-import { SectionPlane, SectionLine2D } from './SectionPlane';
-import { SectionResult } from '../utils/sectionPlane';
+import { SectionPlane, SectionLine2D, SectionTrueShapeView, CutawayCaps, CutawayCapProjection, PlaneIntersectionLines } from './SectionPlane';
+import { calculateConeSection, calculateCylinderSection, calculateMeshSection, createSectionPlaneParams, createPlaneFromPoints, getSectionPlaneRotation } from '../utils/sectionPlane';
+import { CombinedSection, combineSections } from '../utils/multiSection';
+import { createCutawayGeometry } from '../utils/cutaway';
+import { mergeSceneGeometry, useModelScene, ModelErrorBoundary } from './CustomModel';
+import { ViewPlane } from '../utils/viewProjection';
+import { RevolutionAxis } from '../utils/hiddenLine';
+import { AXONOMETRIC_SPECS, createAxonometricLayout, getAxisImage } from '../utils/axonometric';
+import { BOX_SIZE, ViewPlaneDefinition, createViewPlaneDefinitions, createAuxiliaryBasis } from '../utils/glassBox';
+import { PickedEdge, PickedElement, ChangeOfPlaneSolution, solveChangeOfPlane } from '../utils/changeOfPlane';
+import { RotationSolution, solveRotation } from '../utils/rotationMethod';
+import { buildMeshTopology } from '../utils/meshTopology';
+import { getFeaturePointName } from '../utils/pointLabels';
+import { SectionPlaneGizmo, SnapVertexPicker, ThreePointPicker, DefiningPoints, DefiningPointsProjection } from './SectionGizmo';
+import { IntersectionCurve3D, IntersectionCurveProjection, AuxiliaryPlaneConstruction3D, AuxiliaryPlaneConstructionProjection } from './IntersectionCurve';
+import { connectCommonPoints, createAuxiliaryPlaneSteps } from '../utils/auxiliaryPlaneMethod';
+import { computeIntersectionCurves, createIntersectionBodies } from '../utils/intersectionCurve';
+import { DEFAULT_PRIMITIVE_SCENE, resolvePrimitives } from '../utils/primitives';
+import { analyzePrimitives } from '../utils/relativePosition';
+import { computeTraceOverlay } from '../utils/traces';
+import { Primitives3D, PrimitiveProjection, PrimitiveProjectorRays } from './Primitives';
+import { ChangeOfPlanePicker, PickedElementHighlight, ChangeOfPlaneRays, PickedElementProjection, FoldLine } from './ChangeOfPlane';
+import { RotationMethod3D, RotationMethodProjection, RotationProgressProvider } from './RotationMethod';
+import { FeaturePointLabels3D, FeaturePointLabelsProjection } from './PointLabels';
 
 interface GlassBoxSceneProps {
   geometryType: GeometryType;
@@ -16,25 +37,135 @@ interface GlassBoxSceneProps {
   showObject: boolean;
   showProjectors: boolean;
   useOrthographic: boolean;
+  projectionSystem?: ProjectionSystem;
+  extraViews?: ViewPlane[];                            // 额外启用的基本视图（仰视图 B、后视图 K）
+  auxiliaryPlane?: AuxiliaryPlaneSettings | null;      // 辅助投影面
+  changeOfPlaneMode?: ChangeOfPlaneMode | null;        // 换面法拾取模式
+  onChangeOfPlaneSolve?: (solution: ChangeOfPlaneSolution | null) => void;
+  rotationAxis?: RotationAxis | null;                  // 旋转法的旋转轴（非空时拾取棱线）
+  onRotationSolve?: (solution: RotationSolution | null) => void;  // 直线转到位后回调结果
+  pointLabels?: PointLabelSettings | null;             // 投影点标注（null 时不标注）
+  onFeaturePointsChange?: (names: string[]) => void;   // 可标注的特征点名称
   showAxonometric?: boolean;
-  axonometricType?: 'isometric' | 'dimetric' | 'cabinet';
+  axonometricType?: AxonometricType;
+  axonometricSimplified?: boolean;                     // 轴测图使用简化伸缩系数
   drawCompleted?: boolean;
   drawnPoints?: [number, number][];
   drawnDepth?: number;
   onDrawComplete?: (points: [number, number][], depth: number) => void;
   // 截平面相关
   showSectionPlane?: boolean;
-  sectionPlanePosition?: [number, number, number];
-  sectionPlaneRotation?: [number, number, number];
-  onSectionChange?: (result: SectionResult | null) => void;
+  sectionPlanes?: SectionPlaneSettings[];
+  activeSectionPlaneId?: string | null;                // 当前编辑的截平面（拖动手柄、剖切与断面图作用于它）
+  sectionCombine?: boolean;                            // 组合截切：各截平面共同围成切去的部分
+  sectionHatch?: HatchSettings | null;                 // 断面剖面线（null 时只画截交线）
+  showSectionView?: boolean;                           // 显示断面图（断面实形）
+  cutawayMode?: CutawayMode | null;                    // 剖切方式（null 时不切除材料）
+  showSectionGizmo?: boolean;                          // 显示截平面拖动手柄
+  sectionVertexPicking?: boolean;                      // 点击几何体选取截平面吸附顶点
+  sectionPointPicking?: boolean;                       // 点击几何体选取三点定当前截平面
+  auxiliaryMethodStep?: number | null;                 // 辅助平面法作图已作出的辅助平面个数（null 时直接显示相贯线）
+  onSectionPlaneChange?: (position: [number, number, number], rotation: [number, number, number]) => void;
+  onSectionChange?: (section: CombinedSection | null) => void;
+  onCustomModelError?: (message: string) => void;
+  onGeometryChange?: (geometry: THREE.BufferGeometry | null) => void; // 当前参与投影的几何体（用于图纸导出）
 }
 
+const NO_SECTION_PLANES: SectionPlaneSettings[] = [];
+
+// 各投影面的颜色（辅助投影面使用 PLANE_AUX）
+const PLANE_COLORS: Record<string, string> = {
+  V: COLORS.PLANE_V,
+  H: COLORS.PLANE_H,
+  W: COLORS.PLANE_W,
+  R: COLORS.PLANE_R,
+  B: COLORS.PLANE_B,
+  K: COLORS.PLANE_K,
+};
+
+// 单个投影面及其铰接的子投影面
+// 层级：铰链点 → 绕铰链旋转（展开动画） → 回到父面坐标 → 炸开位移 → 平面局部坐标
+interface ViewPlaneNodeProps {
+  definition: ViewPlaneDefinition;
+  definitions: ViewPlaneDefinition[];
+  isUnfolded: boolean;
+  boxSize: number;
+  explodeGap: number;
+  renderContent: (definition: ViewPlaneDefinition) => React.ReactNode;
+}
+
+const ViewPlaneNode: React.FC<ViewPlaneNodeProps> = ({ definition, definitions, isUnfolded, boxSize, explodeGap, renderContent }) => {
+  const pivotRef = useRef<THREE.Group>(null);
+  const explodeRef = useRef<THREE.Group>(null);
+  const angleRef = useRef(0);
+  const explodeTarget = React.useMemo(() => new THREE.Vector3(), []);
+  const { hinge, outward } = definition;
+
+  useFrame((_, delta) => {
+    const speed = 4;
+
+    // 绕铰链旋转 (展开时转到与父面共面)
+    if (pivotRef.current && hinge) {
+      angleRef.current = THREE.MathUtils.lerp(angleRef.current, isUnfolded ? hinge.angle : 0, delta * speed);
+      pivotRef.current.quaternion.setFromAxisAngle(hinge.axis, angleRef.current);
+    }
+
+    // 位移动画 (炸开效果 - 折叠时沿远离物体方向移开)
+    if (explodeRef.current) {
+      explodeTarget.copy(outward).multiplyScalar(isUnfolded ? 0 : explodeGap);
+      explodeRef.current.position.lerp(explodeTarget, delta * speed);
+    }
+  });
+
+  const hingePoint = hinge ? hinge.point : new THREE.Vector3();
+  const children = definitions.filter(d => d.parent === definition.id);
+
+  return (
+    <group position={hingePoint}>
+      <group ref={pivotRef}>
+        <group position={hingePoint.clone().negate()}>
+          <group ref={explodeRef}>
+            <group position={definition.center} quaternion={definition.quaternion}>
+              <mesh receiveShadow>
+                <planeGeometry args={[boxSize, boxSize]} />
+                <meshBasicMaterial color={PLANE_COLORS[definition.id] ?? COLORS.PLANE_AUX} transparent opacity={0.4} side={THREE.DoubleSide} />
+                <Edges color={COLORS.PLANE_BORDER} />
+              </mesh>
+              <PlaneLabel text={definition.label} position={definition.labelPosition} rotation={definition.labelRotation} />
+              {renderContent(definition)}
+            </group>
+          </group>
+          {children.map(child => (
+            <ViewPlaneNode
+              key={child.id}
+              definition={child}
+              definitions={definitions}
+              isUnfolded={isUnfolded}
+              boxSize={boxSize}
+              explodeGap={explodeGap}
+              renderContent={renderContent}
+            />
+          ))}
+        </group>
+      </group>
+    </group>
+  );
+};
+
 // 自定义模型组件
-const CustomModelObject: React.FC<{ url: string; scale: number }> = ({ url, scale }) => {
-  const gltf = useLoader(GLTFLoader, url);
+interface CustomModelObjectProps {
+  url: string;
+  format?: CustomModelFormat;
+  scale: number;
+  onGeometryReady?: (geometry: THREE.BufferGeometry | null) => void; // 回传世界坐标下的合并几何体（用于投影与截交）
+  onError?: (message: string) => void;
+}
+
+const CustomModelObject: React.FC<CustomModelObjectProps> = ({ url, format, scale, onGeometryReady, onError }) => {
+  const modelScene = useModelScene(url, format);
   
   const { scene, normalizedScale } = React.useMemo(() => {
-    const clonedScene = gltf.scene.clone();
+    const clonedScene = modelScene.clone();
     const box = new THREE.Box3().setFromObject(clonedScene);
     const size = box.getSize(new THREE.Vector3());
     const center = box.getCenter(new THREE.Vector3());
@@ -45,6 +176,8 @@ const CustomModelObject: React.FC<{ url: string; scale: number }> = ({ url, scal
     
     clonedScene.traverse((child) => {
       if (child instanceof THREE.Mesh) {
+        // OBJ 文件可能不带法向量
+        if (!child.geometry.attributes.normal) child.geometry.computeVertexNormals();
         child.material = new THREE.MeshStandardMaterial({
           color: COLORS.OBJECT,
           metalness: 0.2,
@@ -56,7 +189,26 @@ const CustomModelObject: React.FC<{ url: string; scale: number }> = ({ url, scal
     });
     
     return { scene: clonedScene, normalizedScale };
-  }, [gltf]);
+  }, [modelScene]);
+
+  // 合并后的几何体与显示的模型使用相同的居中和缩放
+  // 挂载后 scene 位于缩放组之下，从不带父级的副本合并，缩放只施加一次
+  const worldGeometry = React.useMemo(() => {
+    const merged = mergeSceneGeometry(scene.clone());
+    if (!merged) return null;
+    const s = normalizedScale * scale;
+    merged.scale(s, s, s);
+    return merged;
+  }, [scene, normalizedScale, scale]);
+
+  React.useEffect(() => {
+    if (!worldGeometry) onError?.('模型中没有可用的三角网格');
+    onGeometryReady?.(worldGeometry);
+    return () => {
+      onGeometryReady?.(null);
+      worldGeometry?.dispose();
+    };
+  }, [worldGeometry, onGeometryReady, onError]);
 
   return (
     <group scale={normalizedScale * scale}>
@@ -68,179 +220,85 @@ const CustomModelObject: React.FC<{ url: string; scale: number }> = ({ url, scal
 
 
 // 轴测投影视图组件
+// 按轴间角与轴向伸缩系数作出轴测图，并在左下角画出轴测轴
 interface AxonometricViewProps {
   geometry: THREE.BufferGeometry;
-  type: 'isometric' | 'dimetric' | 'cabinet';
+  type: AxonometricType;
+  simplified?: boolean;
+  axes?: RevolutionAxis[];
   position: [number, number, number];
 }
 
-const AxonometricView: React.FC<AxonometricViewProps> = ({ geometry, type, position }) => {
-  const BOX = 2; // 投影面距离原点的距离
-  const SCALE = 0.6; // 物体缩放比例
+// 轴测轴 OX（长）、OY（宽）、OZ（高）的颜色与伸缩系数符号
+const AXONOMETRIC_AXES = [
+  { key: 'x' as const, label: 'X', factorLabel: 'p', color: '#ef4444' },
+  { key: 'y' as const, label: 'Y', factorLabel: 'q', color: '#3b82f6' },
+  { key: 'z' as const, label: 'Z', factorLabel: 'r', color: '#16a34a' },
+];
 
-  // 获取几何体的包围盒顶点用于投影线（已缩放）
-  const cornerPoints = React.useMemo(() => {
-    geometry.computeBoundingBox();
-    const box = geometry.boundingBox;
-    if (!box) return [];
-    
-    const { min, max } = box;
-    return [
-      [max.x * SCALE, max.y * SCALE, max.z * SCALE],
-      [max.x * SCALE, max.y * SCALE, min.z * SCALE],
-      [max.x * SCALE, min.y * SCALE, max.z * SCALE],
-      [max.x * SCALE, min.y * SCALE, min.z * SCALE],
-      [min.x * SCALE, max.y * SCALE, max.z * SCALE],
-      [min.x * SCALE, max.y * SCALE, min.z * SCALE],
-      [min.x * SCALE, min.y * SCALE, max.z * SCALE],
-      [min.x * SCALE, min.y * SCALE, min.z * SCALE],
-    ] as [number, number, number][];
-  }, [geometry]);
-
-  const labels: Record<string, string> = {
-    isometric: '等轴测',
-    dimetric: '二等轴测',
-    cabinet: '斜二测'
-  };
+const AxonometricView: React.FC<AxonometricViewProps> = ({ geometry, type, simplified = false, axes = [], position }) => {
+  const SCALE = 0.6; // 图形缩放比例
+  const TRIAD_LENGTH = 0.8; // 轴测轴长度（伸缩系数为 1 时）
+  const spec = AXONOMETRIC_SPECS[type];
+
+  const { lines, center } = React.useMemo(() => {
+    const layout = createAxonometricLayout(geometry, type, simplified, { axes });
+    const { minX, minY, maxX, maxY } = layout.bounds;
+    return { lines: layout.views[0].lines, center: [(minX + maxX) / 2, (minY + maxY) / 2] };
+  }, [geometry, type, simplified, axes]);
+
+  const triad = React.useMemo(() => AXONOMETRIC_AXES.map(axis => {
+    const [x, y] = getAxisImage(spec.axes[axis.key], simplified);
+    const factor = simplified ? spec.axes[axis.key].simplifiedFactor : spec.axes[axis.key].factor;
+    return { ...axis, end: [x * TRIAD_LENGTH, y * TRIAD_LENGTH, 0] as [number, number, number], factor };
+  }), [spec, simplified]);
 
   return (
     <group position={position}>
       {/* 背景面板 */}
       <mesh position={[0, 0, -0.1]}>
         <planeGeometry args={[5, 5]} />
-        <meshBasicMaterial color="#0f172a" transparent opacity={0.7} />
+        <meshBasicMaterial color="#f8fafc" transparent opacity={0.92} />
       </mesh>
       
       {/* 边框 */}
-      <mesh position={[0, 0, -0.05]}>
+      <mesh position={[0, 0, -0.12]}>
         <planeGeometry args={[5.1, 5.1]} />
-        <meshBasicMaterial color="#6366f1" transparent opacity={0.3} />
+        <meshBasicMaterial color="#6366f1" transparent opacity={0.5} />
       </mesh>
 
-      {/* 三个投影面及投影图 */}
-      {/* XY平面 (主视图) - 后面 */}
-      <group position={[0, 0, -BOX]}>
-        <mesh>
-          <planeGeometry args={[BOX * 2, BOX * 2]} />
-          <meshBasicMaterial color="#fecaca" transparent opacity={0.2} side={THREE.DoubleSide} />
-        </mesh>
-        {/* 主视图投影 - 压扁Z轴 */}
-        <mesh geometry={geometry} scale={[SCALE, SCALE, 0.001]} position={[0, 0, 0.02]}>
-          <meshBasicMaterial color="#1f2937" transparent opacity={0.1} />
-          <Edges color="#1f2937" threshold={15} lineWidth={2} />
-        </mesh>
+      {/* 轴测图 */}
+      <group position={[-center[0] * SCALE + 0.3, -center[1] * SCALE + 0.3, 0]} scale={SCALE}>
+        <ProjectionLines lines={lines} offset={0} />
       </group>
-      
-      {/* XZ平面 (俯视图) - 底面 */}
-      <group position={[0, -BOX, 0]}>
-        <mesh rotation={[-Math.PI / 2, 0, 0]}>
-          <planeGeometry args={[BOX * 2, BOX * 2]} />
-          <meshBasicMaterial color="#bae6fd" transparent opacity={0.2} side={THREE.DoubleSide} />
-        </mesh>
-        {/* 俯视图投影 - 压扁Y轴 */}
-        <mesh geometry={geometry} scale={[SCALE, 0.001, SCALE]} position={[0, 0.02, 0]}>
-          <meshBasicMaterial color="#1f2937" transparent opacity={0.1} />
-          <Edges color="#1f2937" threshold={15} lineWidth={2} />
-        </mesh>
-      </group>
-      
-      {/* YZ平面 (左视图) - 左侧 */}
-      <group position={[-BOX, 0, 0]}>
-        <mesh rotation={[0, Math.PI / 2, 0]}>
-          <planeGeometry args={[BOX * 2, BOX * 2]} />
-          <meshBasicMaterial color="#bbf7d0" transparent opacity={0.2} side={THREE.DoubleSide} />
-        </mesh>
-        {/* 左视图投影 - 压扁X轴 */}
-        <mesh geometry={geometry} scale={[0.001, SCALE, SCALE]} position={[0.02, 0, 0]}>
-          <meshBasicMaterial color="#1f2937" transparent opacity={0.1} />
-          <Edges color="#1f2937" threshold={15} lineWidth={2} />
-        </mesh>
-      </group>
-      
-      {/* 轴测投影的物体 */}
-      <mesh geometry={geometry} scale={SCALE}>
-        <meshStandardMaterial 
-          color={COLORS.OBJECT} 
-          transparent 
-          opacity={0.85}
-          metalness={0.2}
-          roughness={0.4}
-        />
-        <Edges color={COLORS.OBJECT_EDGE} threshold={15} />
-      </mesh>
 
-      {/* 投影线 - 从物体顶点到各投影面 */}
-      {cornerPoints.map((p, i) => (
-        <React.Fragment key={i}>
-          {/* 到主视图面的投影线 (Z方向) */}
-          <Line
-            points={[p, [p[0], p[1], -BOX]]}
-            color="#f87171"
-            dashed
-            dashSize={0.1}
-            gapSize={0.05}
-            opacity={0.4}
-            transparent
-            lineWidth={1}
-          />
-          <mesh position={[p[0], p[1], -BOX]}>
-            <sphereGeometry args={[0.04, 8, 8]} />
-            <meshBasicMaterial color="#f87171" />
-          </mesh>
-          
-          {/* 到俯视图面的投影线 (Y方向) */}
-          <Line
-            points={[p, [p[0], -BOX, p[2]]]}
-            color="#f87171"
-            dashed
-            dashSize={0.1}
-            gapSize={0.05}
-            opacity={0.4}
-            transparent
-            lineWidth={1}
-          />
-          <mesh position={[p[0], -BOX, p[2]]}>
-            <sphereGeometry args={[0.04, 8, 8]} />
-            <meshBasicMaterial color="#f87171" />
-          </mesh>
-          
-          {/* 到左视图面的投影线 (X方向) */}
-          <Line
-            points={[p, [-BOX, p[1], p[2]]]}
-            color="#f87171"
-            dashed
-            dashSize={0.1}
-            gapSize={0.05}
-            opacity={0.4}
-            transparent
-            lineWidth={1}
-          />
-          <mesh position={[-BOX, p[1], p[2]]}>
-            <sphereGeometry args={[0.04, 8, 8]} />
-            <meshBasicMaterial color="#f87171" />
-          </mesh>
-        </React.Fragment>
-      ))}
-      
-      {/* 坐标轴指示 */}
-      <group position={[-BOX, -BOX, -BOX]} scale={0.4}>
-        <mesh position={[0.5, 0, 0]}>
-          <boxGeometry args={[1, 0.04, 0.04]} />
-          <meshBasicMaterial color="#ef4444" />
-        </mesh>
-        <mesh position={[0, 0.5, 0]}>
-          <boxGeometry args={[0.04, 1, 0.04]} />
-          <meshBasicMaterial color="#22c55e" />
-        </mesh>
-        <mesh position={[0, 0, 0.5]}>
-          <boxGeometry args={[0.04, 0.04, 1]} />
-          <meshBasicMaterial color="#3b82f6" />
-        </mesh>
+      {/* 轴测轴 */}
+      <group position={[-1.5, -1.5, 0.02]}>
+        {triad.map(({ key, label, factorLabel, color, end, factor }) => (
+          <React.Fragment key={key}>
+            <Line points={[[0, 0, 0], end]} color={color} lineWidth={2} />
+            <Text
+              position={[end[0] * 1.25, end[1] * 1.25, 0]}
+              fontSize={0.18}
+              color={color}
+              anchorX="center"
+              anchorY="middle"
+            >
+              {`${label} ${factorLabel}=${factor}`}
+            </Text>
+          </React.Fragment>
+        ))}
+        <Text position={[-0.15, 0.1, 0]} fontSize={0.16} color="#334155" anchorX="center" anchorY="middle">O</Text>
       </group>
+
+      {/* 轴间角说明 */}
+      <Text position={[0.8, -2.25, 0.02]} fontSize={0.16} color="#334155" anchorX="center" anchorY="middle">
+        {`${spec.caption}${simplified && Object.values(spec.axes).some(axis => axis.simplifiedFactor !== axis.factor) ? ' · 简化系数' : ''}`}
+      </Text>
       
       {/* 标签 */}
       <PlaneLabel 
-        text={labels[type]} 
+        text={spec.label} 
         position={[0, 2.8, 0]} 
         color="#a5b4fc"
       />
@@ -274,29 +332,86 @@ export const GlassBoxScene: React.FC<GlassBoxSceneProps> = ({
     showObject, 
     showProjectors,
     useOrthographic,
+    projectionSystem = 'first-angle',
+    extraViews = [],
+    auxiliaryPlane = null,
+    changeOfPlaneMode = null,
+    onChangeOfPlaneSolve,
+    rotationAxis = null,
+    onRotationSolve,
+    pointLabels = null,
+    onFeaturePointsChange,
     showAxonometric = false,
     axonometricType = 'isometric',
+    axonometricSimplified = false,
     drawCompleted = false,
     drawnPoints = [],
     drawnDepth = 2,
     onDrawComplete,
     showSectionPlane = false,
-    sectionPlanePosition = [0, 0, 0],
-    sectionPlaneRotation = [0, 0, 0],
-    onSectionChange
+    sectionPlanes = NO_SECTION_PLANES,
+    activeSectionPlaneId = null,
+    sectionCombine = false,
+    sectionHatch = null,
+    showSectionView = false,
+    cutawayMode = null,
+    showSectionGizmo = false,
+    sectionVertexPicking = false,
+    sectionPointPicking = false,
+    auxiliaryMethodStep = null,
+    onSectionPlaneChange,
+    onSectionChange,
+    onCustomModelError,
+    onGeometryChange
 }) => {
-  const [sectionResult, setSectionResult] = React.useState<SectionResult | null>(null);
-  
-  const handleSectionChange = useCallback((result: SectionResult | null) => {
-    setSectionResult(result);
-    onSectionChange?.(result);
-  }, [onSectionChange]);
-  const BOX_SIZE = 5;
   const EXPLODE_GAP = 1.5;
+  // 第一角画法投影面在物体后/下/两侧（V后、H下、W右、R左）；
+  // 第三角画法投影面在观察者与物体之间（V前、H上、W左、R右），各面位置整体取反，展开转角不变
+  const side = projectionSystem === 'third-angle' ? -1 : 1;
+
+  // 换面法：拾取的棱线/平面及求得的新投影面
+  const [pickedElement, setPickedElement] = React.useState<PickedElement | null>(null);
+  const changeOfPlane = React.useMemo(() => pickedElement ? solveChangeOfPlane(pickedElement) : null, [pickedElement]);
+
+  React.useEffect(() => {
+    onChangeOfPlaneSolve?.(changeOfPlane);
+  }, [changeOfPlane, onChangeOfPlaneSolve]);
+
+  // 旋转法：拾取的棱线及其旋转结果，转到位后才回报结果
+  const [rotationEdge, setRotationEdge] = React.useState<PickedEdge | null>(null);
+  const rotation = React.useMemo(() => rotationEdge && rotationAxis ? solveRotation(rotationEdge, rotationAxis) : null, [rotationEdge, rotationAxis]);
+  const handleRotationPick = useCallback((element: PickedElement | null) => {
+    setRotationEdge(element?.kind === 'edge' ? element : null);
+  }, []);
+
+  React.useEffect(() => {
+    onRotationSolve?.(null);
+  }, [rotation, onRotationSolve]);
+
+  // 投影面定义（基本视图 + 辅助投影面；换面法求解出的新投影面优先）
+  const planeDefinitions = React.useMemo(() => {
+    const auxiliary = changeOfPlane && changeOfPlane.planes.length > 0
+      ? changeOfPlane.planes
+      : auxiliaryPlane ? [{
+        id: auxiliaryPlane.parent === 'H' ? 'V1' : 'H1',
+        parent: auxiliaryPlane.parent,
+        basis: createAuxiliaryBasis(auxiliaryPlane.parent, auxiliaryPlane.angle),
+        label: auxiliaryPlane.parent === 'H' ? 'V1 (辅助面⊥H)' : 'H1 (辅助面⊥V)',
+      }] : [];
+    return createViewPlaneDefinitions(projectionSystem, ['H', 'W', 'R', ...extraViews], BOX_SIZE, auxiliary);
+  }, [projectionSystem, extraViews, auxiliaryPlane, changeOfPlane]);
+
+  // 换面得到的新投影面
+  const changedPlanes = React.useMemo(() => {
+    const ids = changeOfPlane?.planes.map(p => p.id) ?? [];
+    return planeDefinitions.filter(d => ids.includes(d.id));
+  }, [planeDefinitions, changeOfPlane]);
   
   // 根据类型选择几何体
   const standardGeometry = useGeometryFactory(geometryType, geometryParams);
   const isCustom = geometryType === GeometryType.CUSTOM && geometryParams.customModelUrl;
+  // 自定义模型加载完成后回传的合并几何体
+  const [customGeometry, setCustomGeometry] = React.useState<THREE.BufferGeometry | null>(null);
   const isDraw = geometryType === GeometryType.DRAW;
   const isDrawCompleted = isDraw && drawCompleted && drawnPoints.length >= 3;
   
@@ -309,44 +424,245 @@ export const GlassBoxScene: React.FC<GlassBoxSceneProps> = ({
   }, [isDrawCompleted, drawnPoints, drawnDepth]);
   
   // 选择使用的几何体
-  const geometry = isDrawCompleted && drawnGeometry ? drawnGeometry : standardGeometry;
+  const geometry = isCustom && customGeometry
+    ? customGeometry
+    : isDrawCompleted && drawnGeometry ? drawnGeometry : standardGeometry;
+  // 标准回转体使用解析法求截交线
+  const sectionSolver = React.useMemo(() => {
+    if (isCustom || isDraw) return undefined;
+    const { width, height } = geometryParams;
+    if (geometryType === GeometryType.CONE) {
+      return (point: THREE.Vector3, normal: THREE.Vector3) => calculateConeSection(width / 2, height, undefined, point, normal);
+    }
+    if (geometryType === GeometryType.CYLINDER) {
+      return (point: THREE.Vector3, normal: THREE.Vector3) => calculateCylinderSection(width / 2, height, undefined, point, normal);
+    }
+    return undefined;
+  }, [geometryType, geometryParams, isCustom, isDraw]);
 
-  // 动画 refs
-  const hPlaneRef = useRef<THREE.Group>(null);
-  const wPlaneRef = useRef<THREE.Group>(null);
-  const rPlaneRef = useRef<THREE.Group>(null);
-  const vPlaneRef = useRef<THREE.Group>(null);
-  
-  useFrame((_, delta) => {
-    if (!hPlaneRef.current || !wPlaneRef.current || !rPlaneRef.current || !vPlaneRef.current) return;
+  // 相贯回转体的相贯线（解析求解，比网格棱线光滑，且在等径相切处不会断开）
+  const intersectionBodies = React.useMemo(
+    () => geometryType === GeometryType.INTERSECTING_SOLIDS ? createIntersectionBodies(geometryParams) : null,
+    [geometryType, geometryParams]
+  );
+  const intersectionCurves = React.useMemo(
+    () => intersectionBodies ? computeIntersectionCurves(intersectionBodies) : null,
+    [intersectionBodies]
+  );
 
-    const speed = 4;
-    
-    // 旋转目标
-    const targetRotX_H = isUnfolded ? Math.PI / 2 : 0;
-    const targetRotY_W = isUnfolded ? Math.PI / 2 : 0;
-    const targetRotY_R = isUnfolded ? -Math.PI / 2 : 0;
-    
-    // 位移目标 (折叠时炸开，展开时紧贴)
-    const targetPosY_H = isUnfolded ? 0 : -EXPLODE_GAP;  // 折叠时H面向下炸开
-    const targetPosX_W = isUnfolded ? 0 : EXPLODE_GAP;   // 折叠时W面向右炸开
-    const targetPosX_R = isUnfolded ? 0 : -EXPLODE_GAP;  // 折叠时R面向左炸开
-    const targetPosZ_V = isUnfolded ? 0 : -EXPLODE_GAP;  // 折叠时V面向后炸开
-
-    // 旋转动画
-    hPlaneRef.current.rotation.x = THREE.MathUtils.lerp(hPlaneRef.current.rotation.x, targetRotX_H, delta * speed);
-    wPlaneRef.current.rotation.y = THREE.MathUtils.lerp(wPlaneRef.current.rotation.y, targetRotY_W, delta * speed);
-    rPlaneRef.current.rotation.y = THREE.MathUtils.lerp(rPlaneRef.current.rotation.y, targetRotY_R, delta * speed);
-    
-    // 位移动画 (炸开效果 - 折叠时生效)
-    hPlaneRef.current.position.y = THREE.MathUtils.lerp(hPlaneRef.current.position.y, -BOX_SIZE / 2 + targetPosY_H, delta * speed);
-    wPlaneRef.current.position.x = THREE.MathUtils.lerp(wPlaneRef.current.position.x, BOX_SIZE / 2 + targetPosX_W, delta * speed);
-    rPlaneRef.current.position.x = THREE.MathUtils.lerp(rPlaneRef.current.position.x, -BOX_SIZE / 2 + targetPosX_R, delta * speed);
-    vPlaneRef.current.position.z = THREE.MathUtils.lerp(vPlaneRef.current.position.z, -BOX_SIZE / 2 + targetPosZ_V, delta * speed);
-  });
+  // 辅助平面法：逐个作出辅助平面，求共有点并连成相贯线
+  const auxiliarySteps = React.useMemo(
+    () => intersectionBodies && intersectionCurves ? createAuxiliaryPlaneSteps(intersectionBodies, intersectionCurves) : [],
+    [intersectionBodies, intersectionCurves]
+  );
+  const auxiliaryConstruction = React.useMemo(() => {
+    if (auxiliaryMethodStep === null || !intersectionCurves) return null;
+    const steps = auxiliarySteps.slice(0, auxiliaryMethodStep);
+    return { steps, segments: connectCommonPoints(intersectionCurves, steps) };
+  }, [auxiliaryMethodStep, auxiliarySteps, intersectionCurves]);
+
+  // 点、直线、平面：没有立体，只投影基本元素
+  const isPrimitives = geometryType === GeometryType.PRIMITIVES;
+  const primitives = React.useMemo(
+    () => isPrimitives ? resolvePrimitives(geometryParams.primitives ?? DEFAULT_PRIMITIVE_SCENE, BOX_SIZE, side) : null,
+    [isPrimitives, geometryParams.primitives, side]
+  );
+  // 两直线或直线与平面的相对位置
+  const primitiveAnalysis = React.useMemo(
+    () => primitives ? analyzePrimitives(primitives, geometryParams.primitives?.analysis, BOX_SIZE, side) : null,
+    [primitives, geometryParams.primitives, side]
+  );
+  // 所选直线的迹点或平面的迹线
+  const primitiveTraces = React.useMemo(
+    () => primitives ? computeTraceOverlay(primitives, geometryParams.primitives?.traceTarget, BOX_SIZE) : null,
+    [primitives, geometryParams.primitives]
+  );
+
+  // 回转体轴线（轴测图中心线）
+  const revolutionAxes = React.useMemo(() => getRevolutionAxes(geometryType, geometryParams), [geometryType, geometryParams]);
+  // 自定义模型在几何体就绪前不绘制投影
+  const hasProjection = (!isCustom || !!customGeometry) && !isPrimitives;
+  const solidGeometry = hasProjection && (!isDraw || isDrawCompleted) ? geometry : null;
+
+  // 截交线：各截平面分别求解后组合（组合截切时互相裁剪），并求截平面之间的交线
+  const activeSectionPlane = sectionPlanes.find(plane => plane.id === activeSectionPlaneId) ?? sectionPlanes[0] ?? null;
+  const combinedSection = React.useMemo(() => {
+    if (!showSectionPlane || !solidGeometry || sectionPlanes.length === 0) return null;
+    return combineSections(sectionPlanes.map(plane => {
+      const { position, normal } = createSectionPlaneParams(plane.position, plane.rotation);
+      const result = sectionSolver
+        ? sectionSolver(position, normal)
+        : calculateMeshSection(solidGeometry, position, normal);
+      return { id: plane.id, position, normal, result };
+    }), sectionCombine);
+  }, [showSectionPlane, solidGeometry, sectionPlanes, sectionSolver, sectionCombine]);
+  const activeSectionResult = combinedSection?.sections.find(section => section.id === activeSectionPlane?.id)?.result ?? null;
+
+  React.useEffect(() => {
+    onSectionChange?.(combinedSection);
+  }, [combinedSection, onSectionChange]);
+
+  // 剖切：切除当前截平面法向一侧的材料，投影与图纸导出都使用剩余部分
+  const cutaway = React.useMemo(() => {
+    if (!showSectionPlane || !cutawayMode || !solidGeometry || !activeSectionPlane) return null;
+    const { position, normal } = createSectionPlaneParams(activeSectionPlane.position, activeSectionPlane.rotation);
+    return createCutawayGeometry(solidGeometry, position, normal, cutawayMode);
+  }, [showSectionPlane, cutawayMode, solidGeometry, activeSectionPlane]);
+
+  React.useEffect(() => () => cutaway?.geometry.dispose(), [cutaway]);
+
+  const projectedGeometry = cutaway?.geometry ?? solidGeometry;
+
+  // 投影点标注：立体的顶点依次命名为 A、B、C……，按遮挡判断投影是否可见
+  const featurePoints = React.useMemo(
+    () => hasProjection ? getFeatureVertices(geometryType, geometryParams).map(p => new THREE.Vector3(...p)) : [],
+    [hasProjection, geometryType, geometryParams]
+  );
+  const featurePointNames = React.useMemo(() => featurePoints.map((_, i) => getFeaturePointName(i)), [featurePoints]);
+
+  React.useEffect(() => {
+    onFeaturePointsChange?.(featurePointNames);
+  }, [featurePointNames, onFeaturePointsChange]);
+
+  const labeledPoints = React.useMemo(() => {
+    if (!pointLabels || featurePoints.length === 0) return null;
+    const indices = (pointLabels.selected ?? featurePoints.map((_, i) => i)).filter(i => i < featurePoints.length);
+    return { points: indices.map(i => featurePoints[i]), names: indices.map(i => featurePointNames[i]) };
+  }, [pointLabels, featurePoints, featurePointNames]);
+  const showPointLabels = labeledPoints !== null;
+  const labelTopology = React.useMemo(
+    () => showPointLabels && projectedGeometry ? buildMeshTopology(projectedGeometry) : null,
+    [showPointLabels, projectedGeometry]
+  );
+
+  // 截平面拖动时吸附的选定顶点（几何体变化时清除）
+  const [snapVertices, setSnapVertices] = React.useState<THREE.Vector3[]>([]);
+  // 三点定平面选取的点 A、B、C（几何体变化时清除）
+  const [definingPoints, setDefiningPoints] = React.useState<THREE.Vector3[]>([]);
+  React.useEffect(() => {
+    setSnapVertices([]);
+    setDefiningPoints([]);
+  }, [solidGeometry]);
+
+  // 选满三点时由三点求当前截平面
+  const handleDefiningPointsChange = (points: THREE.Vector3[]) => {
+    setDefiningPoints(points);
+    if (points.length !== 3) return;
+    const params = createPlaneFromPoints(points[0], points[1], points[2]);
+    if (params) onSectionPlaneChange?.(params.position.toArray() as [number, number, number], getSectionPlaneRotation(params.normal));
+  };
+
+  // 选取时显示已选的点；选取结束后只要当前截平面仍通过三点就保留标注
+  const visibleDefiningPoints = React.useMemo(() => {
+    if (!showSectionPlane || !activeSectionPlane) return [];
+    if (sectionPointPicking) return definingPoints;
+    if (definingPoints.length !== 3) return [];
+    const { position, normal } = createSectionPlaneParams(activeSectionPlane.position, activeSectionPlane.rotation);
+    return definingPoints.every(p => Math.abs(p.clone().sub(position).dot(normal)) < 1e-4) ? definingPoints : [];
+  }, [showSectionPlane, activeSectionPlane, sectionPointPicking, definingPoints]);
+
+  React.useEffect(() => {
+    onGeometryChange?.(projectedGeometry);
+  }, [projectedGeometry, onGeometryChange]);
+
+  // 几何体变化或退出拾取模式时清除选择
+  React.useEffect(() => {
+    setPickedElement(null);
+    setRotationEdge(null);
+  }, [projectedGeometry]);
+
+  React.useEffect(() => {
+    if (!changeOfPlaneMode) setPickedElement(null);
+  }, [changeOfPlaneMode]);
+
+  React.useEffect(() => {
+    if (!rotationAxis) setRotationEdge(null);
+  }, [rotationAxis]);
+
+  // 投影面内容：消隐投影线、截交线与换面法的选中元素
+  const renderPlaneContent = (definition: ViewPlaneDefinition) => {
+    const changedIndex = changedPlanes.indexOf(definition);
+    const isTrueView = changeOfPlane?.trueView === definition.id;
+    return (
+      <>
+        {hasProjection && <ProjectedView type={geometryType} params={geometryParams} plane={definition.basis} geometry={cutaway?.geometry ?? geometry} />}
+        {primitives && (
+          <PrimitiveProjection
+            primitives={primitives}
+            plane={definition.basis}
+            viewId={definition.id}
+            boxSize={BOX_SIZE}
+            side={side}
+            analysis={primitiveAnalysis}
+            traces={primitiveTraces}
+            labelRotation={definition.labelRotation}
+          />
+        )}
+        {intersectionCurves && !cutaway && !auxiliaryConstruction && (
+          <IntersectionCurveProjection curves={intersectionCurves} geometry={geometry} plane={definition.basis} />
+        )}
+        {auxiliaryConstruction && !cutaway && (
+          <AuxiliaryPlaneConstructionProjection steps={auxiliaryConstruction.steps} segments={auxiliaryConstruction.segments} plane={definition.basis} />
+        )}
+        {cutaway ? (
+          <CutawayCapProjection caps={cutaway.caps} plane={definition.basis} hatch={sectionHatch} />
+        ) : combinedSection && (
+          <>
+            {combinedSection.sections.map(({ id, result }) => (
+              <SectionLine2D
+                key={id}
+                sectionResult={result}
+                plane={definition.basis}
+                hatch={sectionHatch}
+                color={sectionPlanes.find(plane => plane.id === id)?.color}
+              />
+            ))}
+            {combinedSection.intersections.map(line => (
+              <PlaneIntersectionLines key={line.planes.join('-')} segments={line.segments} plane={definition.basis} />
+            ))}
+          </>
+        )}
+        {visibleDefiningPoints.length > 0 && (
+          <DefiningPointsProjection
+            points={visibleDefiningPoints}
+            plane={definition.basis}
+            viewId={definition.id}
+            labelRotation={definition.labelRotation}
+          />
+        )}
+        {changeOfPlane && (
+          <PickedElementProjection
+            element={changeOfPlane.element}
+            plane={definition.basis}
+            label={isTrueView ? `${changeOfPlane.element.kind === 'edge' ? '实长' : '实形面积'} ${changeOfPlane.measure.toFixed(2)}` : undefined}
+            labelRotation={definition.labelRotation}
+          />
+        )}
+        {labeledPoints && (
+          <FeaturePointLabelsProjection
+            points={labeledPoints.points}
+            names={labeledPoints.names}
+            topology={labelTopology}
+            plane={definition.basis}
+            viewId={definition.id}
+            labelRotation={definition.labelRotation}
+          />
+        )}
+        {rotation && (
+          <RotationMethodProjection
+            solution={rotation}
+            plane={definition.basis}
+            viewId={definition.id}
+            labelRotation={definition.labelRotation}
+          />
+        )}
+        {changedIndex >= 0 && <FoldLine definition={definition} boxSize={BOX_SIZE} label={`X${changedIndex + 1}`} />}
+      </>
+    );
+  };
 
   return (
-    <>
+    <RotationProgressProvider solution={rotation} onLand={onRotationSolve}>
       {/* 相机设置 */}
       {useOrthographic ? (
         <OrthographicCamera 
@@ -365,6 +681,7 @@ export const GlassBoxScene: React.FC<GlassBoxSceneProps> = ({
       )}
 
       <OrbitControls 
+        makeDefault
         enablePan={true} 
         enableZoom={true} 
         minDistance={5} 
@@ -394,122 +711,153 @@ export const GlassBoxScene: React.FC<GlassBoxSceneProps> = ({
       {/* 主体物体 */}
       {showObject && (!isDraw || isDrawCompleted) && (
         <group position={[0, 0, 0]}>
-          {isCustom ? (
-            <Suspense fallback={null}>
-              <CustomModelObject 
-                url={geometryParams.customModelUrl!} 
-                scale={geometryParams.customModelScale || 1} 
-              />
-            </Suspense>
-          ) : isDrawCompleted && drawnGeometry ? (
-            <mesh geometry={drawnGeometry}>
-              <meshStandardMaterial 
-                color={COLORS.OBJECT}
-                metalness={0.2}
-                roughness={0.4}
+          {/* 剖切时隐藏完整立体（仍挂载以保持自定义模型的加载），改为显示剩余部分 */}
+          <group visible={!cutaway}>
+            {isCustom ? (
+              <ModelErrorBoundary key={geometryParams.customModelUrl} onError={onCustomModelError}>
+                <Suspense fallback={null}>
+                  <CustomModelObject 
+                    url={geometryParams.customModelUrl!} 
+                    format={geometryParams.customModelFormat}
+                    scale={geometryParams.customModelScale || 1} 
+                    onGeometryReady={setCustomGeometry}
+                    onError={onCustomModelError}
+                  />
+                </Suspense>
+              </ModelErrorBoundary>
+            ) : isDrawCompleted && drawnGeometry ? (
+              <mesh geometry={drawnGeometry}>
+                <meshStandardMaterial 
+                  color={COLORS.OBJECT}
+                  metalness={0.2}
+                  roughness={0.4}
+                />
+                <Edges color={COLORS.OBJECT_EDGE} threshold={15} />
+              </mesh>
+            ) : primitives ? (
+              <Primitives3D
+                primitives={primitives}
+                analysis={primitiveAnalysis}
+                traces={primitiveTraces}
+                planes={planeDefinitions}
+                explodeGap={EXPLODE_GAP}
+                isUnfolded={isUnfolded}
               />
-              <Edges color={COLORS.OBJECT_EDGE} threshold={15} />
-            </mesh>
-          ) : (
-            <MainObject type={geometryType} params={geometryParams} />
+            ) : (
+              <MainObject type={geometryType} params={geometryParams} />
+            )}
+          </group>
+          {cutaway && (
+            <>
+              <mesh geometry={cutaway.geometry}>
+                <meshStandardMaterial 
+                  color={COLORS.OBJECT}
+                  metalness={0.2}
+                  roughness={0.4}
+                  side={THREE.DoubleSide}
+                />
+                <Edges color={COLORS.OBJECT_EDGE} threshold={15} />
+              </mesh>
+              {activeSectionPlane && (
+                <CutawayCaps caps={cutaway.caps} origin={activeSectionPlane.position} hatch={sectionHatch} />
+              )}
+            </>
           )}
-          {showProjectors && !isUnfolded && !isCustom && !isDrawCompleted && (
-              <ProjectorRays params={geometryParams} geometryType={geometryType} explodeGap={EXPLODE_GAP} />
+          {intersectionCurves && !cutaway && !auxiliaryConstruction && <IntersectionCurve3D curves={intersectionCurves} />}
+          {auxiliaryConstruction && !cutaway && (
+            <AuxiliaryPlaneConstruction3D steps={auxiliaryConstruction.steps} segments={auxiliaryConstruction.segments} />
           )}
+          {showProjectors && !isUnfolded && hasProjection && !isDrawCompleted && (
+              <ProjectorRays params={geometryParams} geometryType={geometryType} explodeGap={EXPLODE_GAP} geometry={geometry} planes={planeDefinitions} />
+          )}
+          {showProjectors && !isUnfolded && primitives && (
+            <PrimitiveProjectorRays primitives={primitives} planes={planeDefinitions} explodeGap={EXPLODE_GAP} />
+          )}
+
+          {/* 换面法：拾取、高亮与向新投影面的投射动画 */}
+          {changeOfPlaneMode && projectedGeometry && (
+            <ChangeOfPlanePicker geometry={projectedGeometry} mode={changeOfPlaneMode} onPick={setPickedElement} />
+          )}
+          {changeOfPlane && <PickedElementHighlight element={changeOfPlane.element} />}
+          {changeOfPlane && !isUnfolded && changedPlanes.length > 0 && (
+            <ChangeOfPlaneRays element={changeOfPlane.element} planes={changedPlanes} explodeGap={EXPLODE_GAP} />
+          )}
+
+          {/* 旋转法：拾取棱线，绕垂直于投影面的轴转成投影面平行线 */}
+          {rotationAxis && !changeOfPlaneMode && projectedGeometry && (
+            <ChangeOfPlanePicker geometry={projectedGeometry} mode="edge" onPick={handleRotationPick} />
+          )}
+          {rotation && <RotationMethod3D solution={rotation} />}
+          {labeledPoints && showObject && <FeaturePointLabels3D points={labeledPoints.points} names={labeledPoints.names} />}
           
           {/* 截平面 */}
-          {showSectionPlane && !isCustom && (
+          {combinedSection && sectionPlanes.map(plane => (
             <SectionPlane
-              geometry={geometry}
-              enabled={showSectionPlane}
-              planePosition={sectionPlanePosition}
-              planeRotation={sectionPlaneRotation}
+              key={plane.id}
+              sectionResult={combinedSection.sections.find(section => section.id === plane.id)?.result ?? null}
+              planePosition={plane.position}
+              planeRotation={plane.rotation}
               planeSize={4}
-              onSectionChange={handleSectionChange}
+              color={plane.color}
+              active={plane === activeSectionPlane}
+              hatch={cutaway ? null : sectionHatch}
             />
+          ))}
+          {combinedSection?.intersections.map(line => (
+            <PlaneIntersectionLines key={line.planes.join('-')} segments={line.segments} />
+          ))}
+          {showSectionPlane && showSectionGizmo && activeSectionPlane && hasProjection && onSectionPlaneChange && (
+            <SectionPlaneGizmo
+              position={activeSectionPlane.position}
+              rotation={activeSectionPlane.rotation}
+              snapVertices={snapVertices}
+              onChange={onSectionPlaneChange}
+            />
+          )}
+          {showSectionPlane && sectionVertexPicking && !changeOfPlaneMode && !rotationAxis && solidGeometry && (
+            <SnapVertexPicker geometry={solidGeometry} vertices={snapVertices} onChange={setSnapVertices} />
           )}
+          {showSectionPlane && sectionPointPicking && !changeOfPlaneMode && !rotationAxis && solidGeometry && (
+            <ThreePointPicker geometry={solidGeometry} points={definingPoints} onChange={handleDefiningPointsChange} />
+          )}
+          {visibleDefiningPoints.length > 0 && <DefiningPoints points={visibleDefiningPoints} />}
         </group>
       )}
 
       {/* 轴测投影视图 - 放在右上方避免遮挡 */}
-      {showAxonometric && (!isDraw || isDrawCompleted) && (
+      {showAxonometric && (!isDraw || isDrawCompleted) && !isPrimitives && (
         <AxonometricView 
           geometry={geometry} 
           type={axonometricType}
+          simplified={axonometricSimplified}
+          axes={revolutionAxes}
           position={[9, 3, 3]}
         />
       )}
 
-      {/* V面 (主视图 - 后墙，固定位置) */}
-      {(!isDraw || isDrawCompleted) && <group ref={vPlaneRef} position={[0, 0, -BOX_SIZE / 2]}>
-        <mesh position={[0, 0, 0]}>
-          <planeGeometry args={[BOX_SIZE, BOX_SIZE]} />
-          <meshBasicMaterial color={COLORS.PLANE_V} transparent opacity={0.4} side={THREE.DoubleSide} />
-          <Edges color={COLORS.PLANE_BORDER} />
-        </mesh>
-        <PlaneLabel text="V (主视图)" position={[0, BOX_SIZE / 2 + 0.3, 0.1]} />
-        {!isCustom && <ProjectedView type={geometryType} params={geometryParams} plane="V" />}
-        {showSectionPlane && sectionResult && (
-          <SectionLine2D sectionResult={sectionResult} plane="V" />
-        )}
-      </group>}
-
-      {/* H面 (俯视图 - 底面，展开时向下炸开) */}
-      {(!isDraw || isDrawCompleted) && <group ref={hPlaneRef} position={[0, -BOX_SIZE / 2, -BOX_SIZE / 2]}>
-          <group rotation={[-Math.PI / 2, 0, 0]}>
-             <group position={[0, -BOX_SIZE / 2, 0]}> 
-                <mesh receiveShadow>
-                  <planeGeometry args={[BOX_SIZE, BOX_SIZE]} />
-                  <meshBasicMaterial color={COLORS.PLANE_H} transparent opacity={0.4} side={THREE.DoubleSide} />
-                  <Edges color={COLORS.PLANE_BORDER} />
-                </mesh>
-                <PlaneLabel text="H (俯视图)" position={[0, -BOX_SIZE / 2 + 0.3, 0.1]} />
-                
-                {!isCustom && <ProjectedView type={geometryType} params={geometryParams} plane="H" />}
-                {showSectionPlane && sectionResult && (
-                  <SectionLine2D sectionResult={sectionResult} plane="H" />
-                )}
-             </group>
-          </group>
-      </group>}
-
-      {/* W面 (左视图 - 展开时向右炸开) */}
-      {(!isDraw || isDrawCompleted) && <group ref={wPlaneRef} position={[BOX_SIZE / 2, 0, -BOX_SIZE / 2]}>
-          <group rotation={[0, -Math.PI / 2, 0]}>
-            <group position={[BOX_SIZE / 2, 0, 0]}> 
-              <mesh receiveShadow>
-                <planeGeometry args={[BOX_SIZE, BOX_SIZE]} />
-                <meshBasicMaterial color={COLORS.PLANE_W} transparent opacity={0.4} side={THREE.DoubleSide} />
-                <Edges color={COLORS.PLANE_BORDER} />
-              </mesh>
-              <PlaneLabel text="W (左视图)" position={[0, BOX_SIZE / 2 + 0.3, 0.1]} />
+      {/* 断面图 - 放在轴测图下方 */}
+      {showSectionPlane && showSectionView && activeSectionPlane && activeSectionResult && (
+        <SectionTrueShapeView
+          sectionResult={activeSectionResult}
+          planePosition={activeSectionPlane.position}
+          planeRotation={activeSectionPlane.rotation}
+          hatch={sectionHatch}
+          position={[9, -3, 3]}
+        />
+      )}
 
-              {!isCustom && <ProjectedView type={geometryType} params={geometryParams} plane="W" />}
-              {showSectionPlane && sectionResult && (
-                <SectionLine2D sectionResult={sectionResult} plane="W" />
-              )}
-            </group>
-          </group>
-      </group>}
-
-      {/* R面 (右视图 - 展开时向左炸开) */}
-      {(!isDraw || isDrawCompleted) && <group ref={rPlaneRef} position={[-BOX_SIZE / 2, 0, -BOX_SIZE / 2]}>
-          <group rotation={[0, Math.PI / 2, 0]}>
-             <group position={[-BOX_SIZE / 2, 0, 0]}>
-                <mesh receiveShadow>
-                  <planeGeometry args={[BOX_SIZE, BOX_SIZE]} />
-                  <meshBasicMaterial color={COLORS.PLANE_R} transparent opacity={0.4} side={THREE.DoubleSide} />
-                  <Edges color={COLORS.PLANE_BORDER} />
-                </mesh>
-                <PlaneLabel text="R (右视图)" position={[0, BOX_SIZE / 2 + 0.3, 0.1]} />
-
-                {!isCustom && <ProjectedView type={geometryType} params={geometryParams} plane="R" />}
-                {showSectionPlane && sectionResult && (
-                  <SectionLine2D sectionResult={sectionResult} plane="R" />
-                )}
-             </group>
-          </group>
-      </group>}
+      {/* 投影面：V 面为根，其余投影面沿铰链逐级展开 */}
+      {(!isDraw || isDrawCompleted) && planeDefinitions.filter(d => !d.parent).map(definition => (
+        <ViewPlaneNode
+          key={definition.id}
+          definition={definition}
+          definitions={planeDefinitions}
+          isUnfolded={isUnfolded}
+          boxSize={BOX_SIZE}
+          explodeGap={EXPLODE_GAP}
+          renderContent={renderPlaneContent}
+        />
+      ))}
 
       {/* 展开时显示网格背景 */}
       {isUnfolded && (
@@ -519,12 +867,20 @@ export const GlassBoxScene: React.FC<GlassBoxSceneProps> = ({
           cellSize={1}
           cellColor="#475569" 
           sectionColor="#64748b" 
-          position={[0, -BOX_SIZE/2 - EXPLODE_GAP - BOX_SIZE - 0.05, -BOX_SIZE/2]} 
+          position={[0, (-BOX_SIZE/2 - EXPLODE_GAP - BOX_SIZE - 0.05) * side, -BOX_SIZE/2 * side]} 
           rotation={[Math.PI/2, 0, 0]}
           fadeDistance={50}
         />
       )}
 
+      {/* 投影体系识别符号（展开时放在视图空出的一角） */}
+      {(!isDraw || isDrawCompleted) && (
+        <ProjectionSymbol
+          system={projectionSystem}
+          position={isUnfolded ? [BOX_SIZE, -BOX_SIZE * side, -BOX_SIZE / 2 * side + 0.1] : [BOX_SIZE / 2 + EXPLODE_GAP + 1.5, BOX_SIZE / 2 + 0.5, -BOX_SIZE / 2]}
+        />
+      )}
+
       {/* 坐标轴辅助线（折叠状态下显示，绘制模式除外） */}
       {!isUnfolded && (!isDraw || isDrawCompleted) && (
         <group position={[-BOX_SIZE/2 - 0.5, -BOX_SIZE/2 - 0.5, -BOX_SIZE/2 - 0.5]}>
@@ -542,6 +898,6 @@ export const GlassBoxScene: React.FC<GlassBoxSceneProps> = ({
           </mesh>
         </group>
       )}
-    </>
+    </RotationProgressProvider>
   );
 };
@@ -0,0 +1,164 @@
+import React, { useMemo } from 'react';
+import * as THREE from 'three';
+import { Line } from '@react-three/drei';
+import { IntersectionCurve } from '../utils/intersectionCurve';
+import { AuxiliaryPlaneStep } from '../utils/auxiliaryPlaneMethod';
+import { buildMeshTopology } from '../utils/meshTopology';
+import { Polyline2D, projectEdgesWithVisibility } from '../utils/hiddenLine';
+import { ViewTarget, projectPointToView } from '../utils/viewProjection';
+
+// 相贯线颜色
+const INTERSECTION_CURVE_COLOR = '#dc2626';
+// 辅助平面法作图：辅助平面、主体与支管截交线的颜色
+const AUXILIARY_PLANE_COLOR = '#f59e0b';
+const MAIN_SECTION_COLOR = '#2563eb';
+const BRANCH_SECTION_COLOR = '#16a34a';
+
+// 折线展开为线段
+const toSegments = (curve: IntersectionCurve): [THREE.Vector3, THREE.Vector3][] => {
+  const count = curve.isClosed ? curve.points.length : curve.points.length - 1;
+  return Array.from({ length: count }, (_, i) => [curve.points[i], curve.points[(i + 1) % curve.points.length]]);
+};
+
+/**
+ * 相贯线（3D）
+ */
+export const IntersectionCurve3D: React.FC<{ curves: IntersectionCurve[] }> = ({ curves }) => (
+  <group>
+    {curves.map((curve, idx) => (
+      <Line
+        key={idx}
+        points={curve.isClosed ? [...curve.points, curve.points[0]] : curve.points}
+        color={INTERSECTION_CURVE_COLOR}
+        lineWidth={3}
+        renderOrder={5}
+      />
+    ))}
+  </group>
+);
+
+/**
+ * 相贯线在投影面上的投影
+ * 以立体网格做遮挡测试：可见部分画粗实线，不可见部分画虚线，与可见部分重合的虚线省略
+ */
+interface IntersectionCurveProjectionProps {
+  curves: IntersectionCurve[];
+  geometry: THREE.BufferGeometry;  // 相贯体网格（遮挡测试）
+  plane: ViewTarget;
+  offset?: number;
+}
+
+export const IntersectionCurveProjection: React.FC<IntersectionCurveProjectionProps> = ({ curves, geometry, plane, offset = 0.06 }) => {
+  const topology = useMemo(() => buildMeshTopology(geometry), [geometry]);
+
+  const { visible, hidden } = useMemo(() => {
+    const lines = projectEdgesWithVisibility(topology, curves.flatMap(toSegments), plane);
+    const flatten = (polylines: Polyline2D[]) => polylines.flatMap(line =>
+      line.slice(1).flatMap((p, i) => [[line[i][0], line[i][1], 0], [p[0], p[1], 0]] as [number, number, number][]));
+    return { visible: flatten(lines.visible), hidden: flatten(lines.hidden) };
+  }, [topology, curves, plane]);
+
+  return (
+    <group position={[0, 0, offset]}>
+      {visible.length > 0 && (
+        <Line points={visible} segments color={INTERSECTION_CURVE_COLOR} lineWidth={2.5} />
+      )}
+      {hidden.length > 0 && (
+        <Line points={hidden} segments color={INTERSECTION_CURVE_COLOR} lineWidth={1.5} dashed dashSize={0.15} gapSize={0.1} />
+      )}
+    </group>
+  );
+};
+
+/**
+ * 辅助平面法作图（3D）
+ * 当前辅助平面画出平面及其与两立体的截交线；已作出的各辅助平面上的共有点保留，并连成相贯线
+ */
+interface AuxiliaryPlaneConstructionProps {
+  steps: AuxiliaryPlaneStep[];                   // 已作出的辅助平面（最后一个为当前平面）
+  segments: [THREE.Vector3, THREE.Vector3][];    // 已连接的相贯线
+  planeSize?: number;
+}
+
+export const AuxiliaryPlaneConstruction3D: React.FC<AuxiliaryPlaneConstructionProps> = ({ steps, segments, planeSize = 4 }) => {
+  const current = steps[steps.length - 1];
+  const quaternion = useMemo(
+    () => current ? new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0, 0, 1), current.normal) : new THREE.Quaternion(),
+    [current]
+  );
+  const points = useMemo(() => steps.flatMap(step => step.points), [steps]);
+
+  return (
+    <group>
+      {current && (
+        <>
+          <mesh position={current.point} quaternion={quaternion} renderOrder={4}>
+            <planeGeometry args={[planeSize, planeSize]} />
+            <meshBasicMaterial color={AUXILIARY_PLANE_COLOR} transparent opacity={0.2} side={THREE.DoubleSide} depthWrite={false} />
+          </mesh>
+          {current.mainSection.map((line, idx) => (
+            <Line key={`main-${idx}`} points={line} color={MAIN_SECTION_COLOR} lineWidth={2} depthTest={false} renderOrder={6} />
+          ))}
+          {current.branchSection.map((line, idx) => (
+            <Line key={`branch-${idx}`} points={line} color={BRANCH_SECTION_COLOR} lineWidth={2} depthTest={false} renderOrder={6} />
+          ))}
+        </>
+      )}
+      {segments.length > 0 && (
+        <Line points={segments.flat()} segments color={INTERSECTION_CURVE_COLOR} lineWidth={3} renderOrder={7} />
+      )}
+      {points.map((p, idx) => (
+        <mesh key={idx} position={p} renderOrder={8}>
+          <sphereGeometry args={[0.05, 10, 10]} />
+          <meshBasicMaterial color={INTERSECTION_CURVE_COLOR} depthTest={false} />
+        </mesh>
+      ))}
+    </group>
+  );
+};
+
+/**
+ * 辅助平面法作图在投影面上的投影
+ * 当前辅助平面的截交线画细线，共有点画小圆点，已连接的相贯线画实线
+ */
+interface AuxiliaryPlaneConstructionProjectionProps {
+  steps: AuxiliaryPlaneStep[];
+  segments: [THREE.Vector3, THREE.Vector3][];
+  plane: ViewTarget;
+  offset?: number;
+}
+
+export const AuxiliaryPlaneConstructionProjection: React.FC<AuxiliaryPlaneConstructionProjectionProps> = ({ steps, segments, plane, offset = 0.07 }) => {
+  const project = (p: THREE.Vector3): [number, number, number] => {
+    const [u, v] = projectPointToView(p, plane);
+    return [u, v, 0];
+  };
+
+  const { mainSection, branchSection, points, curve } = useMemo(() => {
+    const current = steps[steps.length - 1];
+    return {
+      mainSection: current ? current.mainSection.map(line => line.map(project)) : [],
+      branchSection: current ? current.branchSection.map(line => line.map(project)) : [],
+      points: steps.flatMap(step => step.points.map(project)),
+      curve: segments.flat().map(project),
+    };
+  }, [steps, segments, plane]);
+
+  return (
+    <group position={[0, 0, offset]}>
+      {mainSection.map((line, idx) => (
+        <Line key={`main-${idx}`} points={line} color={MAIN_SECTION_COLOR} lineWidth={1} />
+      ))}
+      {branchSection.map((line, idx) => (
+        <Line key={`branch-${idx}`} points={line} color={BRANCH_SECTION_COLOR} lineWidth={1} />
+      ))}
+      {curve.length > 0 && <Line points={curve} segments color={INTERSECTION_CURVE_COLOR} lineWidth={2.5} />}
+      {points.map((p, idx) => (
+        <mesh key={idx} position={p}>
+          <circleGeometry args={[0.05, 12]} />
+          <meshBasicMaterial color={INTERSECTION_CURVE_COLOR} />
+        </mesh>
+      ))}
+    </group>
+  );
+};
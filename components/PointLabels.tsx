@@ -0,0 +1,77 @@
+import React, { useMemo } from 'react';
+import * as THREE from 'three';
+import { Billboard, Text } from '@react-three/drei';
+import { MeshTopology } from '../utils/meshTopology';
+import { createOcclusionTester } from '../utils/hiddenLine';
+import { computePointLabels } from '../utils/pointLabels';
+import { ViewTarget } from '../utils/viewProjection';
+
+const POINT_LABEL_COLOR = '#b91c1c';
+const HIDDEN_LABEL_COLOR = '#64748b';
+
+/**
+ * 特征点的3D标注（A、B、C……）
+ */
+export const FeaturePointLabels3D: React.FC<{ points: THREE.Vector3[]; names: string[] }> = ({ points, names }) => (
+  <group>
+    {points.map((p, idx) => (
+      <group key={names[idx]} position={p}>
+        <mesh renderOrder={12}>
+          <sphereGeometry args={[0.05, 12, 12]} />
+          <meshBasicMaterial color={POINT_LABEL_COLOR} depthTest={false} />
+        </mesh>
+        <Billboard position={[0.12, 0.12, 0]}>
+          <Text fontSize={0.24} color={POINT_LABEL_COLOR} anchorX="left" anchorY="bottom" outlineWidth={0.03} outlineColor="white" renderOrder={12}>
+            {names[idx]}
+          </Text>
+        </Billboard>
+      </group>
+    ))}
+  </group>
+);
+
+/**
+ * 特征点在投影面上的标注
+ * 画在投影面局部坐标中，随投影面折叠/展开；不可见点加括号并用灰色
+ */
+interface FeaturePointLabelsProjectionProps {
+  points: THREE.Vector3[];
+  names: string[];
+  topology: MeshTopology | null;  // 立体的网格拓扑（判断遮挡），为空时不判断
+  plane: ViewTarget;
+  viewId: string;
+  labelRotation?: number;  // 标注绕平面法向的旋转，与投影面标签一致
+  offset?: number;
+}
+
+export const FeaturePointLabelsProjection: React.FC<FeaturePointLabelsProjectionProps> = ({ points, names, topology, plane, viewId, labelRotation = 0, offset = 0.09 }) => {
+  const labels = useMemo(() => {
+    const isOccluded = topology ? createOcclusionTester(topology, plane) : undefined;
+    return computePointLabels(points, names, plane, viewId, isOccluded);
+  }, [points, names, topology, plane, viewId]);
+
+  return (
+    <group position={[0, 0, offset]}>
+      {labels.map(({ position: [u, v], text, visible }) => (
+        <group key={text} position={[u, v, 0]}>
+          <mesh>
+            <circleGeometry args={[0.045, 12]} />
+            <meshBasicMaterial color={visible ? POINT_LABEL_COLOR : HIDDEN_LABEL_COLOR} />
+          </mesh>
+          <Text
+            position={[0.08, 0.08, 0.01]}
+            rotation={[0, 0, labelRotation]}
+            fontSize={0.2}
+            color={visible ? POINT_LABEL_COLOR : HIDDEN_LABEL_COLOR}
+            anchorX="left"
+            anchorY="bottom"
+            outlineWidth={0.02}
+            outlineColor="white"
+          >
+            {text}
+          </Text>
+        </group>
+      ))}
+    </group>
+  );
+};
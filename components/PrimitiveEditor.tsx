@@ -0,0 +1,338 @@
+import React, { useMemo, useState } from 'react';
+import * as THREE from 'three';
+import { Plus, Trash2 } from 'lucide-react';
+import { PrimitiveAnalysis, PrimitivePlane, PrimitiveScene } from '../types';
+import { formatProjectionLabel, nextPrimitiveId, resolvePrimitives } from '../utils/primitives';
+import { LINE_RELATION_LABELS, analyzePrimitives } from '../utils/relativePosition';
+import { computeTraceOverlay } from '../utils/traces';
+import { BOX_SIZE } from '../utils/glassBox';
+
+const POINT_NAMES = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'.split('');
+const PLANE_NAMES = ['P', 'Q', 'R', 'S', 'T'];
+const AXIS_LABELS = ['X', 'Y', 'Z'];
+// 迹点所在投影面的名称
+const TRACE_PLANE_LABELS = { V: 'V 面', H: 'H 面', W: 'W 面' };
+
+// 坐标的显示格式
+const formatCoords = (coords: THREE.Vector3) => `(${coords.toArray().map(v => +v.toFixed(2)).join(', ')})`;
+
+const inputClass = 'w-full min-w-0 bg-white/5 border border-white/10 rounded px-1 py-0.5 text-[10px] text-slate-200 font-mono focus:outline-none focus:border-sky-500/50';
+const buttonClass = 'p-1 rounded-md border bg-white/5 text-slate-300 border-white/10 hover:bg-white/10 disabled:opacity-40 disabled:cursor-not-allowed';
+
+// 位置分类的标签颜色：一般位置、投影面平行、投影面垂直
+const CATEGORY_CLASSES = {
+  general: 'bg-slate-500/20 text-slate-300',
+  parallel: 'bg-emerald-500/20 text-emerald-300',
+  perpendicular: 'bg-amber-500/20 text-amber-300',
+};
+
+/**
+ * 点、直线、平面编辑面板
+ * 按坐标增删点，由两点作直线，由三点或截距（迹线）作平面，并列出直线与平面相对投影面的位置；
+ * 选择两直线或直线与平面分析其相对位置，选择直线或平面求其迹点、迹线
+ */
+interface PrimitiveEditorProps {
+  scene: PrimitiveScene;
+  onChange: (scene: PrimitiveScene) => void;
+}
+
+export const PrimitiveEditor: React.FC<PrimitiveEditorProps> = ({ scene, onChange }) => {
+  const [lineDraft, setLineDraft] = useState<[string, string]>(['', '']);
+  const [planeKind, setPlaneKind] = useState<PrimitivePlane['kind']>('points');
+  const [planePointsDraft, setPlanePointsDraft] = useState<[string, string, string]>(['', '', '']);
+  const [interceptsDraft, setInterceptsDraft] = useState<[number | null, number | null, number | null]>([4, 3, 3]);
+
+  const resolved = useMemo(() => resolvePrimitives(scene, BOX_SIZE), [scene]);
+  const analysis = useMemo(() => analyzePrimitives(resolved, scene.analysis, BOX_SIZE), [resolved, scene.analysis]);
+  const setAnalysis = (next: PrimitiveAnalysis | null) => onChange({ ...scene, analysis: next });
+  const lineAnalysis = scene.analysis?.kind === 'lines' ? scene.analysis : null;
+
+  // 分析结论与投影上的依据
+  const analysisSummary = useMemo(() => {
+    if (!analysis) return null;
+    if (analysis.kind === 'lines') {
+      const [a, b] = analysis.lines;
+      const title = `${a.name} 与 ${b.name}：${LINE_RELATION_LABELS[analysis.relation]}`;
+      if (analysis.relation === 'parallel') return { title, detail: '同面投影都互相平行' };
+      // 只有相交时才有交点
+      const k = analysis.intersection;
+      if (k) {
+        return {
+          title,
+          detail: `交点 K${formatCoords(k.coords)}${analysis.onSegments ? '' : '在延长线上'}；k、k′、k″ 在同一投影连线上，符合点的投影规律`,
+        };
+      }
+      const pairs = analysis.coincident.map(({ viewId, front, back }) =>
+        `${formatProjectionLabel(front.name, viewId)}(${formatProjectionLabel(back.name, viewId)})`);
+      return { title, detail: `同面投影的交点不符合点的投影规律，是重影点${pairs.length > 0 ? `：${pairs.join('、')}` : ''}` };
+    }
+    const title = `${analysis.line.name} 与 ${analysis.plane.name}`;
+    if (analysis.parallel) return { title: `${title}：平行`, detail: '直线平行于平面，没有贯穿点' };
+    if (!analysis.piercing) return { title: `${title}：相交`, detail: '交点在线段的延长线上' };
+    return {
+      title: `${title}：相交`,
+      detail: `贯穿点 K${formatCoords(analysis.piercing.coords)}${analysis.plane.kind === 'points' ? '；以 K 为界，直线被平面遮住的部分画虚线' : ''}`,
+    };
+  }, [analysis]);
+
+  // 迹点、迹线
+  const traceOverlay = useMemo(() => computeTraceOverlay(resolved, scene.traceTarget, BOX_SIZE), [resolved, scene.traceTarget]);
+  const traceItems = useMemo(() => {
+    if (!traceOverlay) return [];
+    if (traceOverlay.line) {
+      return (['H', 'V', 'W'] as const).map(viewId => {
+        const trace = traceOverlay.linePoints.find(t => t.viewId === viewId);
+        if (!trace) return `平行于 ${TRACE_PLANE_LABELS[viewId]}，没有${TRACE_PLANE_LABELS[viewId]}迹点`;
+        return `${TRACE_PLANE_LABELS[viewId]}迹点 ${trace.point.name}${formatCoords(trace.point.coords)}${trace.inRange ? '' : '（在投影面范围之外）'}`;
+      });
+    }
+    const plane = traceOverlay.plane;
+    if (!plane) return [];
+    const traces = (['V', 'H', 'W'] as const).filter(viewId => plane.traces[viewId]).map(viewId => `${plane.name}${viewId}`);
+    return [
+      traces.length > 0 ? `迹线 ${traces.join('、')}` : '在投影面范围内没有迹线',
+      ...plane.axisPoints.map(point => `${plane.name}${point.name} 在 O${point.name} 轴上，是两条迹线的交点`),
+    ];
+  }, [traceOverlay]);
+
+  const pointName = (id: string) => scene.points.find(p => p.id === id)?.name ?? '?';
+
+  const handleAddPoint = () => {
+    const name = POINT_NAMES.find(n => !scene.points.some(p => p.name === n));
+    if (!name) return;
+    const point = { id: nextPrimitiveId('pt', scene.points), name, coords: [2.5, 2.5, 2.5] as [number, number, number] };
+    onChange({ ...scene, points: [...scene.points, point] });
+  };
+
+  const handlePointChange = (id: string, axis: number, value: number) => {
+    if (Number.isNaN(value)) return;
+    // 坐标范围与投影面边长一致，保证点在投影面体系之内
+    const clamped = Math.min(BOX_SIZE, Math.max(0, value));
+    onChange({
+      ...scene,
+      points: scene.points.map(p => p.id === id ? { ...p, coords: p.coords.map((c, i) => i === axis ? clamped : c) as [number, number, number] } : p),
+    });
+  };
+
+  // 删除点时一并删除引用它的直线与平面
+  const handleRemovePoint = (id: string) => onChange({
+    ...scene,
+    points: scene.points.filter(p => p.id !== id),
+    lines: scene.lines.filter(line => !line.points.includes(id)),
+    planes: scene.planes.filter(plane => plane.kind !== 'points' || !plane.points.includes(id)),
+  });
+
+  const handleAddLine = () => {
+    const [a, b] = lineDraft;
+    if (!a || !b || a === b) return;
+    onChange({ ...scene, lines: [...scene.lines, { id: nextPrimitiveId('ln', scene.lines), points: [a, b] }] });
+    setLineDraft(['', '']);
+  };
+
+  const planeName = PLANE_NAMES.find(n => !scene.planes.some(p => p.name === n));
+  const canAddPlane = !!planeName && (planeKind === 'points'
+    ? planePointsDraft.every(id => id) && new Set(planePointsDraft).size === 3
+    : interceptsDraft.some(value => value !== null) && interceptsDraft.every(value => value !== 0));
+
+  const handleAddPlane = () => {
+    if (!canAddPlane || !planeName) return;
+    const id = nextPrimitiveId('pl', scene.planes);
+    const plane: PrimitivePlane = planeKind === 'points'
+      ? { id, name: planeName, kind: 'points', points: planePointsDraft }
+      : { id, name: planeName, kind: 'traces', intercepts: interceptsDraft };
+    onChange({ ...scene, planes: [...scene.planes, plane] });
+    setPlanePointsDraft(['', '', '']);
+  };
+
+  const pointOptions = scene.points.map(p => <option key={p.id} value={p.id}>{p.name}</option>);
+  const lineOptions = resolved.lines.map(l => <option key={l.id} value={l.id}>{l.name}</option>);
+
+  return (
+    <div className="space-y-3">
+      {/* 点 */}
+      <div className="space-y-1">
+        <div className="flex items-center text-[10px] text-sky-300">
+          <span className="w-6">点</span>
+          {AXIS_LABELS.map(label => <span key={label} className="flex-1 text-center text-slate-500">{label}</span>)}
+          <button onClick={handleAddPoint} disabled={scene.points.length >= POINT_NAMES.length} title="增加点" className={`${buttonClass} ml-1`}><Plus size={10} /></button>
+        </div>
+        {scene.points.map(point => (
+          <div key={point.id} className="flex items-center gap-1">
+            <span className="w-5 text-[11px] text-sky-300 font-medium">{point.name}</span>
+            {point.coords.map((value, axis) => (
+              <input
+                key={axis}
+                type="number"
+                min={0}
+                max={BOX_SIZE}
+                step={0.5}
+                value={value}
+                onChange={(e) => handlePointChange(point.id, axis, parseFloat(e.target.value))}
+                className={inputClass}
+              />
+            ))}
+            <button onClick={() => handleRemovePoint(point.id)} title="删除点" className={buttonClass}><Trash2 size={10} /></button>
+          </div>
+        ))}
+      </div>
+
+      {/* 直线 */}
+      <div className="space-y-1 pt-2 border-t border-white/10">
+        <div className="text-[10px] text-sky-300">直线</div>
+        {resolved.lines.map(line => (
+          <div key={line.id} className="flex items-center gap-1 text-[10px]">
+            <span className="w-8 text-slate-200 font-medium">{line.name}</span>
+            <span className={`flex-1 px-1.5 py-0.5 rounded ${CATEGORY_CLASSES[line.position.category]}`}>{line.position.label}</span>
+            <button onClick={() => onChange({ ...scene, lines: scene.lines.filter(l => l.id !== line.id) })} title="删除直线" className={buttonClass}><Trash2 size={10} /></button>
+          </div>
+        ))}
+        <div className="flex items-center gap-1">
+          {[0, 1].map(i => (
+            <select key={i} value={lineDraft[i]} onChange={(e) => setLineDraft(lineDraft.map((id, j) => j === i ? e.target.value : id) as [string, string])} className={inputClass}>
+              <option value="">—</option>
+              {pointOptions}
+            </select>
+          ))}
+          <button onClick={handleAddLine} disabled={!lineDraft[0] || !lineDraft[1] || lineDraft[0] === lineDraft[1]} title="由两点作直线" className={buttonClass}><Plus size={10} /></button>
+        </div>
+      </div>
+
+      {/* 平面 */}
+      <div className="space-y-1 pt-2 border-t border-white/10">
+        <div className="text-[10px] text-sky-300">平面</div>
+        {resolved.planes.map(plane => (
+          <div key={plane.id} className="flex items-center gap-1 text-[10px]">
+            <span className="w-8 text-slate-200 font-medium">{plane.name}</span>
+            <span className={`flex-1 px-1.5 py-0.5 rounded ${CATEGORY_CLASSES[plane.position.category]}`}>{plane.position.label}</span>
+            <button onClick={() => onChange({ ...scene, planes: scene.planes.filter(p => p.id !== plane.id) })} title="删除平面" className={buttonClass}><Trash2 size={10} /></button>
+          </div>
+        ))}
+        {scene.planes.filter(plane => !resolved.planes.some(p => p.id === plane.id)).map(plane => (
+          <div key={plane.id} className="flex items-center gap-1 text-[10px]">
+            <span className="w-8 text-slate-200 font-medium">{plane.name}</span>
+            <span className="flex-1 px-1.5 py-0.5 rounded bg-red-500/20 text-red-300">
+              {plane.kind === 'points' ? `${plane.points.map(pointName).join('')} 三点共线` : '不能确定平面'}
+            </span>
+            <button onClick={() => onChange({ ...scene, planes: scene.planes.filter(p => p.id !== plane.id) })} title="删除平面" className={buttonClass}><Trash2 size={10} /></button>
+          </div>
+        ))}
+        <div className="flex gap-1 p-1 bg-white/5 rounded-md">
+          {[{ kind: 'points' as const, label: '三点' }, { kind: 'traces' as const, label: '迹线（截距）' }].map(({ kind, label }) => (
+            <button key={kind} onClick={() => setPlaneKind(kind)} className={`flex-1 py-1 rounded text-[10px] transition-all ${planeKind === kind ? 'bg-sky-500/30 text-sky-200' : 'text-slate-400 hover:bg-white/10'}`}>{label}</button>
+          ))}
+        </div>
+        {planeKind === 'points' ? (
+          <div className="flex items-center gap-1">
+            {[0, 1, 2].map(i => (
+              <select key={i} value={planePointsDraft[i]} onChange={(e) => setPlanePointsDraft(planePointsDraft.map((id, j) => j === i ? e.target.value : id) as [string, string, string])} className={inputClass}>
+                <option value="">—</option>
+                {pointOptions}
+              </select>
+            ))}
+            <button onClick={handleAddPlane} disabled={!canAddPlane} title="由三点作平面" className={buttonClass}><Plus size={10} /></button>
+          </div>
+        ) : (
+          <div className="flex items-center gap-1">
+            {interceptsDraft.map((value, axis) => (
+              <div key={axis} className="flex-1 flex items-center gap-0.5">
+                <span className="text-[9px] text-slate-500">{AXIS_LABELS[axis]}</span>
+                {value === null ? (
+                  <button onClick={() => setInterceptsDraft(interceptsDraft.map((v, i) => i === axis ? 3 : v) as typeof interceptsDraft)} title="与该轴相交" className={`${inputClass} text-center`}>∞</button>
+                ) : (
+                  <input
+                    type="number"
+                    step={0.5}
+                    value={value}
+                    onChange={(e) => {
+                      const next = parseFloat(e.target.value);
+                      if (!Number.isNaN(next)) setInterceptsDraft(interceptsDraft.map((v, i) => i === axis ? next : v) as typeof interceptsDraft);
+                    }}
+                    onDoubleClick={() => setInterceptsDraft(interceptsDraft.map((v, i) => i === axis ? null : v) as typeof interceptsDraft)}
+                    title="双击设为 ∞（平面平行于该轴）"
+                    className={inputClass}
+                  />
+                )}
+              </div>
+            ))}
+            <button onClick={handleAddPlane} disabled={!canAddPlane} title="由迹线作平面（截距不能为 0）" className={buttonClass}><Plus size={10} /></button>
+          </div>
+        )}
+      </div>
+
+      {/* 相对位置 */}
+      <div className="space-y-1 pt-2 border-t border-white/10">
+        <div className="text-[10px] text-sky-300">相对位置</div>
+        <div className="flex gap-1 p-1 bg-white/5 rounded-md">
+          {[
+            { kind: null, label: '不分析' },
+            { kind: 'lines' as const, label: '两直线' },
+            { kind: 'line-plane' as const, label: '直线与平面' },
+          ].map(({ kind, label }) => (
+            <button
+              key={label}
+              onClick={() => setAnalysis(kind === null ? null : kind === 'lines' ? { kind, lines: ['', ''] } : { kind, line: '', plane: '' })}
+              className={`flex-1 py-1 rounded text-[10px] transition-all ${(scene.analysis?.kind ?? null) === kind ? 'bg-sky-500/30 text-sky-200' : 'text-slate-400 hover:bg-white/10'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        {lineAnalysis && (
+          <div className="flex items-center gap-1">
+            {[0, 1].map(i => (
+              <select
+                key={i}
+                value={lineAnalysis.lines[i]}
+                onChange={(e) => setAnalysis({ kind: 'lines', lines: lineAnalysis.lines.map((id, j) => j === i ? e.target.value : id) as [string, string] })}
+                className={inputClass}
+              >
+                <option value="">—</option>
+                {lineOptions}
+              </select>
+            ))}
+          </div>
+        )}
+        {scene.analysis?.kind === 'line-plane' && (
+          <div className="flex items-center gap-1">
+            <select value={scene.analysis.line} onChange={(e) => scene.analysis?.kind === 'line-plane' && setAnalysis({ ...scene.analysis, line: e.target.value })} className={inputClass}>
+              <option value="">—</option>
+              {lineOptions}
+            </select>
+            <select value={scene.analysis.plane} onChange={(e) => scene.analysis?.kind === 'line-plane' && setAnalysis({ ...scene.analysis, plane: e.target.value })} className={inputClass}>
+              <option value="">—</option>
+              {resolved.planes.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </select>
+          </div>
+        )}
+        {analysisSummary && (
+          <div className="p-2 rounded-md bg-red-500/10 border border-red-500/20 text-[10px] leading-relaxed">
+            <div className="text-red-200 font-medium">{analysisSummary.title}</div>
+            <div className="text-slate-300">{analysisSummary.detail}</div>
+          </div>
+        )}
+      </div>
+
+      {/* 迹点、迹线 */}
+      <div className="space-y-1 pt-2 border-t border-white/10">
+        <div className="text-[10px] text-sky-300">迹点与迹线</div>
+        <select
+          value={scene.traceTarget ? `${scene.traceTarget.kind}:${scene.traceTarget.id}` : ''}
+          onChange={(e) => {
+            const [kind, id] = e.target.value.split(':');
+            onChange({ ...scene, traceTarget: id ? { kind: kind as 'line' | 'plane', id } : null });
+          }}
+          className={inputClass}
+        >
+          <option value="">不求迹</option>
+          {resolved.lines.map(l => <option key={l.id} value={`line:${l.id}`}>直线 {l.name}</option>)}
+          {resolved.planes.map(p => <option key={p.id} value={`plane:${p.id}`}>平面 {p.name}</option>)}
+        </select>
+        {traceItems.length > 0 && (
+          <div className="p-2 rounded-md bg-emerald-500/10 border border-emerald-500/20 text-[10px] leading-relaxed text-slate-300">
+            {traceItems.map(item => <div key={item}>{item}</div>)}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
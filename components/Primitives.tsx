@@ -0,0 +1,355 @@
+import React, { useMemo } from 'react';
+import * as THREE from 'three';
+import { Billboard, Line, Text } from '@react-three/drei';
+import { ResolvedPlane, ResolvedPoint, ResolvedPrimitives, formatProjectionLabel, toWorldPosition } from '../utils/primitives';
+import { PrimitiveAnalysisResult } from '../utils/relativePosition';
+import { TraceOverlay } from '../utils/traces';
+import { ViewPlaneDefinition } from '../utils/glassBox';
+import { ViewTarget, projectPointToView } from '../utils/viewProjection';
+
+// 点、直线与平面的颜色
+const POINT_COLOR = '#1d4ed8';
+const LINE_COLOR = '#0f172a';
+const PLANE_COLOR = '#7c3aed';
+// 投影连线颜色
+const CONNECTOR_COLOR = '#94a3b8';
+// 相对位置分析（交点、贯穿点、重影点）的颜色
+const ANALYSIS_COLOR = '#dc2626';
+// 迹点、迹线的颜色
+const TRACE_COLOR = '#059669';
+
+// 三个基本投影面对应的教材坐标分量（V 面 y=0，H 面 z=0，W 面 x=0）
+const BASIC_PLANE_AXES: Record<string, number> = { W: 0, V: 1, H: 2 };
+
+// 平面图形的三角剖分（凸多边形，扇形剖分）
+const useOutlineGeometry = (outline: THREE.Vector3[]) => useMemo(() => {
+  const geometry = new THREE.BufferGeometry();
+  const positions = outline.slice(1, -1).flatMap((p, i) => [...outline[0].toArray(), ...p.toArray(), ...outline[i + 2].toArray()]);
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  return geometry;
+}, [outline]);
+
+// 多边形形心
+const centroid = (points: THREE.Vector3[]) =>
+  points.reduce((acc, p) => acc.add(p), new THREE.Vector3()).divideScalar(Math.max(points.length, 1));
+
+const PlaneShape3D: React.FC<{ plane: ResolvedPlane }> = ({ plane }) => {
+  const geometry = useOutlineGeometry(plane.outline);
+  const center = centroid(plane.outline);
+  return (
+    <group>
+      <mesh geometry={geometry} renderOrder={3}>
+        <meshBasicMaterial color={PLANE_COLOR} transparent opacity={0.2} side={THREE.DoubleSide} depthWrite={false} />
+      </mesh>
+      <Line points={[...plane.outline, plane.outline[0]]} color={PLANE_COLOR} lineWidth={1.5} />
+      <Billboard position={center}>
+        <Text fontSize={0.26} color={PLANE_COLOR} anchorX="center" anchorY="middle" outlineWidth={0.03} outlineColor="white">
+          {plane.name}
+        </Text>
+      </Billboard>
+    </group>
+  );
+};
+
+// 分析得到的点（3D），如交点、重影点、迹点
+const MarkedPoint3D: React.FC<{ point: ResolvedPoint; color?: string; label?: React.ReactNode }> = ({ point, color = ANALYSIS_COLOR, label }) => (
+  <group position={point.world}>
+    <mesh renderOrder={11}>
+      <sphereGeometry args={[0.08, 12, 12]} />
+      <meshBasicMaterial color={color} depthTest={false} />
+    </mesh>
+    <Billboard position={[0.15, -0.15, 0]}>
+      {label ?? (
+        <Text fontSize={0.26} color={color} anchorX="left" anchorY="top" outlineWidth={0.03} outlineColor="white">
+          {point.name}
+        </Text>
+      )}
+    </Billboard>
+  </group>
+);
+
+// 带下标的标注，如迹线 P_V、迹线与投影轴的交点 P_X
+const SubscriptLabel: React.FC<{ name: string; subscript: string; color: string; anchorY?: 'top' | 'bottom' }> = ({ name, subscript, color, anchorY = 'bottom' }) => (
+  <group>
+    <Text position={[0, 0, 0]} fontSize={0.22} color={color} anchorX="left" anchorY={anchorY} outlineWidth={0.02} outlineColor="white">
+      {name}
+    </Text>
+    <Text position={[0.15 * name.length, anchorY === 'bottom' ? -0.04 : -0.1, 0]} fontSize={0.14} color={color} anchorX="left" anchorY={anchorY} outlineWidth={0.02} outlineColor="white">
+      {subscript}
+    </Text>
+  </group>
+);
+
+// 分析中求出的交点或贯穿点
+const getAnalysisPoint = (analysis: PrimitiveAnalysisResult | null) =>
+  !analysis ? null : analysis.kind === 'lines' ? analysis.intersection : analysis.piercing;
+
+/**
+ * 点、直线、平面（3D）
+ * 点以大写字母标注；由迹线给出的平面画出其在投影面体系内的部分。
+ * 相对位置分析时标出交点或贯穿点 K，交叉两直线标出各对重影点及其公共投射线；
+ * 求迹时标出直线的迹点 M、N、S，或平面在投影面体系内的部分及其迹线。
+ * 迹点、迹线和迹线与投影轴的交点画在分离（explodeGap）后的投影面上，迹点用投射线连回原位；
+ * 展开时这些元素随投影面移走，不再画出（展开图中由 PrimitiveProjection 画出）
+ */
+interface Primitives3DProps {
+  primitives: ResolvedPrimitives;
+  analysis?: PrimitiveAnalysisResult | null;
+  traces?: TraceOverlay | null;
+  planes: ViewPlaneDefinition[];
+  explodeGap?: number;
+  isUnfolded?: boolean;
+}
+
+export const Primitives3D: React.FC<Primitives3DProps> = ({ primitives, analysis = null, traces = null, planes, explodeGap = 0, isUnfolded = false }) => {
+  const analysisPoint = getAnalysisPoint(analysis);
+  const tracePlane = traces?.plane;
+
+  // 投影面上的求迹元素平移到分离后的投影面
+  const onPlanes = useMemo(() => {
+    if (!traces || isUnfolded) return null;
+    const offsets = new Map(planes.map(plane => [plane.id, plane.outward.clone().multiplyScalar(explodeGap)]));
+    const shift = (point: ResolvedPoint, viewId: string): ResolvedPoint => {
+      const offset = offsets.get(viewId);
+      return offset ? { ...point, world: point.world.clone().add(offset) } : point;
+    };
+    const linePoints = traces.linePoints.filter(trace => trace.inRange).map(({ viewId, point }) => ({
+      key: viewId,
+      origin: point.world,
+      point: shift(point, viewId),
+    }));
+    // 迹线与投影轴的交点是相邻两条迹线的公共端点，分离后在两个投影面上各标一次
+    const planeTraces = (Object.entries(traces.plane?.traces ?? {}) as [string, [THREE.Vector3, THREE.Vector3]][]).map(([viewId, segment]) => {
+      const offset = offsets.get(viewId) ?? new THREE.Vector3();
+      return {
+        viewId,
+        segment: segment.map(p => p.clone().add(offset)) as [THREE.Vector3, THREE.Vector3],
+        axisPoints: (traces.plane?.axisPoints ?? [])
+          .filter(axisPoint => segment.some(p => p.distanceTo(axisPoint.world) < 1e-6))
+          .map(axisPoint => shift(axisPoint, viewId)),
+      };
+    });
+    return { linePoints, planeTraces };
+  }, [traces, planes, explodeGap, isUnfolded]);
+
+  return (
+    <group>
+      {primitives.planes.filter(plane => plane.outline.length >= 3).map(plane => (
+        <PlaneShape3D key={plane.id} plane={plane} />
+      ))}
+      {primitives.lines.map(line => (
+        <Line key={line.id} points={[line.start.world, line.end.world]} color={LINE_COLOR} lineWidth={3} />
+      ))}
+      {primitives.points.map(point => (
+        <group key={point.id} position={point.world}>
+          <mesh renderOrder={10}>
+            <sphereGeometry args={[0.07, 12, 12]} />
+            <meshBasicMaterial color={POINT_COLOR} />
+          </mesh>
+          <Billboard position={[0.15, 0.15, 0]}>
+            <Text fontSize={0.28} color={POINT_COLOR} anchorX="left" anchorY="bottom" outlineWidth={0.03} outlineColor="white">
+              {point.name}
+            </Text>
+          </Billboard>
+        </group>
+      ))}
+      {analysisPoint && <MarkedPoint3D point={analysisPoint} />}
+      {analysis?.kind === 'lines' && analysis.coincident.map(({ viewId, front, back }) => (
+        <group key={viewId}>
+          <Line points={[front.world, back.world]} color={ANALYSIS_COLOR} lineWidth={1} dashed dashSize={0.08} gapSize={0.06} />
+          <MarkedPoint3D point={front} />
+          <MarkedPoint3D point={back} />
+        </group>
+      ))}
+      {traces?.extensions.map(([from, to], idx) => (
+        <Line key={`extension-${idx}`} points={[from, to]} color={LINE_COLOR} lineWidth={1.5} dashed dashSize={0.12} gapSize={0.08} />
+      ))}
+      {tracePlane && (
+        <Line points={[...tracePlane.region, tracePlane.region[0]]} color={TRACE_COLOR} lineWidth={1} dashed dashSize={0.12} gapSize={0.08} />
+      )}
+      {onPlanes?.linePoints.map(({ key, origin, point }) => (
+        <group key={key}>
+          <Line points={[origin, point.world]} color={TRACE_COLOR} lineWidth={1} dashed dashSize={0.12} gapSize={0.08} transparent opacity={0.6} />
+          <MarkedPoint3D point={point} color={TRACE_COLOR} />
+        </group>
+      ))}
+      {tracePlane && onPlanes?.planeTraces.map(({ viewId, segment, axisPoints }) => (
+        <group key={viewId}>
+          <Line points={segment} color={TRACE_COLOR} lineWidth={3} />
+          {axisPoints.map(point => (
+            <MarkedPoint3D
+              key={point.id}
+              point={point}
+              color={TRACE_COLOR}
+              label={<SubscriptLabel name={tracePlane.name} subscript={point.name} color={TRACE_COLOR} anchorY="top" />}
+            />
+          ))}
+        </group>
+      ))}
+    </group>
+  );
+};
+
+/**
+ * 点向各投影面的投射线（折叠状态）
+ */
+interface PrimitiveProjectorRaysProps {
+  primitives: ResolvedPrimitives;
+  planes: ViewPlaneDefinition[];
+  explodeGap?: number;
+}
+
+export const PrimitiveProjectorRays: React.FC<PrimitiveProjectorRaysProps> = ({ primitives, planes, explodeGap = 0 }) => {
+  const rays = useMemo(() => planes.flatMap(plane => {
+    const dir = plane.basis.direction;
+    const planePoint = plane.center.clone().addScaledVector(plane.outward, explodeGap);
+    return primitives.points.map(({ id, world }) => ({
+      key: `${plane.id}-${id}`,
+      start: world,
+      end: world.clone().addScaledVector(dir, planePoint.clone().sub(world).dot(dir)),
+    }));
+  }), [primitives, planes, explodeGap]);
+
+  return (
+    <group>
+      {rays.map(({ key, start, end }) => (
+        <Line key={key} points={[start, end]} color={POINT_COLOR} lineWidth={1} dashed dashSize={0.12} gapSize={0.08} transparent opacity={0.6} />
+      ))}
+    </group>
+  );
+};
+
+/**
+ * 点、直线、平面在投影面上的投影
+ * 点标注为 a、a′、a″，并在 V、H、W 面上画出到投影轴的投影连线；
+ * 三点平面画出三角形的投影，迹线平面只在 V、H、W 面上画出对应的迹线 P_V、P_H、P_W。
+ * 相对位置分析时画出交点或贯穿点 k、k′、k″，重影点在重合的投影面上标注为 1′(2′)，
+ * 直线被三点平面遮住的部分画虚线。求迹时画出迹点的投影（如 m、m′），
+ * 以及所选平面在该投影面上的迹线和迹线与投影轴的交点（展开后相邻迹线交于投影轴上同一点）
+ */
+interface PrimitiveProjectionProps {
+  primitives: ResolvedPrimitives;
+  plane: ViewTarget;
+  viewId: string;
+  boxSize: number;
+  side?: number;
+  analysis?: PrimitiveAnalysisResult | null;
+  traces?: TraceOverlay | null;
+  labelRotation?: number;  // 标注绕平面法向的旋转，与投影面标签一致
+  offset?: number;
+}
+
+export const PrimitiveProjection: React.FC<PrimitiveProjectionProps> = ({ primitives, plane, viewId, boxSize, side = 1, analysis = null, traces: traceOverlay = null, labelRotation = 0, offset = 0.06 }) => {
+  const project = (p: THREE.Vector3): [number, number, number] => {
+    const [u, v] = projectPointToView(p, plane);
+    return [u, v, 0];
+  };
+
+  const { marks, connectors, lines, hiddenLines, extensions, triangles, traces } = useMemo(() => {
+    // 标注的点：基本元素中的点、交点或贯穿点、重影点（重影的投影面上合为一个标注，不可见的点加括号）
+    const marks: { id: string; point: ResolvedPoint; label: string; subscript?: string; color: string }[] =
+      primitives.points.map(point => ({ id: point.id, point, label: formatProjectionLabel(point.name, viewId), color: POINT_COLOR }));
+    const analysisPoint = getAnalysisPoint(analysis);
+    if (analysisPoint) marks.push({ id: analysisPoint.id, point: analysisPoint, label: formatProjectionLabel(analysisPoint.name, viewId), color: ANALYSIS_COLOR });
+    if (analysis?.kind === 'lines') {
+      analysis.coincident.forEach(({ viewId: pairView, front, back }) => {
+        if (pairView === viewId) {
+          marks.push({ id: front.id, point: front, label: `${formatProjectionLabel(front.name, viewId)}(${formatProjectionLabel(back.name, viewId)})`, color: ANALYSIS_COLOR });
+        } else {
+          [front, back].forEach(point => marks.push({ id: point.id, point, label: formatProjectionLabel(point.name, viewId), color: ANALYSIS_COLOR }));
+        }
+      });
+    }
+    const axis = BASIC_PLANE_AXES[viewId];
+    traceOverlay?.linePoints.filter(trace => trace.inRange).forEach(({ point }) =>
+      marks.push({ id: point.id, point, label: formatProjectionLabel(point.name, viewId), color: TRACE_COLOR }));
+    // 迹线与投影轴的交点只画在它所在的两个投影面上
+    const tracePlane = traceOverlay?.plane;
+    tracePlane?.axisPoints.filter(point => axis !== undefined && Math.abs(point.coords.getComponent(axis)) < 1e-9).forEach(point =>
+      marks.push({ id: point.id, point, label: tracePlane.name, subscript: point.name, color: TRACE_COLOR }));
+
+    // 投影连线：从点的投影到与另外两个基本投影面的交线（投影轴）
+    const origin = project(toWorldPosition([0, 0, 0], boxSize, side));
+    const connectors = axis === undefined ? [] : marks.flatMap(({ point }) =>
+      Object.values(BASIC_PLANE_AXES).filter(other => other !== axis).flatMap(other => {
+        const foot = point.coords.clone().setComponent(other, 0);
+        return [project(point.world), project(toWorldPosition(foot, boxSize, side))];
+      }));
+
+    // 与三点平面相交的直线按可见性分段
+    const visibility = analysis?.kind === 'line-plane' ? analysis.visibility[viewId as 'V' | 'H' | 'W'] : undefined;
+    const splitLineId = analysis?.kind === 'line-plane' && visibility ? analysis.line.id : null;
+    return {
+      marks,
+      connectors,
+      lines: [
+        ...primitives.lines.filter(line => line.id !== splitLineId).map(line => [project(line.start.world), project(line.end.world)]),
+        ...(visibility?.visible ?? []).map(segment => segment.map(project)),
+      ],
+      hiddenLines: (visibility?.hidden ?? []).map(segment => segment.map(project)),
+      extensions: (traceOverlay?.extensions ?? []).map(segment => segment.map(project)),
+      triangles: primitives.planes.filter(p => p.kind === 'points').map(p => ({ id: p.id, points: p.outline.map(project) })),
+      traces: primitives.planes.flatMap(p => {
+        const trace = p.traces[viewId as 'V' | 'H' | 'W'];
+        const selected = traceOverlay?.plane?.id === p.id;
+        if ((p.kind !== 'traces' && !selected) || !trace) return [];
+        const [a, b] = trace.map(project);
+        // 标注放在远离原点的一端
+        const end = Math.hypot(a[0] - origin[0], a[1] - origin[1]) > Math.hypot(b[0] - origin[0], b[1] - origin[1]) ? a : b;
+        return [{ id: p.id, name: p.name, points: [a, b], label: end, color: selected ? TRACE_COLOR : PLANE_COLOR }];
+      }),
+    };
+  }, [primitives, plane, viewId, boxSize, side, analysis, traceOverlay]);
+
+  return (
+    <group position={[0, 0, offset]}>
+      {connectors.length > 0 && (
+        <Line points={connectors} segments color={CONNECTOR_COLOR} lineWidth={0.8} />
+      )}
+      {triangles.map(({ id, points: outline }) => (
+        <Line key={id} points={[...outline, outline[0]]} color={PLANE_COLOR} lineWidth={1.5} />
+      ))}
+      {traces.map(({ id, name, points: segment, label, color }) => (
+        <group key={id}>
+          <Line points={segment} color={color} lineWidth={2} />
+          <group position={[label[0] + 0.1, label[1] + 0.1, 0.01]} rotation={[0, 0, labelRotation]}>
+            <SubscriptLabel name={name} subscript={viewId} color={color} />
+          </group>
+        </group>
+      ))}
+      {extensions.length > 0 && (
+        <Line points={extensions.flat()} segments color={LINE_COLOR} lineWidth={1} dashed dashSize={0.12} gapSize={0.08} />
+      )}
+      {lines.length > 0 && <Line points={lines.flat()} segments color={LINE_COLOR} lineWidth={2.5} />}
+      {hiddenLines.length > 0 && (
+        <Line points={hiddenLines.flat()} segments color={LINE_COLOR} lineWidth={1.5} dashed dashSize={0.15} gapSize={0.1} />
+      )}
+      {marks.map(({ id, point, label, subscript, color }) => (
+        <group key={id} position={project(point.world)}>
+          <mesh>
+            <circleGeometry args={[0.05, 12]} />
+            <meshBasicMaterial color={color} />
+          </mesh>
+          {subscript ? (
+            <group position={[0.1, 0.1, 0.01]} rotation={[0, 0, labelRotation]}>
+              <SubscriptLabel name={label} subscript={subscript} color={color} />
+            </group>
+          ) : (
+            <Text
+              position={[0.1, 0.1, 0.01]}
+              rotation={[0, 0, labelRotation]}
+              fontSize={0.22}
+              color={color}
+              anchorX="left"
+              anchorY="bottom"
+              outlineWidth={0.02}
+              outlineColor="white"
+            >
+              {label}
+            </Text>
+          )}
+        </group>
+      ))}
+    </group>
+  );
+};
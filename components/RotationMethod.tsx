@@ -0,0 +1,133 @@
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import * as THREE from 'three';
+import { useFrame } from '@react-three/fiber';
+import { Line, Text } from '@react-three/drei';
+import { RotationSolution, getRotatedEndpoint } from '../utils/rotationMethod';
+import { ViewTarget, projectPointToView } from '../utils/viewProjection';
+
+const ROTATION_COLOR = '#f97316';
+const AXIS_COLOR = '#0ea5e9';
+const ORIGINAL_COLOR = '#fdba74';
+const ARC_SEGMENTS = 32;
+
+// 旋转动画进度（0~1），由 RotationProgressProvider 统一驱动，3D演示与各投影面共用
+const RotationProgressContext = createContext(0);
+
+/**
+ * 旋转法动画进度
+ * 结果变化时在同一次渲染中从 0 开始（不会先画出上一次转到位的状态），匀速转到 1 后回调一次
+ */
+interface RotationProgressProviderProps {
+  solution: RotationSolution | null;
+  onLand?: (solution: RotationSolution) => void;
+  children: React.ReactNode;
+}
+
+export const RotationProgressProvider: React.FC<RotationProgressProviderProps> = ({ solution, onLand, children }) => {
+  const [state, setState] = useState({ solution, progress: 0 });
+  if (state.solution !== solution) setState({ solution, progress: 0 });
+  const progress = state.solution === solution ? state.progress : 0;
+  const landed = !!solution && progress >= 1;
+
+  useFrame((_, delta) => {
+    if (solution && progress < 1) setState(prev => ({ ...prev, progress: Math.min(1, prev.progress + delta * 0.5) }));
+  });
+
+  useEffect(() => {
+    if (landed && solution) onLand?.(solution);
+  }, [landed, solution, onLand]);
+
+  return <RotationProgressContext.Provider value={progress}>{children}</RotationProgressContext.Provider>;
+};
+
+// 运动端点已经转过的圆弧
+const getArcPoints = (solution: RotationSolution, progress: number) =>
+  Array.from({ length: ARC_SEGMENTS + 1 }, (_, i) => getRotatedEndpoint(solution, (progress * i) / ARC_SEGMENTS));
+
+/**
+ * 旋转法的3D演示
+ * 画出通过不动端点的旋转轴、运动端点的轨迹圆弧和旋转中的直线
+ */
+export const RotationMethod3D: React.FC<{ solution: RotationSolution }> = ({ solution }) => {
+  const progress = useContext(RotationProgressContext);
+
+  const axisPoints = useMemo(() => [
+    solution.pivot.clone().addScaledVector(solution.axisDirection, -1.5),
+    solution.pivot.clone().addScaledVector(solution.axisDirection, 1.5),
+  ], [solution]);
+
+  const current = getRotatedEndpoint(solution, progress);
+  const arc = getArcPoints(solution, progress);
+
+  return (
+    <group>
+      <Line points={axisPoints} color={AXIS_COLOR} lineWidth={1.5} dashed dashSize={0.3} gapSize={0.1} />
+      <Line points={[solution.pivot, solution.moving]} color={ORIGINAL_COLOR} lineWidth={2} dashed dashSize={0.12} gapSize={0.08} />
+      {progress > 0 && <Line points={arc} color={ROTATION_COLOR} lineWidth={1} dashed dashSize={0.1} gapSize={0.06} />}
+      <Line points={[solution.pivot, current]} color={ROTATION_COLOR} lineWidth={4} depthTest={false} renderOrder={11} />
+      {[solution.pivot, current].map((point, i) => (
+        <mesh key={i} position={point} renderOrder={12}>
+          <sphereGeometry args={[0.07, 12, 12]} />
+          <meshBasicMaterial color={ROTATION_COLOR} depthTest={false} />
+        </mesh>
+      ))}
+    </group>
+  );
+};
+
+/**
+ * 旋转法在投影面上的投影
+ * 原投影画虚线，轨迹圆弧在垂直于轴的投影面上反映为圆弧、在另一投影面上积聚为平行于投影轴的直线；
+ * 转到位后在反映实长的投影面上标注实长和倾角
+ */
+interface RotationMethodProjectionProps {
+  solution: RotationSolution;
+  plane: ViewTarget;
+  viewId: string;
+  labelRotation?: number;  // 标注绕平面法向的旋转，与投影面标签一致
+  offset?: number;
+}
+
+export const RotationMethodProjection: React.FC<RotationMethodProjectionProps> = ({ solution, plane, viewId, labelRotation = 0, offset = 0.1 }) => {
+  const progress = useContext(RotationProgressContext);
+  const project = (p: THREE.Vector3) => {
+    const [u, v] = projectPointToView(p, plane);
+    return [u, v, 0] as [number, number, number];
+  };
+
+  const pivot = project(solution.pivot);
+  const original = project(solution.moving);
+  const current = project(getRotatedEndpoint(solution, progress));
+  const arc = getArcPoints(solution, progress).map(project);
+  const isTrueView = progress >= 1 && viewId === solution.trueView;
+  const { alpha, beta } = solution.angles;
+
+  const label = (position: [number, number, number], text: string, anchorY: 'top' | 'bottom') => (
+    <Text
+      position={[position[0], position[1], 0.01]}
+      rotation={[0, 0, labelRotation]}
+      fontSize={0.26}
+      color="#9a3412"
+      anchorX="center"
+      anchorY={anchorY}
+      outlineWidth={0.03}
+      outlineColor="white"
+    >
+      {text}
+    </Text>
+  );
+
+  return (
+    <group position={[0, 0, offset]}>
+      <Line points={[pivot, original]} color={ORIGINAL_COLOR} lineWidth={1.5} dashed dashSize={0.1} gapSize={0.06} />
+      {progress > 0 && <Line points={arc} color={ROTATION_COLOR} lineWidth={1} dashed dashSize={0.08} gapSize={0.05} />}
+      <Line points={[pivot, current]} color={ROTATION_COLOR} lineWidth={isTrueView ? 4 : 2.5} />
+      {isTrueView && (
+        <>
+          {label([(pivot[0] + current[0]) / 2, (pivot[1] + current[1]) / 2, 0], `实长 ${solution.trueLength.toFixed(2)}`, 'bottom')}
+          {label([pivot[0], pivot[1] - 0.15, 0], `${solution.trueView === 'V' ? 'α' : 'β'} = ${(solution.trueView === 'V' ? alpha : beta).toFixed(1)}°`, 'top')}
+        </>
+      )}
+    </group>
+  );
+};
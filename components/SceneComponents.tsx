@@ -1,8 +1,12 @@
 import React, { useMemo } from 'react';
 import * as THREE from 'three';
 import { Edges, Text, Line } from '@react-three/drei';
-import { GeometryType, GeometryParams } from '../types';
+import { GeometryType, GeometryParams, ProjectionSystem } from '../types';
 import { ADDITION, Evaluator, Brush } from 'three-bvh-csg';
+import { computeProjectedLines, ProjectedLines, Polyline2D, RevolutionAxis } from '../utils/hiddenLine';
+import { ViewTarget } from '../utils/viewProjection';
+import { ViewPlaneDefinition } from '../utils/glassBox';
+import { createIntersectionBodies, createIntersectionGeometry, getIntersectionAxes } from '../utils/intersectionCurve';
 
 // 优化后的配色方案 - 更柔和协调
 export const COLORS = {
@@ -14,6 +18,9 @@ export const COLORS = {
   PLANE_H: '#bae6fd', // Sky 200 (俯视图 - 底面)
   PLANE_W: '#bbf7d0', // Green 200 (左视图 - 右侧墙)
   PLANE_R: '#fde68a', // Amber 200 (右视图 - 左侧墙)
+  PLANE_B: '#ddd6fe', // Violet 200 (仰视图 - 顶面)
+  PLANE_K: '#fbcfe8', // Pink 200 (后视图 - 前墙)
+  PLANE_AUX: '#a5f3fc', // Cyan 200 (辅助投影面)
   PLANE_BORDER: '#374151', // Gray 700
   PROJECTOR_LINE: '#f87171', // Red 400 - 投影线
   PROJECTION_FILL: 'rgba(0,0,0,0.05)',
@@ -22,7 +29,7 @@ export const COLORS = {
 // --- Geometry Hook ---
 
 export const useGeometryFactory = (type: GeometryType, params: GeometryParams) => {
-  const { width, height, depth, cutSize } = params;
+  const { width, height, depth, cutSize, intersection } = params;
 
   return useMemo(() => {
     switch (type) {
@@ -86,7 +93,8 @@ export const useGeometryFactory = (type: GeometryType, params: GeometryParams) =
       }
 
       case GeometryType.TORUS: {
-        const torusGeo = new THREE.TorusGeometry(width / 2.5, width / 6, 16, 48);
+        // 管截面分段数需足够，使相邻面折角小于特征棱线阈值
+        const torusGeo = new THREE.TorusGeometry(width / 2.5, width / 6, 32, 48);
         // 将圆环从XY平面旋转到XZ平面（水平放置）
         torusGeo.rotateX(Math.PI / 2);
         return torusGeo;
@@ -285,10 +293,14 @@ export const useGeometryFactory = (type: GeometryType, params: GeometryParams) =
         return result.geometry;
       }
 
+      case GeometryType.INTERSECTING_SOLIDS:
+        // 主体与支管的并集，相贯线另由解析法求出
+        return createIntersectionGeometry(createIntersectionBodies({ width, height, depth, cutSize, intersection }));
+
       default:
         return new THREE.BoxGeometry(width, height, depth);
     }
-  }, [type, width, height, depth, cutSize]);
+  }, [type, width, height, depth, cutSize, intersection]);
 };
 
 export const BaseGeometry: React.FC<{ type: GeometryType; params: GeometryParams }> = ({ type, params }) => {
@@ -334,1581 +346,326 @@ export const MainObject: React.FC<MainObjectProps> = ({ type, params, opacity =
 interface ProjectedViewProps {
   type: GeometryType;
   params: GeometryParams;
-  plane: 'V' | 'H' | 'W' | 'R';
+  plane: ViewTarget;
+  geometry: THREE.BufferGeometry;  // 实际显示的几何体（含绘制建模结果）
 }
 
-// 空心圆柱专用投影视图
-const HollowCylinderProjection: React.FC<{ params: GeometryParams; plane: 'V' | 'H' | 'W' | 'R' }> = ({ params, plane }) => {
+// 回转体的轴线（用于生成中心线）
+export const getRevolutionAxes = (type: GeometryType, params: GeometryParams): RevolutionAxis[] => {
   const { width, height } = params;
-  const outerR = width / 2;
-  const innerR = width / 4;
-  const halfH = height / 2;
-  const OFFSET = 0.05;
-
-  // 创建圆形路径点
-  const createCirclePoints = (radius: number, segments: number = 64): THREE.Vector3[] => {
-    const points: THREE.Vector3[] = [];
-    for (let i = 0; i <= segments; i++) {
-      const angle = (i / segments) * Math.PI * 2;
-      points.push(new THREE.Vector3(Math.cos(angle) * radius, Math.sin(angle) * radius, 0));
-    }
-    return points;
-  };
-
-  if (plane === 'V') {
-    // 主视图：显示矩形外轮廓 + 内孔虚线
-    return (
-      <group position={[0, 0, OFFSET]}>
-        {/* 外轮廓实线 - 矩形 */}
-        <Line
-          points={[
-            [-outerR, -halfH, 0], [outerR, -halfH, 0], [outerR, halfH, 0], [-outerR, halfH, 0], [-outerR, -halfH, 0]
-          ]}
-          color="#1f2937"
-          lineWidth={2}
-        />
-        {/* 内孔虚线 - 两条竖线 */}
-        <Line
-          points={[[-innerR, -halfH, 0], [-innerR, halfH, 0]]}
-          color="#1f2937"
-          lineWidth={1.5}
-          dashed
-          dashSize={0.15}
-          gapSize={0.1}
-        />
-        <Line
-          points={[[innerR, -halfH, 0], [innerR, halfH, 0]]}
-          color="#1f2937"
-          lineWidth={1.5}
-          dashed
-          dashSize={0.15}
-          gapSize={0.1}
-        />
-      </group>
-    );
-  } else if (plane === 'W' || plane === 'R') {
-    // 左视图/右视图：显示矩形外轮廓 + 内孔虚线
-    // 注意：父级已经有旋转变换，这里在 XY 平面绘制（与 V 面类似）
-    return (
-      <group position={[0, 0, OFFSET]}>
-        {/* 外轮廓实线 - 矩形 */}
-        <Line
-          points={[
-            [-outerR, -halfH, 0], [outerR, -halfH, 0], [outerR, halfH, 0], [-outerR, halfH, 0], [-outerR, -halfH, 0]
-          ]}
-          color="#1f2937"
-          lineWidth={2}
-        />
-        {/* 内孔虚线 - 两条竖线 */}
-        <Line
-          points={[[-innerR, -halfH, 0], [-innerR, halfH, 0]]}
-          color="#1f2937"
-          lineWidth={1.5}
-          dashed
-          dashSize={0.15}
-          gapSize={0.1}
-        />
-        <Line
-          points={[[innerR, -halfH, 0], [innerR, halfH, 0]]}
-          color="#1f2937"
-          lineWidth={1.5}
-          dashed
-          dashSize={0.15}
-          gapSize={0.1}
-        />
-      </group>
-    );
-  } else {
-    // 俯视图：显示两个同心圆
-    // 注意：父级已有旋转变换，在 XY 平面绘制
-    return (
-      <group position={[0, 0, OFFSET]}>
-        {/* 外圆实线 */}
-        <Line points={createCirclePoints(outerR)} color="#1f2937" lineWidth={2} />
-        {/* 内圆实线（内孔在俯视图中可见） */}
-        <Line points={createCirclePoints(innerR)} color="#1f2937" lineWidth={2} />
-      </group>
-    );
+  const origin = new THREE.Vector3(0, 0, 0);
+
+  switch (type) {
+    case GeometryType.CYLINDER:
+    case GeometryType.CONE:
+    case GeometryType.HOLLOW_CYLINDER:
+    case GeometryType.CUT_CYLINDER:
+      return [{ center: origin, direction: new THREE.Vector3(0, 1, 0), halfLength: height / 2, radius: width / 2 }];
+    case GeometryType.TORUS:
+      return [{ center: origin, direction: new THREE.Vector3(0, 1, 0), halfLength: width / 6, radius: width / 2.5 + width / 6 }];
+    case GeometryType.SPHERE:
+      // 球的三个视图都是带十字中心线的圆
+      return [new THREE.Vector3(1, 0, 0), new THREE.Vector3(0, 1, 0), new THREE.Vector3(0, 0, 1)]
+        .map(direction => ({ center: origin, direction, halfLength: width / 2, radius: width / 2 }));
+    case GeometryType.INTERSECTING_SOLIDS:
+      return getIntersectionAxes(createIntersectionBodies(params));
+    default:
+      return [];
   }
 };
 
-// 开槽块专用投影视图
-const SlotBlockProjection: React.FC<{ params: GeometryParams; plane: 'V' | 'H' | 'W' | 'R' }> = ({ params, plane }) => {
-  const { width, height, depth } = params;
-  const w = width / 2;
-  const h = height / 2;
-  const d = depth / 2;
-  const slotW = width * 0.3;
-  const slotD = height * 0.4;
-  const OFFSET = 0.05;
-
-  // 创建虚线
-  const createDashedLine = (start: [number, number, number], end: [number, number, number]) => {
-    const geometry = new THREE.BufferGeometry().setFromPoints([
-      new THREE.Vector3(...start),
-      new THREE.Vector3(...end)
-    ]);
-    const line = new THREE.Line(
-      geometry,
-      new THREE.LineDashedMaterial({ color: '#1f2937', dashSize: 0.12, gapSize: 0.08 })
-    );
-    line.computeLineDistances();
-    return line;
-  };
-
-  if (plane === 'V') {
-    // 主视图：显示凹字形外轮廓 + 槽底虚线
-    return (
-      <group position={[0, 0, OFFSET]}>
-        {/* 外轮廓实线 */}
-        <Line
-          points={[
-            [-w, -h, 0], [w, -h, 0], [w, h, 0], 
-            [slotW/2, h, 0], [slotW/2, h - slotD, 0], 
-            [-slotW/2, h - slotD, 0], [-slotW/2, h, 0],
-            [-w, h, 0], [-w, -h, 0]
-          ]}
-          color="#1f2937"
-          lineWidth={2}
-        />
-        {/* 槽底虚线（不可见线） */}
-        <primitive object={createDashedLine([-slotW/2, h - slotD, 0], [slotW/2, h - slotD, 0])} />
-      </group>
-    );
-  } else if (plane === 'H') {
-    // 俯视图：显示矩形 + 槽的虚线
-    // 注意：父级已有旋转变换，在 XY 平面绘制
-    return (
-      <group position={[0, 0, OFFSET]}>
-        {/* 外轮廓实线 */}
-        <Line
-          points={[[-w, -d, 0], [w, -d, 0], [w, d, 0], [-w, d, 0], [-w, -d, 0]]}
-          color="#1f2937"
-          lineWidth={2}
-        />
-        {/* 槽的虚线 */}
-        <Line
-          points={[[-slotW/2, -d, 0], [-slotW/2, d, 0]]}
-          color="#1f2937"
-          lineWidth={1.5}
-          dashed
-          dashSize={0.15}
-          gapSize={0.1}
-        />
-        <Line
-          points={[[slotW/2, -d, 0], [slotW/2, d, 0]]}
-          color="#1f2937"
-          lineWidth={1.5}
-          dashed
-          dashSize={0.15}
-          gapSize={0.1}
-        />
-      </group>
-    );
-  } else {
-    // 左视图/右视图：显示矩形 + 槽的虚线
-    // 注意：父级已有旋转变换，在 XY 平面绘制
-    return (
-      <group position={[0, 0, OFFSET]}>
-        {/* 外轮廓实线 */}
-        <Line
-          points={[[-d, -h, 0], [d, -h, 0], [d, h, 0], [-d, h, 0], [-d, -h, 0]]}
-          color="#1f2937"
-          lineWidth={2}
-        />
-        {/* 槽底虚线 */}
-        <Line
-          points={[[-d, h - slotD, 0], [d, h - slotD, 0]]}
-          color="#1f2937"
-          lineWidth={1.5}
-          dashed
-          dashSize={0.15}
-          gapSize={0.1}
-        />
-      </group>
-    );
-  }
-};
-
-// 圆环体专用投影视图
-// 圆环水平放置在XZ平面（通过rotateX(PI/2)旋转后）
-const TorusProjection: React.FC<{ params: GeometryParams; plane: 'V' | 'H' | 'W' | 'R' }> = ({ params, plane }) => {
-  const { width } = params;
-  const R = width / 2.5;  // 主半径（圆环中心到管中心的距离）
-  const r = width / 6;    // 管半径
-  const OFFSET = 0.05;
-
-  // 创建圆形路径点
-  const createCirclePoints = (radius: number, segments: number = 64): THREE.Vector3[] => {
-    const points: THREE.Vector3[] = [];
-    for (let i = 0; i <= segments; i++) {
-      const angle = (i / segments) * Math.PI * 2;
-      points.push(new THREE.Vector3(Math.cos(angle) * radius, Math.sin(angle) * radius, 0));
-    }
-    return points;
-  };
-
-  if (plane === 'V') {
-    // 主视图：从前面看（沿-Z方向）
-    // 圆环水平放置在XZ平面，从正面看到两个管截面圆（左右排列）
-    // 加上连接两个圆的上下切线
-    return (
-      <group position={[0, 0, OFFSET]}>
-        {/* 左边的管截面圆 */}
-        <group position={[-R, 0, 0]}>
-          <Line points={createCirclePoints(r)} color="#1f2937" lineWidth={2} />
-        </group>
-        {/* 右边的管截面圆 */}
-        <group position={[R, 0, 0]}>
-          <Line points={createCirclePoints(r)} color="#1f2937" lineWidth={2} />
-        </group>
-        {/* 连接两个圆的切线（上下两条横线） */}
-        <Line points={[[-R, r, 0], [R, r, 0]]} color="#1f2937" lineWidth={2} />
-        <Line points={[[-R, -r, 0], [R, -r, 0]]} color="#1f2937" lineWidth={2} />
-      </group>
-    );
-  } else if (plane === 'H') {
-    // 俯视图：从上面看（沿-Y方向）
-    // 圆环水平放置在XZ平面，从上面看到两个同心圆
-    const outerR = R + r;
-    const innerR = R - r;
-    return (
-      <group position={[0, 0, OFFSET]}>
-        {/* 外圆轮廓 */}
-        <Line points={createCirclePoints(outerR)} color="#1f2937" lineWidth={2} />
-        {/* 内圆轮廓 */}
-        <Line points={createCirclePoints(innerR)} color="#1f2937" lineWidth={2} />
-      </group>
-    );
-  } else {
-    // 左视图/右视图：从侧面看（沿X方向）
-    // 圆环水平放置在XZ平面，从侧面看到两个管截面圆（前后排列，投影后左右排列）
-    // 加上连接两个圆的上下切线
-    return (
-      <group position={[0, 0, OFFSET]}>
-        {/* 前面的管截面圆（投影后在左边） */}
-        <group position={[-R, 0, 0]}>
-          <Line points={createCirclePoints(r)} color="#1f2937" lineWidth={2} />
-        </group>
-        {/* 后面的管截面圆（投影后在右边） */}
-        <group position={[R, 0, 0]}>
-          <Line points={createCirclePoints(r)} color="#1f2937" lineWidth={2} />
-        </group>
-        {/* 连接两个圆的切线（上下两条横线） */}
-        <Line points={[[-R, r, 0], [R, r, 0]]} color="#1f2937" lineWidth={2} />
-        <Line points={[[-R, -r, 0], [R, -r, 0]]} color="#1f2937" lineWidth={2} />
-      </group>
-    );
-  }
-};
-
-// 立方体专用投影视图
-const CubeProjection: React.FC<{ params: GeometryParams; plane: 'V' | 'H' | 'W' | 'R' }> = ({ params, plane }) => {
-  const { width, height, depth } = params;
-  const w = width / 2;
-  const h = height / 2;
-  const d = depth / 2;
-  const OFFSET = 0.05;
-
-  if (plane === 'V') {
-    // 主视图：看到矩形 (width × height)
-    return (
-      <group position={[0, 0, OFFSET]}>
-        <Line
-          points={[[-w, -h, 0], [w, -h, 0], [w, h, 0], [-w, h, 0], [-w, -h, 0]]}
-          color="#1f2937"
-          lineWidth={2}
-        />
-      </group>
-    );
-  } else if (plane === 'H') {
-    // 俯视图：看到矩形 (width × depth)
-    // 注意：父级已有旋转变换，在 XY 平面绘制
-    return (
-      <group position={[0, 0, OFFSET]}>
-        <Line
-          points={[[-w, -d, 0], [w, -d, 0], [w, d, 0], [-w, d, 0], [-w, -d, 0]]}
-          color="#1f2937"
-          lineWidth={2}
-        />
-      </group>
-    );
-  } else {
-    // 左视图/右视图：看到矩形 (depth × height)
-    // 注意：父级已有旋转变换，在 XY 平面绘制
-    return (
-      <group position={[0, 0, OFFSET]}>
-        <Line
-          points={[[-d, -h, 0], [d, -h, 0], [d, h, 0], [-d, h, 0], [-d, -h, 0]]}
-          color="#1f2937"
-          lineWidth={2}
-        />
-      </group>
-    );
-  }
-};
-
-// 球体专用投影视图
-const SphereProjection: React.FC<{ params: GeometryParams; plane: 'V' | 'H' | 'W' | 'R' }> = ({ params, plane }) => {
-  const { width } = params;
-  const r = width / 2;
-  const OFFSET = 0.05;
-
-  // 创建圆形路径点
-  const createCirclePoints = (radius: number, segments: number = 64): THREE.Vector3[] => {
-    const points: THREE.Vector3[] = [];
-    for (let i = 0; i <= segments; i++) {
-      const angle = (i / segments) * Math.PI * 2;
-      points.push(new THREE.Vector3(Math.cos(angle) * radius, Math.sin(angle) * radius, 0));
-    }
-    return points;
+// 消隐投影线渲染：可见线为粗实线，不可见线为虚线，轴线为细点画线
+export const ProjectionLines: React.FC<{ lines: ProjectedLines; offset?: number }> = ({ lines, offset = 0.05 }) => {
+  // 将折线展开为线段对，每类线型只创建一个 Line 对象
+  const toSegments = (polylines: Polyline2D[]) => {
+    const pts: [number, number, number][] = [];
+    polylines.forEach(line => {
+      for (let i = 0; i < line.length - 1; i++) {
+        pts.push([line[i][0], line[i][1], 0], [line[i + 1][0], line[i + 1][1], 0]);
+      }
+    });
+    return pts;
   };
 
-  if (plane === 'V') {
-    return (
-      <group position={[0, 0, OFFSET]}>
-        <Line points={createCirclePoints(r)} color="#1f2937" lineWidth={2} />
-      </group>
-    );
-  } else if (plane === 'H') {
-    // 俯视图：看到圆形
-    // 注意：父级已有旋转变换，在 XY 平面绘制
-    return (
-      <group position={[0, 0, OFFSET]}>
-        <Line points={createCirclePoints(r)} color="#1f2937" lineWidth={2} />
-      </group>
-    );
-  } else {
-    // 左视图/右视图：看到圆形
-    // 注意：父级已有旋转变换，在 XY 平面绘制
-    return (
-      <group position={[0, 0, OFFSET]}>
-        <Line points={createCirclePoints(r)} color="#1f2937" lineWidth={2} />
-      </group>
-    );
-  }
-};
-
-// 切角块专用投影视图
-const CutBlockProjection: React.FC<{ params: GeometryParams; plane: 'V' | 'H' | 'W' | 'R' }> = ({ params, plane }) => {
-  const { width, height, depth, cutSize } = params;
-  const w = width / 2;
-  const h = height / 2;
-  const d = depth / 2;
-  const safeCut = Math.min(cutSize, Math.min(width, height) - 0.05);
-  const OFFSET = 0.05;
-
-  // 创建虚线
-  const createDashedLine = (start: [number, number, number], end: [number, number, number]) => {
-    const geometry = new THREE.BufferGeometry().setFromPoints([
-      new THREE.Vector3(...start),
-      new THREE.Vector3(...end)
-    ]);
-    const line = new THREE.Line(
-      geometry,
-      new THREE.LineDashedMaterial({ color: '#1f2937', dashSize: 0.12, gapSize: 0.08 })
-    );
-    line.computeLineDistances();
-    return line;
-  };
+  const visible = useMemo(() => toSegments(lines.visible), [lines]);
+  const hidden = useMemo(() => toSegments(lines.hidden), [lines]);
+  const center = useMemo(() => toSegments(lines.center), [lines]);
 
-  if (plane === 'V') {
-    // 主视图（从前往后看）：看到切角形状
-    // 可见：外轮廓（切角形状）
-    // 不可见：无（后面的边与前面重合）
-    return (
-      <group position={[0, 0, OFFSET]}>
-        {/* 外轮廓实线 - 切角形状 */}
-        <Line
-          points={[
-            [-w, -h, 0], [w, -h, 0], [w, h - safeCut, 0], 
-            [w - safeCut, h, 0], [-w, h, 0], [-w, -h, 0]
-          ]}
-          color="#1f2937"
-          lineWidth={2}
-        />
-      </group>
-    );
-  } else if (plane === 'H') {
-    // 俯视图（从上往下看）：看到切角形状
-    // 切角在右后上角（+X, -Z），从上往下看，切角在右上角（+X, +Y方向，因为-Z映射到+Y）
-    // 注意：父级已有旋转变换，在 XY 平面绘制
-    return (
-      <group position={[0, 0, OFFSET]}>
-        {/* 外轮廓实线 - 切角形状 */}
-        <Line
-          points={[
-            [-w, -d, 0], [w, -d, 0], [w, d - safeCut, 0], 
-            [w - safeCut, d, 0], [-w, d, 0], [-w, -d, 0]
-          ]}
-          color="#1f2937"
-          lineWidth={2}
-        />
-      </group>
-    );
-  } else {
-    // 左视图（W面）和右视图（R面）：从侧面看，看到矩形
-    // 切角沿Z轴方向，从侧面看不到切角的形状变化
-    // 注意：父级已有旋转变换，在 XY 平面绘制
-    return (
-      <group position={[0, 0, OFFSET]}>
-        {/* 外轮廓实线 - 矩形 */}
-        <Line
-          points={[[-d, -h, 0], [d, -h, 0], [d, h, 0], [-d, h, 0], [-d, -h, 0]]}
-          color="#1f2937"
-          lineWidth={2}
-        />
-      </group>
-    );
-  }
-};
-
-// L形块专用投影视图
-const LShapeProjection: React.FC<{ params: GeometryParams; plane: 'V' | 'H' | 'W' | 'R' }> = ({ params, plane }) => {
-  const { width, height, depth } = params;
-  const w = width / 2;
-  const h = height / 2;
-  const d = depth / 2;
-  const thick = Math.min(width, height) * 0.4;
-  const OFFSET = 0.05;
-
-  // 创建虚线
-  const createDashedLine = (start: [number, number, number], end: [number, number, number]) => {
-    const geometry = new THREE.BufferGeometry().setFromPoints([
-      new THREE.Vector3(...start),
-      new THREE.Vector3(...end)
-    ]);
-    const line = new THREE.Line(
-      geometry,
-      new THREE.LineDashedMaterial({ color: '#1f2937', dashSize: 0.12, gapSize: 0.08 })
-    );
-    line.computeLineDistances();
-    return line;
-  };
-
-  if (plane === 'V') {
-    // 主视图：看到L形轮廓
-    return (
-      <group position={[0, 0, OFFSET]}>
-        <Line
-          points={[
-            [-w, -h, 0], [w, -h, 0], [w, -h + thick, 0],
-            [-w + thick, -h + thick, 0], [-w + thick, h, 0],
-            [-w, h, 0], [-w, -h, 0]
-          ]}
-          color="#1f2937"
-          lineWidth={2}
-        />
-      </group>
-    );
-  } else if (plane === 'H') {
-    // 俯视图：看到矩形，内部L形边缘用虚线
-    // 注意：父级已有旋转变换，在 XY 平面绘制
-    return (
-      <group position={[0, 0, OFFSET]}>
-        {/* 外轮廓 */}
-        <Line
-          points={[[-w, -d, 0], [w, -d, 0], [w, d, 0], [-w, d, 0], [-w, -d, 0]]}
-          color="#1f2937"
-          lineWidth={2}
-        />
-        {/* L形内角边 - 虚线（不可见） */}
+  return (
+    <group position={[0, 0, offset]}>
+      {visible.length > 0 && (
+        <Line points={visible} segments color="#1f2937" lineWidth={2} />
+      )}
+      {hidden.length > 0 && (
         <Line
-          points={[[-w + thick, -d, 0], [-w + thick, d, 0]]}
+          points={hidden}
+          segments
           color="#1f2937"
           lineWidth={1.5}
           dashed
           dashSize={0.15}
           gapSize={0.1}
         />
-      </group>
-    );
-  } else {
-    // 左视图/右视图：看到矩形
-    // 注意：父级已有旋转变换，在 XY 平面绘制
-    return (
-      <group position={[0, 0, OFFSET]}>
+      )}
+      {center.length > 0 && (
         <Line
-          points={[[-d, -h, 0], [d, -h, 0], [d, h, 0], [-d, h, 0], [-d, -h, 0]]}
+          points={center}
+          segments
           color="#1f2937"
-          lineWidth={2}
-        />
-        {/* L形内角边 - 虚线 */}
-        <Line
-          points={[[-d, -h + thick, 0], [d, -h + thick, 0]]}
-          color="#1f2937"
-          lineWidth={1.5}
+          lineWidth={1}
           dashed
-          dashSize={0.15}
-          gapSize={0.1}
-        />
-      </group>
-    );
-  }
-};
-
-// 楔形块专用投影视图
-const WedgeProjection: React.FC<{ params: GeometryParams; plane: 'V' | 'H' | 'W' | 'R' }> = ({ params, plane }) => {
-  const { width, height, depth } = params;
-  const w = width / 2;
-  const h = height / 2;
-  const d = depth / 2;
-  const OFFSET = 0.05;
-
-  // 创建虚线
-  const createDashedLine = (start: [number, number, number], end: [number, number, number]) => {
-    const geometry = new THREE.BufferGeometry().setFromPoints([
-      new THREE.Vector3(...start),
-      new THREE.Vector3(...end)
-    ]);
-    const line = new THREE.Line(
-      geometry,
-      new THREE.LineDashedMaterial({ color: '#1f2937', dashSize: 0.12, gapSize: 0.08 })
-    );
-    line.computeLineDistances();
-    return line;
-  };
-
-  if (plane === 'V') {
-    // 主视图：看到三角形
-    return (
-      <group position={[0, 0, OFFSET]}>
-        <Line
-          points={[[-w, -h, 0], [w, -h, 0], [w, h, 0], [-w, -h, 0]]}
-          color="#1f2937"
-          lineWidth={2}
-        />
-      </group>
-    );
-  } else if (plane === 'H') {
-    // 俯视图：看到矩形
-    // 注意：父级已有旋转变换，在 XY 平面绘制
-    return (
-      <group position={[0, 0, OFFSET]}>
-        {/* 外轮廓 */}
-        <Line
-          points={[[-w, -d, 0], [w, -d, 0], [w, d, 0], [-w, d, 0], [-w, -d, 0]]}
-          color="#1f2937"
-          lineWidth={2}
-        />
-      </group>
-    );
-  } else {
-    // 左视图/右视图：看到矩形（楔形体沿Z轴挤出，侧面是矩形）
-    // 注意：父级已有旋转变换，在 XY 平面绘制
-    return (
-      <group position={[0, 0, OFFSET]}>
-        <Line
-          points={[[-d, -h, 0], [d, -h, 0], [d, h, 0], [-d, h, 0], [-d, -h, 0]]}
-          color="#1f2937"
-          lineWidth={2}
-        />
-      </group>
-    );
-  }
-};
-
-// T形块专用投影视图
-const TShapeProjection: React.FC<{ params: GeometryParams; plane: 'V' | 'H' | 'W' | 'R' }> = ({ params, plane }) => {
-  const { width, height, depth } = params;
-  const w = width / 2;
-  const h = height / 2;
-  const d = depth / 2;
-  const stemW = width * 0.3;
-  const topH = height * 0.3;
-  const OFFSET = 0.05;
-
-  // 创建虚线
-  const createDashedLine = (start: [number, number, number], end: [number, number, number]) => {
-    const geometry = new THREE.BufferGeometry().setFromPoints([
-      new THREE.Vector3(...start),
-      new THREE.Vector3(...end)
-    ]);
-    const line = new THREE.Line(
-      geometry,
-      new THREE.LineDashedMaterial({ color: '#1f2937', dashSize: 0.12, gapSize: 0.08 })
-    );
-    line.computeLineDistances();
-    return line;
-  };
-
-  if (plane === 'V') {
-    // 主视图：看到T形轮廓
-    return (
-      <group position={[0, 0, OFFSET]}>
-        <Line
-          points={[
-            [-stemW/2, -h, 0], [stemW/2, -h, 0], [stemW/2, h - topH, 0],
-            [w, h - topH, 0], [w, h, 0], [-w, h, 0],
-            [-w, h - topH, 0], [-stemW/2, h - topH, 0], [-stemW/2, -h, 0]
-          ]}
-          color="#1f2937"
-          lineWidth={2}
-        />
-      </group>
-    );
-  } else if (plane === 'H') {
-    // 俯视图：看到矩形
-    // 注意：父级已有旋转变换，在 XY 平面绘制
-    return (
-      <group position={[0, 0, OFFSET]}>
-        {/* 外轮廓 */}
-        <Line
-          points={[[-w, -d, 0], [w, -d, 0], [w, d, 0], [-w, d, 0], [-w, -d, 0]]}
-          color="#1f2937"
-          lineWidth={2}
-        />
-      </group>
-    );
-  } else {
-    // 左视图/右视图：看到矩形（茎部侧面）
-    // 注意：父级已有旋转变换，在 XY 平面绘制
-    return (
-      <group position={[0, 0, OFFSET]}>
-        {/* 茎部 */}
-        <Line
-          points={[[-d, -h, 0], [d, -h, 0], [d, h - topH, 0], [-d, h - topH, 0], [-d, -h, 0]]}
-          color="#1f2937"
-          lineWidth={2}
+          dashSize={0.3}
+          gapSize={0.08}
         />
-        {/* 顶部横条 */}
-        <Line
-          points={[[-d, h - topH, 0], [-d, h, 0], [d, h, 0], [d, h - topH, 0]]}
-          color="#1f2937"
-          lineWidth={2}
-        />
-      </group>
-    );
-  }
+      )}
+    </group>
+  );
 };
 
-// 十字形块专用投影视图
-const CrossShapeProjection: React.FC<{ params: GeometryParams; plane: 'V' | 'H' | 'W' | 'R' }> = ({ params, plane }) => {
-  const { width, height, depth } = params;
-  const w = width / 2;
-  const h = height / 2;
-  const d = depth / 2;
-  const armW = width * 0.3;
-  const armH = height * 0.3;
-  const OFFSET = 0.05;
+export const ProjectedView: React.FC<ProjectedViewProps> = ({ type, params, plane, geometry }) => {
+  const { width, height, depth, intersection } = params;
+  const axes = useMemo(() => getRevolutionAxes(type, params), [type, width, height, depth, intersection]);
 
-  // 创建虚线
-  const createDashedLine = (start: [number, number, number], end: [number, number, number]) => {
-    const geometry = new THREE.BufferGeometry().setFromPoints([
-      new THREE.Vector3(...start),
-      new THREE.Vector3(...end)
-    ]);
-    const line = new THREE.Line(
-      geometry,
-      new THREE.LineDashedMaterial({ color: '#1f2937', dashSize: 0.12, gapSize: 0.08 })
-    );
-    line.computeLineDistances();
-    return line;
-  };
+  // 通用消隐投影：特征棱线 + 曲面轮廓线，做遮挡测试后分为实线与虚线
+  const lines = useMemo(() => computeProjectedLines(geometry, plane, { axes }), [geometry, plane, axes]);
 
-  if (plane === 'V') {
-    // 主视图：看到十字形轮廓
-    return (
-      <group position={[0, 0, OFFSET]}>
-        <Line
-          points={[
-            [-armW/2, -h, 0], [armW/2, -h, 0], [armW/2, -armH/2, 0],
-            [w, -armH/2, 0], [w, armH/2, 0], [armW/2, armH/2, 0],
-            [armW/2, h, 0], [-armW/2, h, 0], [-armW/2, armH/2, 0],
-            [-w, armH/2, 0], [-w, -armH/2, 0], [-armW/2, -armH/2, 0],
-            [-armW/2, -h, 0]
-          ]}
-          color="#1f2937"
-          lineWidth={2}
-        />
-      </group>
-    );
-  } else if (plane === 'H') {
-    // 俯视图：看到矩形
-    // 注意：父级已有旋转变换，在 XY 平面绘制
-    return (
-      <group position={[0, 0, OFFSET]}>
-        {/* 外轮廓 */}
-        <Line
-          points={[[-w, -d, 0], [w, -d, 0], [w, d, 0], [-w, d, 0], [-w, -d, 0]]}
-          color="#1f2937"
-          lineWidth={2}
-        />
-      </group>
-    );
-  } else {
-    // 左视图/右视图
-    // 注意：父级已有旋转变换，在 XY 平面绘制
-    return (
-      <group position={[0, 0, OFFSET]}>
-        {/* 外轮廓 */}
-        <Line
-          points={[[-d, -h, 0], [d, -h, 0], [d, h, 0], [-d, h, 0], [-d, -h, 0]]}
-          color="#1f2937"
-          lineWidth={2}
-        />
-        {/* 十字形内角边 - 虚线 */}
-        <Line
-          points={[[-d, -armH/2, 0], [d, -armH/2, 0]]}
-          color="#1f2937"
-          lineWidth={1.5}
-          dashed
-          dashSize={0.15}
-          gapSize={0.1}
-        />
-        <Line
-          points={[[-d, armH/2, 0], [d, armH/2, 0]]}
-          color="#1f2937"
-          lineWidth={1.5}
-          dashed
-          dashSize={0.15}
-          gapSize={0.1}
-        />
-      </group>
-    );
-  }
+  return <ProjectionLines lines={lines} />;
 };
 
-// 阶梯块专用投影视图
-const SteppedBlockProjection: React.FC<{ params: GeometryParams; plane: 'V' | 'H' | 'W' | 'R' }> = ({ params, plane }) => {
-  const { width, height, depth } = params;
-  const w = width / 2;
-  const h = height / 2;
-  const d = depth / 2;
-  const step = height / 3;
-  const OFFSET = 0.05;
-
-  // 创建虚线
-  const createDashedLine = (start: [number, number, number], end: [number, number, number]) => {
-    const geometry = new THREE.BufferGeometry().setFromPoints([
-      new THREE.Vector3(...start),
-      new THREE.Vector3(...end)
-    ]);
-    const line = new THREE.Line(
-      geometry,
-      new THREE.LineDashedMaterial({ color: '#1f2937', dashSize: 0.12, gapSize: 0.08 })
-    );
-    line.computeLineDistances();
-    return line;
-  };
+// 特征点不全是立体顶点的几何体：回转体的特征点是转向轮廓点，
+// 自定义模型、相贯回转体与绘制的立体取包围盒角点
+const NON_VERTEX_FEATURE_TYPES = new Set<GeometryType>([
+  GeometryType.CYLINDER, GeometryType.CONE, GeometryType.SPHERE, GeometryType.TORUS,
+  GeometryType.HOLLOW_CYLINDER, GeometryType.CUT_CYLINDER,
+  GeometryType.INTERSECTING_SOLIDS, GeometryType.CUSTOM, GeometryType.DRAW,
+]);
 
-  if (plane === 'V') {
-    // 主视图：看到阶梯形轮廓
-    return (
-      <group position={[0, 0, OFFSET]}>
-        <Line
-          points={[
-            [-w, -h, 0], [w, -h, 0], [w, -h + step, 0],
-            [w * 0.5, -h + step, 0], [w * 0.5, -h + step * 2, 0],
-            [0, -h + step * 2, 0], [0, h, 0],
-            [-w, h, 0], [-w, -h, 0]
-          ]}
-          color="#1f2937"
-          lineWidth={2}
-        />
-      </group>
-    );
-  } else if (plane === 'H') {
-    // 俯视图：看到矩形
-    // 注意：父级已有旋转变换，在 XY 平面绘制
-    return (
-      <group position={[0, 0, OFFSET]}>
-        {/* 外轮廓 */}
-        <Line
-          points={[[-w, -d, 0], [w, -d, 0], [w, d, 0], [-w, d, 0], [-w, -d, 0]]}
-          color="#1f2937"
-          lineWidth={2}
-        />
-      </group>
-    );
-  } else {
-    // 左视图/右视图：看到矩形
-    // 注意：父级已有旋转变换，在 XY 平面绘制
-    return (
-      <group position={[0, 0, OFFSET]}>
-        <Line
-          points={[[-d, -h, 0], [d, -h, 0], [d, h, 0], [-d, h, 0], [-d, -h, 0]]}
-          color="#1f2937"
-          lineWidth={2}
-        />
-        {/* 阶梯内部边 - 虚线 */}
-        <Line
-          points={[[-d, -h + step, 0], [d, -h + step, 0]]}
-          color="#1f2937"
-          lineWidth={1.5}
-          dashed
-          dashSize={0.15}
-          gapSize={0.1}
-        />
-        <Line
-          points={[[-d, -h + step * 2, 0], [d, -h + step * 2, 0]]}
-          color="#1f2937"
-          lineWidth={1.5}
-          dashed
-          dashSize={0.15}
-          gapSize={0.1}
-        />
-      </group>
-    );
-  }
-};
+// --- Projector Rays ---
+/**
+ * 几何体的特征点（投射线的起点）
+ * 平面立体取顶点，回转体取轮廓素线与底圆的端点；自定义模型与相贯回转体取包围盒角点
+ * @param geometryType 几何体类型
+ * @param params 几何参数
+ * @param geometry 实际几何体（自定义模型用）
+ */
+export function getFeaturePoints(geometryType: GeometryType, params: GeometryParams, geometry?: THREE.BufferGeometry): [number, number, number][] {
+    const { width, height, depth, cutSize } = params;
+    const w = width / 2;
+    const h = height / 2;
 
-// 圆柱体专用投影视图
-const CylinderProjection: React.FC<{ params: GeometryParams; plane: 'V' | 'H' | 'W' | 'R' }> = ({ params, plane }) => {
-  const { width, height } = params;
-  const r = width / 2;
-  const h = height / 2;
-  const OFFSET = 0.05;
+    let points: [number, number, number][] = [
+        [w, h, depth/2], [w, h, -depth/2], [w, -h, depth/2], [w, -h, -depth/2],
+        [-w, h, depth/2], [-w, h, -depth/2], [-w, -h, depth/2], [-w, -h, -depth/2]
+    ];
 
-  // 创建圆形路径点
-  const createCirclePoints = (radius: number, segments: number = 64): THREE.Vector3[] => {
-    const points: THREE.Vector3[] = [];
-    for (let i = 0; i <= segments; i++) {
-      const angle = (i / segments) * Math.PI * 2;
-      points.push(new THREE.Vector3(Math.cos(angle) * radius, Math.sin(angle) * radius, 0));
+    if (geometryType === GeometryType.CUT_BLOCK) {
+        const safeCut = Math.min(cutSize, Math.min(width, height) - 0.05);
+        points = [
+            [-w, h, depth/2], [-w, h, -depth/2],
+            [-w, -h, depth/2], [-w, -h, -depth/2],
+            [w, -h, depth/2], [w, -h, -depth/2],
+            [w, h - safeCut, depth/2], [w, h - safeCut, -depth/2],
+            [w - safeCut, h, depth/2], [w - safeCut, h, -depth/2]
+        ];
+    } else if (geometryType === GeometryType.CONE) {
+        const r = width / 2;
+        points = [
+            [0, h, 0],
+            [r, -h, 0], [-r, -h, 0],
+            [0, -h, r], [0, -h, -r]
+        ];
+    } else if (geometryType === GeometryType.CYLINDER) {
+        const r = width / 2;
+        points = [
+            [r, h, 0], [-r, h, 0], [0, h, r], [0, h, -r],
+            [r, -h, 0], [-r, -h, 0], [0, -h, r], [0, -h, -r]
+        ];
+    } else if (geometryType === GeometryType.HEX_PRISM) {
+        // 六棱柱的6个顶点（上下两个面）
+        // Three.js CylinderGeometry 的起始角度有 90度偏移 (Math.PI/2)
+        const r = width / 2;
+        const hexPoints: [number, number, number][] = [];
+        for (let i = 0; i < 6; i++) {
+            const angle = (i * Math.PI) / 3 + Math.PI / 6; // 60度间隔，起始偏移30度
+            const x = r * Math.cos(angle);
+            const z = r * Math.sin(angle);
+            hexPoints.push([x, h, z]);  // 上面
+            hexPoints.push([x, -h, z]); // 下面
+        }
+        points = hexPoints;
+    } else if (geometryType === GeometryType.L_SHAPE) {
+        const thick = Math.min(width, height) * 0.4;
+        points = [
+            [-w, -h, depth/2], [-w, -h, -depth/2],
+            [w, -h, depth/2], [w, -h, -depth/2],
+            [w, -h + thick, depth/2], [w, -h + thick, -depth/2],
+            [-w + thick, -h + thick, depth/2], [-w + thick, -h + thick, -depth/2],
+            [-w + thick, h, depth/2], [-w + thick, h, -depth/2],
+            [-w, h, depth/2], [-w, h, -depth/2],
+        ];
+    } else if (geometryType === GeometryType.SPHERE) {
+        const r = width / 2;
+        points = [
+            [r, 0, 0], [-r, 0, 0],
+            [0, r, 0], [0, -r, 0],
+            [0, 0, r], [0, 0, -r]
+        ];
+    } else if (geometryType === GeometryType.PYRAMID) {
+        const r = width / 2;
+        points = [
+            [0, h, 0], // 顶点
+            [r, -h, 0], [-r, -h, 0],
+            [0, -h, r], [0, -h, -r]
+        ];
+    } else if (geometryType === GeometryType.TORUS) {
+        // TorusGeometry 默认在 XY 平面，环绕 Z 轴
+        const R = width / 2.5; // 主半径
+        const r = width / 6;   // 管半径
+        points = [
+            // X轴方向的外圈和内圈点
+            [R + r, 0, 0], [R - r, 0, 0],
+            [-(R + r), 0, 0], [-(R - r), 0, 0],
+            // Y轴方向的外圈和内圈点
+            [0, R + r, 0], [0, R - r, 0],
+            [0, -(R + r), 0], [0, -(R - r), 0],
+            // 管截面的上下点
+            [R, 0, r], [R, 0, -r],
+            [-R, 0, r], [-R, 0, -r],
+            [0, R, r], [0, R, -r],
+            [0, -R, r], [0, -R, -r]
+        ];
+    } else if (geometryType === GeometryType.WEDGE) {
+        points = [
+            [-w, -h, depth/2], [-w, -h, -depth/2],
+            [w, -h, depth/2], [w, -h, -depth/2],
+            [w, h, depth/2], [w, h, -depth/2]
+        ];
+    } else if (geometryType === GeometryType.T_SHAPE) {
+        const stemW = width * 0.3;
+        const topH = height * 0.3;
+        points = [
+            [-stemW/2, -h, depth/2], [-stemW/2, -h, -depth/2],
+            [stemW/2, -h, depth/2], [stemW/2, -h, -depth/2],
+            [stemW/2, h - topH, depth/2], [stemW/2, h - topH, -depth/2],
+            [w, h - topH, depth/2], [w, h - topH, -depth/2],
+            [w, h, depth/2], [w, h, -depth/2],
+            [-w, h, depth/2], [-w, h, -depth/2],
+            [-w, h - topH, depth/2], [-w, h - topH, -depth/2],
+            [-stemW/2, h - topH, depth/2], [-stemW/2, h - topH, -depth/2]
+        ];
+    } else if (geometryType === GeometryType.CROSS_SHAPE) {
+        const armW = width * 0.3;
+        const armH = height * 0.3;
+        points = [
+            [-armW/2, -h, depth/2], [-armW/2, -h, -depth/2],
+            [armW/2, -h, depth/2], [armW/2, -h, -depth/2],
+            [armW/2, h, depth/2], [armW/2, h, -depth/2],
+            [-armW/2, h, depth/2], [-armW/2, h, -depth/2],
+            [w, -armH/2, depth/2], [w, -armH/2, -depth/2],
+            [w, armH/2, depth/2], [w, armH/2, -depth/2],
+            [-w, -armH/2, depth/2], [-w, -armH/2, -depth/2],
+            [-w, armH/2, depth/2], [-w, armH/2, -depth/2]
+        ];
+    } else if (geometryType === GeometryType.HOLLOW_CYLINDER) {
+        // 几何体居中，Y 从 -h/2 到 h/2
+        const outerR = width / 2;
+        const innerR = width / 4;
+        const hh = height / 2;
+        points = [
+            // 顶面外圈 (Y = h/2)
+            [outerR, hh, 0], [-outerR, hh, 0], [0, hh, outerR], [0, hh, -outerR],
+            // 底面外圈 (Y = -h/2)
+            [outerR, -hh, 0], [-outerR, -hh, 0], [0, -hh, outerR], [0, -hh, -outerR],
+            // 顶面内圈
+            [innerR, hh, 0], [-innerR, hh, 0], [0, hh, innerR], [0, hh, -innerR],
+            // 底面内圈
+            [innerR, -hh, 0], [-innerR, -hh, 0], [0, -hh, innerR], [0, -hh, -innerR]
+        ];
+    } else if (geometryType === GeometryType.STEPPED_BLOCK) {
+        const step = height / 3;
+        points = [
+            [-w, -h, depth/2], [-w, -h, -depth/2],
+            [w, -h, depth/2], [w, -h, -depth/2],
+            [w, -h + step, depth/2], [w, -h + step, -depth/2],
+            [w * 0.5, -h + step, depth/2], [w * 0.5, -h + step, -depth/2],
+            [w * 0.5, -h + step * 2, depth/2], [w * 0.5, -h + step * 2, -depth/2],
+            [0, -h + step * 2, depth/2], [0, -h + step * 2, -depth/2],
+            [0, h, depth/2], [0, h, -depth/2],
+            [-w, h, depth/2], [-w, h, -depth/2]
+        ];
+    } else if (geometryType === GeometryType.CUT_CYLINDER) {
+        const r = width / 2;
+        points = [
+            [r, h, 0], [-r, h, 0], [0, h, r], [0, h, -r],
+            [r, -h, 0], [-r, -h, 0], [0, -h, r], [0, -h, -r]
+        ];
+    } else if (geometryType === GeometryType.SLOT_BLOCK) {
+        const slotW = width * 0.3;
+        const slotD = height * 0.4;
+        points = [
+            [-w, -h, depth/2], [-w, -h, -depth/2],
+            [w, -h, depth/2], [w, -h, -depth/2],
+            [w, h, depth/2], [w, h, -depth/2],
+            [slotW/2, h, depth/2], [slotW/2, h, -depth/2],
+            [slotW/2, h - slotD, depth/2], [slotW/2, h - slotD, -depth/2],
+            [-slotW/2, h - slotD, depth/2], [-slotW/2, h - slotD, -depth/2],
+            [-slotW/2, h, depth/2], [-slotW/2, h, -depth/2],
+            [-w, h, depth/2], [-w, h, -depth/2]
+        ];
+    } else if (geometryType === GeometryType.INTERSECTING_PRISMS) {
+        // 两个正交相贯的三棱柱 - 与几何体定义保持一致
+        const prismRadius = Math.min(width, height) * 0.4;
+        const prismLength = depth * 1.8;
+        const halfLen = prismLength / 2;
+        const r = prismRadius;
+        const topY = r;           // 三角形顶点Y
+        const botY = -r * 0.5;    // 三角形底边Y
+        const triW = r * 0.866;   // 三角形半宽
+        
+        points = [
+            // 第一个三棱柱（沿X轴）的关键点
+            [halfLen, topY, 0], [-halfLen, topY, 0],           // 顶棱两端
+            [halfLen, botY, -triW], [-halfLen, botY, -triW],   // 后底棱两端
+            [halfLen, botY, triW], [-halfLen, botY, triW],     // 前底棱两端
+            // 第二个三棱柱（沿Z轴）的关键点
+            [0, topY, halfLen], [0, topY, -halfLen],           // 顶棱两端
+            [-triW, botY, halfLen], [-triW, botY, -halfLen],   // 左底棱两端
+            [triW, botY, halfLen], [triW, botY, -halfLen],     // 右底棱两端
+        ];
+    } else if ((geometryType === GeometryType.CUSTOM || geometryType === GeometryType.INTERSECTING_SOLIDS) && geometry) {
+        // 自定义模型与相贯回转体没有逐一列出的特征点，取包围盒的8个角点
+        geometry.computeBoundingBox();
+        const { min, max } = geometry.boundingBox!;
+        points = [
+            [max.x, max.y, max.z], [max.x, max.y, min.z], [max.x, min.y, max.z], [max.x, min.y, min.z],
+            [min.x, max.y, max.z], [min.x, max.y, min.z], [min.x, min.y, max.z], [min.x, min.y, min.z]
+        ];
     }
-    return points;
-  };
-
-  // 创建虚线
-  const createDashedLine = (start: [number, number, number], end: [number, number, number]) => {
-    const geometry = new THREE.BufferGeometry().setFromPoints([
-      new THREE.Vector3(...start),
-      new THREE.Vector3(...end)
-    ]);
-    const line = new THREE.Line(
-      geometry,
-      new THREE.LineDashedMaterial({ color: '#1f2937', dashSize: 0.12, gapSize: 0.08 })
-    );
-    line.computeLineDistances();
-    return line;
-  };
-
-  if (plane === 'V') {
-    // 主视图：看到矩形
-    return (
-      <group position={[0, 0, OFFSET]}>
-        <Line
-          points={[[-r, -h, 0], [r, -h, 0], [r, h, 0], [-r, h, 0], [-r, -h, 0]]}
-          color="#1f2937"
-          lineWidth={2}
-        />
-        {/* 轴线 - 虚线 */}
-        <primitive object={createDashedLine([0, -h, 0], [0, h, 0])} />
-      </group>
-    );
-  } else if (plane === 'H') {
-    // 俯视图：看到圆形
-    // 注意：父级已有旋转变换，在 XY 平面绘制
-    return (
-      <group position={[0, 0, OFFSET]}>
-        <Line points={createCirclePoints(r)} color="#1f2937" lineWidth={2} />
-      </group>
-    );
-  } else {
-    // 左视图/右视图：看到矩形
-    // 注意：父级已有旋转变换，在 XY 平面绘制
-    return (
-      <group position={[0, 0, OFFSET]}>
-        <Line
-          points={[[-r, -h, 0], [r, -h, 0], [r, h, 0], [-r, h, 0], [-r, -h, 0]]}
-          color="#1f2937"
-          lineWidth={2}
-        />
-        {/* 轴线 - 虚线 */}
-        <Line
-          points={[[0, -h, 0], [0, h, 0]]}
-          color="#1f2937"
-          lineWidth={1.5}
-          dashed
-          dashSize={0.15}
-          gapSize={0.1}
-        />
-      </group>
-    );
-  }
-};
-
-// 圆锥体专用投影视图
-const ConeProjection: React.FC<{ params: GeometryParams; plane: 'V' | 'H' | 'W' | 'R' }> = ({ params, plane }) => {
-  const { width, height } = params;
-  const r = width / 2;
-  const h = height / 2;
-  const OFFSET = 0.05;
 
-  // 创建圆形路径点
-  const createCirclePoints = (radius: number, segments: number = 64): THREE.Vector3[] => {
-    const points: THREE.Vector3[] = [];
-    for (let i = 0; i <= segments; i++) {
-      const angle = (i / segments) * Math.PI * 2;
-      points.push(new THREE.Vector3(Math.cos(angle) * radius, Math.sin(angle) * radius, 0));
-    }
     return points;
-  };
-
-  // 创建虚线
-  const createDashedLine = (start: [number, number, number], end: [number, number, number]) => {
-    const geometry = new THREE.BufferGeometry().setFromPoints([
-      new THREE.Vector3(...start),
-      new THREE.Vector3(...end)
-    ]);
-    const line = new THREE.Line(
-      geometry,
-      new THREE.LineDashedMaterial({ color: '#1f2937', dashSize: 0.12, gapSize: 0.08 })
-    );
-    line.computeLineDistances();
-    return line;
-  };
-
-  if (plane === 'V') {
-    // 主视图：看到三角形
-    return (
-      <group position={[0, 0, OFFSET]}>
-        <Line
-          points={[[-r, -h, 0], [r, -h, 0], [0, h, 0], [-r, -h, 0]]}
-          color="#1f2937"
-          lineWidth={2}
-        />
-        {/* 轴线 - 虚线 */}
-        <primitive object={createDashedLine([0, -h, 0], [0, h, 0])} />
-      </group>
-    );
-  } else if (plane === 'H') {
-    // 俯视图：看到圆形
-    // 注意：父级已有旋转变换，在 XY 平面绘制
-    return (
-      <group position={[0, 0, OFFSET]}>
-        <Line points={createCirclePoints(r)} color="#1f2937" lineWidth={2} />
-        {/* 圆心点 */}
-        <mesh position={[0, 0, 0]}>
-          <circleGeometry args={[0.05, 16]} />
-          <meshBasicMaterial color="#1f2937" />
-        </mesh>
-      </group>
-    );
-  } else {
-    // 左视图/右视图：看到三角形
-    // 注意：父级已有旋转变换，在 XY 平面绘制
-    return (
-      <group position={[0, 0, OFFSET]}>
-        <Line
-          points={[[-r, -h, 0], [r, -h, 0], [0, h, 0], [-r, -h, 0]]}
-          color="#1f2937"
-          lineWidth={2}
-        />
-        {/* 轴线 - 虚线 */}
-        <Line
-          points={[[0, -h, 0], [0, h, 0]]}
-          color="#1f2937"
-          lineWidth={1.5}
-          dashed
-          dashSize={0.15}
-          gapSize={0.1}
-        />
-      </group>
-    );
-  }
-};
-
-// 四棱锥专用投影视图
-const PyramidProjection: React.FC<{ params: GeometryParams; plane: 'V' | 'H' | 'W' | 'R' }> = ({ params, plane }) => {
-  const { width, height } = params;
-  const r = width / 2;
-  const h = height / 2;
-  const OFFSET = 0.05;
-
-  // 创建虚线
-  const createDashedLine = (start: [number, number, number], end: [number, number, number]) => {
-    const geometry = new THREE.BufferGeometry().setFromPoints([
-      new THREE.Vector3(...start),
-      new THREE.Vector3(...end)
-    ]);
-    const line = new THREE.Line(
-      geometry,
-      new THREE.LineDashedMaterial({ color: '#1f2937', dashSize: 0.12, gapSize: 0.08 })
-    );
-    line.computeLineDistances();
-    return line;
-  };
-
-  if (plane === 'V') {
-    // 主视图：看到三角形，后面的棱用虚线
-    return (
-      <group position={[0, 0, OFFSET]}>
-        {/* 可见轮廓 */}
-        <Line
-          points={[[-r, -h, 0], [r, -h, 0], [0, h, 0], [-r, -h, 0]]}
-          color="#1f2937"
-          lineWidth={2}
-        />
-        {/* 后面的底边 - 虚线 */}
-        <primitive object={createDashedLine([0, -h, 0], [0, h, 0])} />
-      </group>
-    );
-  } else if (plane === 'H') {
-    // 俯视图：看到正方形底面
-    // 注意：父级已有旋转变换，在 XY 平面绘制
-    return (
-      <group position={[0, 0, OFFSET]}>
-        {/* 底面正方形 */}
-        <Line
-          points={[[r, 0, 0], [0, r, 0], [-r, 0, 0], [0, -r, 0], [r, 0, 0]]}
-          color="#1f2937"
-          lineWidth={2}
-        />
-        {/* 从顶点到各角的棱 - 虚线（被遮挡） */}
-        <Line points={[[0, 0, 0], [r, 0, 0]]} color="#1f2937" lineWidth={1.5} dashed dashSize={0.15} gapSize={0.1} />
-        <Line points={[[0, 0, 0], [-r, 0, 0]]} color="#1f2937" lineWidth={1.5} dashed dashSize={0.15} gapSize={0.1} />
-        <Line points={[[0, 0, 0], [0, r, 0]]} color="#1f2937" lineWidth={1.5} dashed dashSize={0.15} gapSize={0.1} />
-        <Line points={[[0, 0, 0], [0, -r, 0]]} color="#1f2937" lineWidth={1.5} dashed dashSize={0.15} gapSize={0.1} />
-      </group>
-    );
-  } else {
-    // 左视图/右视图：看到三角形
-    // 注意：父级已有旋转变换，在 XY 平面绘制
-    return (
-      <group position={[0, 0, OFFSET]}>
-        <Line
-          points={[[-r, -h, 0], [r, -h, 0], [0, h, 0], [-r, -h, 0]]}
-          color="#1f2937"
-          lineWidth={2}
-        />
-        {/* 轴线 - 虚线 */}
-        <Line
-          points={[[0, -h, 0], [0, h, 0]]}
-          color="#1f2937"
-          lineWidth={1.5}
-          dashed
-          dashSize={0.15}
-          gapSize={0.1}
-        />
-      </group>
-    );
-  }
-};
-
-// 六棱柱专用投影视图
-const HexPrismProjection: React.FC<{ params: GeometryParams; plane: 'V' | 'H' | 'W' | 'R' }> = ({ params, plane }) => {
-  const { width, height } = params;
-  const r = width / 2;
-  const h = height / 2;
-  const OFFSET = 0.05;
-
-  // 六边形顶点（与 CylinderGeometry 的 6 边形一致）
-  const hexPoints: [number, number][] = [];
-  for (let i = 0; i < 6; i++) {
-    const angle = (i * Math.PI) / 3 + Math.PI / 6;
-    hexPoints.push([r * Math.cos(angle), r * Math.sin(angle)]);
-  }
-
-  // 创建虚线
-  const createDashedLine = (start: [number, number, number], end: [number, number, number]) => {
-    const geometry = new THREE.BufferGeometry().setFromPoints([
-      new THREE.Vector3(...start),
-      new THREE.Vector3(...end)
-    ]);
-    const line = new THREE.Line(
-      geometry,
-      new THREE.LineDashedMaterial({ color: '#1f2937', dashSize: 0.12, gapSize: 0.08 })
-    );
-    line.computeLineDistances();
-    return line;
-  };
-
-  if (plane === 'V') {
-    // 主视图：看到六边形的正面投影（矩形+两个斜边）
-    const leftX = hexPoints[2][0];  // 最左边的点
-    const rightX = hexPoints[5][0]; // 最右边的点
-    const topLeftX = hexPoints[1][0];
-    const topRightX = hexPoints[0][0];
-    
-    return (
-      <group position={[0, 0, OFFSET]}>
-        {/* 可见轮廓 */}
-        <Line
-          points={[
-            [leftX, -h, 0], [rightX, -h, 0], [rightX, h, 0], [leftX, h, 0], [leftX, -h, 0]
-          ]}
-          color="#1f2937"
-          lineWidth={2}
-        />
-        {/* 后面的棱 - 虚线 */}
-        <primitive object={createDashedLine([topLeftX, -h, 0], [topLeftX, h, 0])} />
-        <primitive object={createDashedLine([topRightX, -h, 0], [topRightX, h, 0])} />
-      </group>
-    );
-  } else if (plane === 'H') {
-    // 俯视图：看到六边形
-    // 注意：父级已有旋转变换，在 XY 平面绘制
-    return (
-      <group position={[0, 0, OFFSET]}>
-        <Line
-          points={[
-            ...hexPoints.map(p => [p[0], p[1], 0] as [number, number, number]),
-            [hexPoints[0][0], hexPoints[0][1], 0]
-          ]}
-          color="#1f2937"
-          lineWidth={2}
-        />
-      </group>
-    );
-  } else {
-    // 左视图/右视图
-    // 注意：父级已有旋转变换，在 XY 平面绘制
-    const frontZ = hexPoints[4][1];  // 最前面的点
-    const backZ = hexPoints[1][1];   // 最后面的点
-    const midZ1 = hexPoints[3][1];
-    const midZ2 = hexPoints[0][1];
-    
-    return (
-      <group position={[0, 0, OFFSET]}>
-        {/* 可见轮廓 */}
-        <Line
-          points={[
-            [backZ, -h, 0], [frontZ, -h, 0], [frontZ, h, 0], [backZ, h, 0], [backZ, -h, 0]
-          ]}
-          color="#1f2937"
-          lineWidth={2}
-        />
-        {/* 中间的棱 - 虚线 */}
-        <Line
-          points={[[midZ1, -h, 0], [midZ1, h, 0]]}
-          color="#1f2937"
-          lineWidth={1.5}
-          dashed
-          dashSize={0.15}
-          gapSize={0.1}
-        />
-        <Line
-          points={[[midZ2, -h, 0], [midZ2, h, 0]]}
-          color="#1f2937"
-          lineWidth={1.5}
-          dashed
-          dashSize={0.15}
-          gapSize={0.1}
-        />
-      </group>
-    );
-  }
-};
-
-// 相贯三棱柱专用投影视图
-const IntersectingPrismsProjection: React.FC<{ params: GeometryParams; plane: 'V' | 'H' | 'W' | 'R' }> = ({ params, plane }) => {
-  const { width, height, depth } = params;
-  const prismRadius = Math.min(width, height) * 0.4;
-  const prismLength = depth * 1.8;
-  const halfLen = prismLength / 2;
-  const r = prismRadius;
-  const topY = r;           // 三角形顶点Y
-  const botY = -r * 0.5;    // 三角形底边Y
-  const triW = r * 0.866;   // 三角形半宽
-  const OFFSET = 0.05;
-
-  // 创建虚线
-  const createDashedLine = (start: [number, number, number], end: [number, number, number]) => {
-    const geometry = new THREE.BufferGeometry().setFromPoints([
-      new THREE.Vector3(...start),
-      new THREE.Vector3(...end)
-    ]);
-    const line = new THREE.Line(
-      geometry,
-      new THREE.LineDashedMaterial({ color: '#1f2937', dashSize: 0.12, gapSize: 0.08 })
-    );
-    line.computeLineDistances();
-    return line;
-  };
-
-  if (plane === 'V') {
-    // 主视图（从前往后看，XY平面）：看到沿X轴的三棱柱侧面 + 沿Z轴的三棱柱端面
-    return (
-      <group position={[0, 0, OFFSET]}>
-        {/* 沿X轴三棱柱的侧面轮廓（矩形） */}
-        <Line
-          points={[
-            [-halfLen, topY, 0], [halfLen, topY, 0],
-            [halfLen, botY, 0], [-halfLen, botY, 0], [-halfLen, topY, 0]
-          ]}
-          color="#1f2937"
-          lineWidth={2}
-        />
-        {/* 沿Z轴三棱柱的端面（三角形）- 相贯线 */}
-        <Line
-          points={[
-            [0, topY, 0], [-triW, botY, 0], [triW, botY, 0], [0, topY, 0]
-          ]}
-          color="#1f2937"
-          lineWidth={2}
-        />
-      </group>
-    );
-  } else if (plane === 'H') {
-    // 俯视图（从上往下看）：看到两个三棱柱的十字形
-    // 注意：父级已有旋转变换，在 XY 平面绘制
-    return (
-      <group position={[0, 0, OFFSET]}>
-        {/* 沿X轴三棱柱的俯视（矩形）- 左边部分 */}
-        <Line points={[[-halfLen, -triW, 0], [-triW, -triW, 0]]} color="#1f2937" lineWidth={2} />
-        <Line points={[[-halfLen, triW, 0], [-triW, triW, 0]]} color="#1f2937" lineWidth={2} />
-        <Line points={[[-halfLen, -triW, 0], [-halfLen, triW, 0]]} color="#1f2937" lineWidth={2} />
-        {/* 右边部分 */}
-        <Line points={[[triW, -triW, 0], [halfLen, -triW, 0]]} color="#1f2937" lineWidth={2} />
-        <Line points={[[triW, triW, 0], [halfLen, triW, 0]]} color="#1f2937" lineWidth={2} />
-        <Line points={[[halfLen, -triW, 0], [halfLen, triW, 0]]} color="#1f2937" lineWidth={2} />
-        
-        {/* 沿Z轴三棱柱的俯视（矩形）- 上边部分 */}
-        <Line points={[[-triW, -halfLen, 0], [-triW, -triW, 0]]} color="#1f2937" lineWidth={2} />
-        <Line points={[[triW, -halfLen, 0], [triW, -triW, 0]]} color="#1f2937" lineWidth={2} />
-        <Line points={[[-triW, -halfLen, 0], [triW, -halfLen, 0]]} color="#1f2937" lineWidth={2} />
-        {/* 下边部分 */}
-        <Line points={[[-triW, triW, 0], [-triW, halfLen, 0]]} color="#1f2937" lineWidth={2} />
-        <Line points={[[triW, triW, 0], [triW, halfLen, 0]]} color="#1f2937" lineWidth={2} />
-        <Line points={[[-triW, halfLen, 0], [triW, halfLen, 0]]} color="#1f2937" lineWidth={2} />
-        
-        {/* 相贯线 - 中心正方形 */}
-        <Line points={[[-triW, -triW, 0], [-triW, triW, 0]]} color="#1f2937" lineWidth={2.5} />
-        <Line points={[[triW, -triW, 0], [triW, triW, 0]]} color="#1f2937" lineWidth={2.5} />
-        <Line points={[[-triW, -triW, 0], [triW, -triW, 0]]} color="#1f2937" lineWidth={2.5} />
-        <Line points={[[-triW, triW, 0], [triW, triW, 0]]} color="#1f2937" lineWidth={2.5} />
-      </group>
-    );
-  } else {
-    // 左视图/右视图（从侧面看）
-    // 注意：父级已有旋转变换，在 XY 平面绘制
-    return (
-      <group position={[0, 0, OFFSET]}>
-        {/* 沿Z轴三棱柱的侧面轮廓（矩形） */}
-        <Line
-          points={[
-            [-halfLen, topY, 0], [halfLen, topY, 0],
-            [halfLen, botY, 0], [-halfLen, botY, 0], [-halfLen, topY, 0]
-          ]}
-          color="#1f2937"
-          lineWidth={2}
-        />
-        {/* 沿X轴三棱柱的端面（三角形）- 相贯线 */}
-        <Line
-          points={[
-            [0, topY, 0], [-triW, botY, 0], [triW, botY, 0], [0, topY, 0]
-          ]}
-          color="#1f2937"
-          lineWidth={2}
-        />
-      </group>
-    );
-  }
-};
-
-export const ProjectedView: React.FC<ProjectedViewProps> = ({ type, params, plane }) => {
-  const geometry = useGeometryFactory(type, params);
-  
-  // 立方体使用专门的投影视图
-  if (type === GeometryType.CUBE) {
-    return <CubeProjection params={params} plane={plane} />;
-  }
-  
-  // 切角块使用专门的投影视图
-  if (type === GeometryType.CUT_BLOCK) {
-    return <CutBlockProjection params={params} plane={plane} />;
-  }
-  
-  // L形块使用专门的投影视图
-  if (type === GeometryType.L_SHAPE) {
-    return <LShapeProjection params={params} plane={plane} />;
-  }
-  
-  // 楔形块使用专门的投影视图
-  if (type === GeometryType.WEDGE) {
-    return <WedgeProjection params={params} plane={plane} />;
-  }
-  
-  // T形块使用专门的投影视图
-  if (type === GeometryType.T_SHAPE) {
-    return <TShapeProjection params={params} plane={plane} />;
-  }
-  
-  // 十字形块使用专门的投影视图
-  if (type === GeometryType.CROSS_SHAPE) {
-    return <CrossShapeProjection params={params} plane={plane} />;
-  }
-  
-  // 阶梯块使用专门的投影视图
-  if (type === GeometryType.STEPPED_BLOCK) {
-    return <SteppedBlockProjection params={params} plane={plane} />;
-  }
-  
-  // 圆柱体使用专门的投影视图
-  if (type === GeometryType.CYLINDER) {
-    return <CylinderProjection params={params} plane={plane} />;
-  }
-  
-  // 圆锥体使用专门的投影视图
-  if (type === GeometryType.CONE) {
-    return <ConeProjection params={params} plane={plane} />;
-  }
-  
-  // 四棱锥使用专门的投影视图
-  if (type === GeometryType.PYRAMID) {
-    return <PyramidProjection params={params} plane={plane} />;
-  }
-  
-  // 六棱柱使用专门的投影视图
-  if (type === GeometryType.HEX_PRISM) {
-    return <HexPrismProjection params={params} plane={plane} />;
-  }
-  
-  // 空心圆柱使用专门的投影视图
-  if (type === GeometryType.HOLLOW_CYLINDER) {
-    return <HollowCylinderProjection params={params} plane={plane} />;
-  }
-  
-  // 开槽块使用专门的投影视图
-  if (type === GeometryType.SLOT_BLOCK) {
-    return <SlotBlockProjection params={params} plane={plane} />;
-  }
-  
-  // 相贯三棱柱使用专门的投影视图
-  if (type === GeometryType.INTERSECTING_PRISMS) {
-    return <IntersectingPrismsProjection params={params} plane={plane} />;
-  }
-  
-  // 圆环体使用专门的投影视图
-  if (type === GeometryType.TORUS) {
-    return <TorusProjection params={params} plane={plane} />;
-  }
-  
-  // 球体使用专门的投影视图
-  if (type === GeometryType.SPHERE) {
-    return <SphereProjection params={params} plane={plane} />;
-  }
-  
-  // 默认：使用压扁方式（用于 CUBE 等简单几何体）
-  let scale: [number, number, number] = [1, 1, 1];
-  let position: [number, number, number] = [0, 0, 0];
-  const OFFSET = 0.05;
-
-  if (plane === 'V') {
-    scale = [1, 1, 0.001];
-    position = [0, 0, OFFSET]; 
-  } else if (plane === 'H') {
-    scale = [1, 0.001, 1];
-    position = [0, OFFSET, 0];
-  } else if (plane === 'W') {
-    scale = [0.001, 1, 1];
-    position = [-OFFSET, 0, 0]; 
-  } else if (plane === 'R') {
-    scale = [0.001, 1, 1];
-    position = [OFFSET, 0, 0]; 
-  }
+}
 
-  return (
-    <group position={position}>
-      <mesh scale={scale} geometry={geometry}>
-        <Edges threshold={15} color="#1f2937" lineWidth={2} />
-        <meshBasicMaterial color="#1f2937" transparent opacity={0.08} />
-      </mesh>
-    </group>
-  );
-};
+/**
+ * 立体的顶点（投影点标注 A、B、C…… 的对象）
+ * 平面立体的特征点都是顶点；圆锥只取锥顶，其余回转体与非参数化立体没有可标注的顶点
+ * @param geometryType 几何体类型
+ * @param params 几何参数
+ */
+export function getFeatureVertices(geometryType: GeometryType, params: GeometryParams): [number, number, number][] {
+    if (geometryType === GeometryType.CONE) return getFeaturePoints(geometryType, params).slice(0, 1);
+    return NON_VERTEX_FEATURE_TYPES.has(geometryType) ? [] : getFeaturePoints(geometryType, params);
+}
 
-// --- Projector Rays ---
 interface ProjectorRaysProps {
   params: GeometryParams;
   geometryType: GeometryType;
   explodeGap?: number; // 炸开间距
+  geometry?: THREE.BufferGeometry; // 实际几何体（自定义模型用包围盒角点作投射线）
+  planes: ViewPlaneDefinition[];   // 投影面定义
 }
 
-export const ProjectorRays: React.FC<ProjectorRaysProps> = ({ params, geometryType, explodeGap = 0 }) => {
-    const { width, height, depth, cutSize } = params;
-    const boxSize = 5;
-    const w = width / 2;
-    const h = height / 2;
-
-    const getInterestPoints = () => {
-        let points: [number, number, number][] = [
-            [w, h, depth/2], [w, h, -depth/2], [w, -h, depth/2], [w, -h, -depth/2],
-            [-w, h, depth/2], [-w, h, -depth/2], [-w, -h, depth/2], [-w, -h, -depth/2]
-        ];
-
-        if (geometryType === GeometryType.CUT_BLOCK) {
-            const safeCut = Math.min(cutSize, Math.min(width, height) - 0.05);
-            points = [
-                [-w, h, depth/2], [-w, h, -depth/2],
-                [-w, -h, depth/2], [-w, -h, -depth/2],
-                [w, -h, depth/2], [w, -h, -depth/2],
-                [w, h - safeCut, depth/2], [w, h - safeCut, -depth/2],
-                [w - safeCut, h, depth/2], [w - safeCut, h, -depth/2]
-            ];
-        } else if (geometryType === GeometryType.CONE) {
-            const r = width / 2;
-            points = [
-                [0, h, 0],
-                [r, -h, 0], [-r, -h, 0],
-                [0, -h, r], [0, -h, -r]
-            ];
-        } else if (geometryType === GeometryType.CYLINDER) {
-            const r = width / 2;
-            points = [
-                [r, h, 0], [-r, h, 0], [0, h, r], [0, h, -r],
-                [r, -h, 0], [-r, -h, 0], [0, -h, r], [0, -h, -r]
-            ];
-        } else if (geometryType === GeometryType.HEX_PRISM) {
-            // 六棱柱的6个顶点（上下两个面）
-            // Three.js CylinderGeometry 的起始角度有 90度偏移 (Math.PI/2)
-            const r = width / 2;
-            const hexPoints: [number, number, number][] = [];
-            for (let i = 0; i < 6; i++) {
-                const angle = (i * Math.PI) / 3 + Math.PI / 6; // 60度间隔，起始偏移30度
-                const x = r * Math.cos(angle);
-                const z = r * Math.sin(angle);
-                hexPoints.push([x, h, z]);  // 上面
-                hexPoints.push([x, -h, z]); // 下面
-            }
-            points = hexPoints;
-        } else if (geometryType === GeometryType.L_SHAPE) {
-            const thick = Math.min(width, height) * 0.4;
-            points = [
-                [-w, -h, depth/2], [-w, -h, -depth/2],
-                [w, -h, depth/2], [w, -h, -depth/2],
-                [w, -h + thick, depth/2], [w, -h + thick, -depth/2],
-                [-w + thick, -h + thick, depth/2], [-w + thick, -h + thick, -depth/2],
-                [-w + thick, h, depth/2], [-w + thick, h, -depth/2],
-                [-w, h, depth/2], [-w, h, -depth/2],
-            ];
-        } else if (geometryType === GeometryType.SPHERE) {
-            const r = width / 2;
-            points = [
-                [r, 0, 0], [-r, 0, 0],
-                [0, r, 0], [0, -r, 0],
-                [0, 0, r], [0, 0, -r]
-            ];
-        } else if (geometryType === GeometryType.PYRAMID) {
-            const r = width / 2;
-            points = [
-                [0, h, 0], // 顶点
-                [r, -h, 0], [-r, -h, 0],
-                [0, -h, r], [0, -h, -r]
-            ];
-        } else if (geometryType === GeometryType.TORUS) {
-            // TorusGeometry 默认在 XY 平面，环绕 Z 轴
-            const R = width / 2.5; // 主半径
-            const r = width / 6;   // 管半径
-            points = [
-                // X轴方向的外圈和内圈点
-                [R + r, 0, 0], [R - r, 0, 0],
-                [-(R + r), 0, 0], [-(R - r), 0, 0],
-                // Y轴方向的外圈和内圈点
-                [0, R + r, 0], [0, R - r, 0],
-                [0, -(R + r), 0], [0, -(R - r), 0],
-                // 管截面的上下点
-                [R, 0, r], [R, 0, -r],
-                [-R, 0, r], [-R, 0, -r],
-                [0, R, r], [0, R, -r],
-                [0, -R, r], [0, -R, -r]
-            ];
-        } else if (geometryType === GeometryType.WEDGE) {
-            points = [
-                [-w, -h, depth/2], [-w, -h, -depth/2],
-                [w, -h, depth/2], [w, -h, -depth/2],
-                [w, h, depth/2], [w, h, -depth/2]
-            ];
-        } else if (geometryType === GeometryType.T_SHAPE) {
-            const stemW = width * 0.3;
-            const topH = height * 0.3;
-            points = [
-                [-stemW/2, -h, depth/2], [-stemW/2, -h, -depth/2],
-                [stemW/2, -h, depth/2], [stemW/2, -h, -depth/2],
-                [stemW/2, h - topH, depth/2], [stemW/2, h - topH, -depth/2],
-                [w, h - topH, depth/2], [w, h - topH, -depth/2],
-                [w, h, depth/2], [w, h, -depth/2],
-                [-w, h, depth/2], [-w, h, -depth/2],
-                [-w, h - topH, depth/2], [-w, h - topH, -depth/2],
-                [-stemW/2, h - topH, depth/2], [-stemW/2, h - topH, -depth/2]
-            ];
-        } else if (geometryType === GeometryType.CROSS_SHAPE) {
-            const armW = width * 0.3;
-            const armH = height * 0.3;
-            points = [
-                [-armW/2, -h, depth/2], [-armW/2, -h, -depth/2],
-                [armW/2, -h, depth/2], [armW/2, -h, -depth/2],
-                [armW/2, h, depth/2], [armW/2, h, -depth/2],
-                [-armW/2, h, depth/2], [-armW/2, h, -depth/2],
-                [w, -armH/2, depth/2], [w, -armH/2, -depth/2],
-                [w, armH/2, depth/2], [w, armH/2, -depth/2],
-                [-w, -armH/2, depth/2], [-w, -armH/2, -depth/2],
-                [-w, armH/2, depth/2], [-w, armH/2, -depth/2]
-            ];
-        } else if (geometryType === GeometryType.HOLLOW_CYLINDER) {
-            // 几何体居中，Y 从 -h/2 到 h/2
-            const outerR = width / 2;
-            const innerR = width / 4;
-            const hh = height / 2;
-            points = [
-                // 顶面外圈 (Y = h/2)
-                [outerR, hh, 0], [-outerR, hh, 0], [0, hh, outerR], [0, hh, -outerR],
-                // 底面外圈 (Y = -h/2)
-                [outerR, -hh, 0], [-outerR, -hh, 0], [0, -hh, outerR], [0, -hh, -outerR],
-                // 顶面内圈
-                [innerR, hh, 0], [-innerR, hh, 0], [0, hh, innerR], [0, hh, -innerR],
-                // 底面内圈
-                [innerR, -hh, 0], [-innerR, -hh, 0], [0, -hh, innerR], [0, -hh, -innerR]
-            ];
-        } else if (geometryType === GeometryType.STEPPED_BLOCK) {
-            const step = height / 3;
-            points = [
-                [-w, -h, depth/2], [-w, -h, -depth/2],
-                [w, -h, depth/2], [w, -h, -depth/2],
-                [w, -h + step, depth/2], [w, -h + step, -depth/2],
-                [w * 0.5, -h + step, depth/2], [w * 0.5, -h + step, -depth/2],
-                [w * 0.5, -h + step * 2, depth/2], [w * 0.5, -h + step * 2, -depth/2],
-                [0, -h + step * 2, depth/2], [0, -h + step * 2, -depth/2],
-                [0, h, depth/2], [0, h, -depth/2],
-                [-w, h, depth/2], [-w, h, -depth/2]
-            ];
-        } else if (geometryType === GeometryType.CUT_CYLINDER) {
-            const r = width / 2;
-            points = [
-                [r, h, 0], [-r, h, 0], [0, h, r], [0, h, -r],
-                [r, -h, 0], [-r, -h, 0], [0, -h, r], [0, -h, -r]
-            ];
-        } else if (geometryType === GeometryType.SLOT_BLOCK) {
-            const slotW = width * 0.3;
-            const slotD = height * 0.4;
-            points = [
-                [-w, -h, depth/2], [-w, -h, -depth/2],
-                [w, -h, depth/2], [w, -h, -depth/2],
-                [w, h, depth/2], [w, h, -depth/2],
-                [slotW/2, h, depth/2], [slotW/2, h, -depth/2],
-                [slotW/2, h - slotD, depth/2], [slotW/2, h - slotD, -depth/2],
-                [-slotW/2, h - slotD, depth/2], [-slotW/2, h - slotD, -depth/2],
-                [-slotW/2, h, depth/2], [-slotW/2, h, -depth/2],
-                [-w, h, depth/2], [-w, h, -depth/2]
-            ];
-        } else if (geometryType === GeometryType.INTERSECTING_PRISMS) {
-            // 两个正交相贯的三棱柱 - 与几何体定义保持一致
-            const prismRadius = Math.min(width, height) * 0.4;
-            const prismLength = depth * 1.8;
-            const halfLen = prismLength / 2;
-            const r = prismRadius;
-            const topY = r;           // 三角形顶点Y
-            const botY = -r * 0.5;    // 三角形底边Y
-            const triW = r * 0.866;   // 三角形半宽
-            
-            points = [
-                // 第一个三棱柱（沿X轴）的关键点
-                [halfLen, topY, 0], [-halfLen, topY, 0],           // 顶棱两端
-                [halfLen, botY, -triW], [-halfLen, botY, -triW],   // 后底棱两端
-                [halfLen, botY, triW], [-halfLen, botY, triW],     // 前底棱两端
-                // 第二个三棱柱（沿Z轴）的关键点
-                [0, topY, halfLen], [0, topY, -halfLen],           // 顶棱两端
-                [-triW, botY, halfLen], [-triW, botY, -halfLen],   // 左底棱两端
-                [triW, botY, halfLen], [triW, botY, -halfLen],     // 右底棱两端
-            ];
-        }
-
-        return points;
-    }
-
-    const corners = getInterestPoints();
+export const ProjectorRays: React.FC<ProjectorRaysProps> = ({ params, geometryType, explodeGap = 0, geometry, planes }) => {
+    const corners = getFeaturePoints(geometryType, params, geometry);
 
     const createProjector = (start: [number, number, number], end: [number, number, number], key: string) => {
         const dist = Math.sqrt(
@@ -1942,30 +699,17 @@ export const ProjectorRays: React.FC<ProjectorRaysProps> = ({ params, geometryTy
 
     const lines: React.ReactElement[] = [];
     
-    // 计算各投影面的实际位置（考虑炸开间距）
-    const vPlaneZ = -boxSize/2 - explodeGap;  // V面向后炸开
-    const hPlaneY = -boxSize/2 - explodeGap;  // H面向下炸开
-    const wPlaneX = boxSize/2 + explodeGap;   // W面向右炸开
-    const rPlaneX = -boxSize/2 - explodeGap;  // R面向左炸开
-    
-    corners.forEach((corner, i) => {
-        const [x, y, z] = corner;
-        
-        // V面 (主视图 - 后墙)
-        const vLine = createProjector([x, y, z], [x, y, vPlaneZ], `v-${i}`);
-        if(vLine) lines.push(vLine);
-
-        // H面 (俯视图 - 底面)
-        const hLine = createProjector([x, y, z], [x, hPlaneY, z], `h-${i}`);
-        if(hLine) lines.push(hLine);
-
-        // W面 (左视图 - 投影到右侧墙)
-        const wLine = createProjector([x, y, z], [wPlaneX, y, z], `w-${i}`);
-        if(wLine) lines.push(wLine);
-
-        // R面 (右视图 - 投影到左侧墙)
-        const rLine = createProjector([x, y, z], [rPlaneX, y, z], `r-${i}`);
-        if(rLine) lines.push(rLine);
+    // 沿各投影面的投射方向投到炸开后的平面上
+    planes.forEach(plane => {
+        const dir = plane.basis.direction;
+        const planePoint = plane.center.clone().addScaledVector(plane.outward, explodeGap);
+
+        corners.forEach((corner, i) => {
+            const start = new THREE.Vector3(...corner);
+            const end = start.clone().addScaledVector(dir, planePoint.clone().sub(start).dot(dir));
+            const line = createProjector(corner, end.toArray() as [number, number, number], `${plane.id}-${i}`);
+            if (line) lines.push(line);
+        });
     });
 
     return <group>{lines}</group>;
@@ -1975,11 +719,13 @@ export const ProjectorRays: React.FC<ProjectorRaysProps> = ({ params, geometryTy
 export const PlaneLabel: React.FC<{ 
   text: string, 
   position: [number, number, number], 
+  rotation?: number,  // 绕平面法向的旋转（弧度）
   color?: string 
-}> = ({ text, position, color = '#1f2937' }) => {
+}> = ({ text, position, rotation = 0, color = '#1f2937' }) => {
   return (
     <Text
       position={position}
+      rotation={[0, 0, rotation]}
       fontSize={0.35}
       color={color}
       anchorX="center"
@@ -1992,3 +738,58 @@ export const PlaneLabel: React.FC<{
     </Text>
   );
 };
+
+// --- Projection Symbol ---
+// 投影体系识别符号（GB/T 14692）：圆台的主视图（梯形）与侧视图（两同心圆）
+// 第一角画法中梯形小端背向同心圆，第三角画法中梯形小端朝向同心圆
+export const ProjectionSymbol: React.FC<{
+  system: ProjectionSystem;
+  position: [number, number, number];
+  size?: number;
+}> = ({ system, position, size = 0.6 }) => {
+  const { trapezoid, bigCircle, smallCircle, centerLines } = useMemo(() => {
+    const R = size / 2;        // 大端半径
+    const r = size / 4;        // 小端半径
+    const length = size;       // 圆台长度
+    const trapCx = -size * 0.75;
+    const circleCx = size * 0.75;
+    // 第一角：左小右大；第三角：左大右小
+    const [leftR, rightR] = system === 'first-angle' ? [r, R] : [R, r];
+    const x0 = trapCx - length / 2;
+    const x1 = trapCx + length / 2;
+
+    const circle = (radius: number) => Array.from({ length: 49 }, (_, i) => {
+      const a = (i / 48) * Math.PI * 2;
+      return [circleCx + radius * Math.cos(a), radius * Math.sin(a), 0] as [number, number, number];
+    });
+
+    const ext = size * 0.15;
+    return {
+      trapezoid: [[x0, -leftR, 0], [x1, -rightR, 0], [x1, rightR, 0], [x0, leftR, 0], [x0, -leftR, 0]] as [number, number, number][],
+      bigCircle: circle(R),
+      smallCircle: circle(r),
+      centerLines: [
+        [x0 - ext, 0, 0], [circleCx + R + ext, 0, 0],
+        [circleCx, -R - ext, 0], [circleCx, R + ext, 0],
+      ] as [number, number, number][],
+    };
+  }, [system, size]);
+
+  return (
+    <group position={position}>
+      <Line points={trapezoid} color="#e2e8f0" lineWidth={2} />
+      <Line points={bigCircle} color="#e2e8f0" lineWidth={2} />
+      <Line points={smallCircle} color="#e2e8f0" lineWidth={2} />
+      <Line points={centerLines} segments color="#e2e8f0" lineWidth={1} dashed dashSize={0.12} gapSize={0.04} />
+      <Text
+        position={[0, -size * 0.9, 0]}
+        fontSize={0.22}
+        color="#e2e8f0"
+        anchorX="center"
+        anchorY="middle"
+      >
+        {system === 'first-angle' ? '第一角画法' : '第三角画法'}
+      </Text>
+    </group>
+  );
+};
@@ -0,0 +1,259 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import * as THREE from 'three';
+import { ThreeEvent } from '@react-three/fiber';
+import { Billboard, PivotControls, Text } from '@react-three/drei';
+import { buildMeshTopology } from '../utils/meshTopology';
+import { createPlaneFromPoints } from '../utils/sectionPlane';
+import { snapSectionPlane, snapToFeaturePoint } from '../utils/sectionSnap';
+import { formatProjectionLabel } from '../utils/primitives';
+import { ViewTarget, projectPointToView } from '../utils/viewProjection';
+
+// 吸附顶点与吸附提示的颜色
+const SNAP_COLOR = '#f97316';
+// 三点定平面的点的颜色
+const DEFINING_POINT_COLOR = '#db2777';
+const DEFINING_POINT_NAMES = ['A', 'B', 'C'];
+
+/**
+ * 截平面拖动手柄
+ * 沿法向（局部 z 轴）平移截平面，绕三根轴自由旋转；
+ * 拖动时吸附到投影面平行面、投影面垂直面或通过选定顶点的位置
+ */
+interface SectionPlaneGizmoProps {
+  position: [number, number, number];
+  rotation: [number, number, number];
+  snapVertices?: THREE.Vector3[];
+  onChange: (position: [number, number, number], rotation: [number, number, number]) => void;
+}
+
+export const SectionPlaneGizmo: React.FC<SectionPlaneGizmoProps> = ({ position, rotation, snapVertices = [], onChange }) => {
+  const [snapLabels, setSnapLabels] = useState<string[]>([]);
+
+  const matrix = useMemo(() => {
+    const quaternion = new THREE.Quaternion().setFromEuler(new THREE.Euler(...rotation));
+    return new THREE.Matrix4().compose(new THREE.Vector3(...position), quaternion, new THREE.Vector3(1, 1, 1));
+  }, [position, rotation]);
+
+  const handleDrag = (_local: THREE.Matrix4, _deltaLocal: THREE.Matrix4, world: THREE.Matrix4) => {
+    const dragPosition = new THREE.Vector3();
+    const quaternion = new THREE.Quaternion();
+    world.decompose(dragPosition, quaternion, new THREE.Vector3());
+
+    // 只保留沿法向的平移（面内平移不改变截平面）
+    const normal = new THREE.Vector3(0, 0, 1).applyQuaternion(quaternion);
+    const start = new THREE.Vector3(...position);
+    const moved = start.clone().addScaledVector(normal, dragPosition.clone().sub(start).dot(normal));
+
+    const snap = snapSectionPlane(moved, normal, snapVertices);
+    // 吸附后的方向：把法向转到吸附法向，保持面内朝向
+    quaternion.premultiply(new THREE.Quaternion().setFromUnitVectors(normal, snap.normal));
+    const euler = new THREE.Euler().setFromQuaternion(quaternion);
+
+    setSnapLabels(snap.labels);
+    onChange(snap.position.toArray() as [number, number, number], [euler.x, euler.y, euler.z]);
+  };
+
+  return (
+    <group>
+      <PivotControls
+        matrix={matrix}
+        autoTransform={false}
+        translationLimits={[[0, 0], [0, 0], undefined]}
+        disableSliders
+        disableScaling
+        depthTest={false}
+        scale={1.2}
+        lineWidth={2.5}
+        onDrag={handleDrag}
+        onDragEnd={() => setSnapLabels([])}
+      />
+      {snapLabels.length > 0 && (
+        <Text
+          position={[position[0], position[1] + 1.6, position[2]]}
+          fontSize={0.25}
+          color={SNAP_COLOR}
+          anchorX="center"
+          anchorY="middle"
+          outlineWidth={0.03}
+          outlineColor="white"
+        >
+          {snapLabels.join(' · ')}
+        </Text>
+      )}
+      {snapVertices.map((v, idx) => (
+        <mesh key={idx} position={v}>
+          <sphereGeometry args={[0.07, 12, 12]} />
+          <meshBasicMaterial color={SNAP_COLOR} />
+        </mesh>
+      ))}
+    </group>
+  );
+};
+
+/**
+ * 吸附顶点拾取层
+ * 点击几何体选中离点击位置最近的顶点，再次点击同一顶点取消选中
+ */
+interface SnapVertexPickerProps {
+  geometry: THREE.BufferGeometry;
+  vertices: THREE.Vector3[];
+  onChange: (vertices: THREE.Vector3[]) => void;
+}
+
+export const SnapVertexPicker: React.FC<SnapVertexPickerProps> = ({ geometry, vertices, onChange }) => {
+  const topology = useMemo(() => buildMeshTopology(geometry), [geometry]);
+
+  // 卸载时恢复鼠标样式
+  useEffect(() => () => { document.body.style.cursor = 'auto'; }, []);
+
+  const handleClick = (event: ThreeEvent<MouseEvent>) => {
+    event.stopPropagation();
+    let nearest: THREE.Vector3 | null = null;
+    let nearestDistance = Infinity;
+    topology.vertices.forEach(v => {
+      const distance = v.distanceToSquared(event.point);
+      if (distance < nearestDistance) {
+        nearestDistance = distance;
+        nearest = v;
+      }
+    });
+    if (!nearest) return;
+    const picked = nearest as THREE.Vector3;
+    const exists = vertices.some(v => v.distanceToSquared(picked) < 1e-10);
+    onChange(exists ? vertices.filter(v => v.distanceToSquared(picked) >= 1e-10) : [...vertices, picked.clone()]);
+  };
+
+  return (
+    <mesh
+      geometry={geometry}
+      onClick={handleClick}
+      onPointerOver={() => { document.body.style.cursor = 'crosshair'; }}
+      onPointerOut={() => { document.body.style.cursor = 'auto'; }}
+    >
+      <meshBasicMaterial transparent opacity={0} depthWrite={false} />
+    </mesh>
+  );
+};
+
+/**
+ * 三点定平面拾取层
+ * 依次点击立体上的顶点或棱线上的点作为 A、B、C，点击已选的点取消选择；
+ * 选满三点后再点击则重新开始。三点共线时不接受第三点
+ */
+interface ThreePointPickerProps {
+  geometry: THREE.BufferGeometry;
+  points: THREE.Vector3[];
+  onChange: (points: THREE.Vector3[]) => void;
+}
+
+export const ThreePointPicker: React.FC<ThreePointPickerProps> = ({ geometry, points, onChange }) => {
+  const topology = useMemo(() => buildMeshTopology(geometry), [geometry]);
+  const [collinear, setCollinear] = useState(false);
+
+  // 卸载时恢复鼠标样式
+  useEffect(() => () => { document.body.style.cursor = 'auto'; }, []);
+
+  const handleClick = (event: ThreeEvent<MouseEvent>) => {
+    event.stopPropagation();
+    const snap = snapToFeaturePoint(topology, event.point);
+    if (!snap) return;
+    setCollinear(false);
+    const picked = snap.point;
+    if (points.some(p => p.distanceToSquared(picked) < 1e-10)) {
+      onChange(points.filter(p => p.distanceToSquared(picked) >= 1e-10));
+      return;
+    }
+    if (points.length >= 3) {
+      onChange([picked]);
+      return;
+    }
+    if (points.length === 2 && !createPlaneFromPoints(points[0], points[1], picked)) {
+      setCollinear(true);
+      return;
+    }
+    onChange([...points, picked]);
+  };
+
+  return (
+    <group>
+      <mesh
+        geometry={geometry}
+        onClick={handleClick}
+        onPointerOver={() => { document.body.style.cursor = 'crosshair'; }}
+        onPointerOut={() => { document.body.style.cursor = 'auto'; }}
+      >
+        <meshBasicMaterial transparent opacity={0} depthWrite={false} />
+      </mesh>
+      {collinear && points.length > 0 && (
+        <Billboard position={[points[0].x, points[0].y + 0.6, points[0].z]}>
+          <Text fontSize={0.22} color={DEFINING_POINT_COLOR} anchorX="center" anchorY="middle" outlineWidth={0.03} outlineColor="white">
+            三点共线，不能确定平面
+          </Text>
+        </Billboard>
+      )}
+    </group>
+  );
+};
+
+/**
+ * 三点定平面的点（3D）
+ * 以大写字母 A、B、C 标注
+ */
+export const DefiningPoints: React.FC<{ points: THREE.Vector3[] }> = ({ points }) => (
+  <group>
+    {points.map((p, idx) => (
+      <group key={idx} position={p}>
+        <mesh renderOrder={12}>
+          <sphereGeometry args={[0.06, 12, 12]} />
+          <meshBasicMaterial color={DEFINING_POINT_COLOR} depthTest={false} />
+        </mesh>
+        <Billboard position={[0.15, 0.15, 0]}>
+          <Text fontSize={0.26} color={DEFINING_POINT_COLOR} anchorX="left" anchorY="bottom" outlineWidth={0.03} outlineColor="white" renderOrder={12}>
+            {DEFINING_POINT_NAMES[idx]}
+          </Text>
+        </Billboard>
+      </group>
+    ))}
+  </group>
+);
+
+/**
+ * 三点定平面的点在投影面上的投影
+ * 以小写字母标注，如 V 面上为 a′、b′、c′，H 面上为 a、b、c，W 面上为 a″、b″、c″
+ */
+interface DefiningPointsProjectionProps {
+  points: THREE.Vector3[];
+  plane: ViewTarget;
+  viewId: string;
+  labelRotation?: number;  // 标注绕平面法向的旋转，与投影面标签一致
+  offset?: number;
+}
+
+export const DefiningPointsProjection: React.FC<DefiningPointsProjectionProps> = ({ points, plane, viewId, labelRotation = 0, offset = 0.09 }) => {
+  const projected = useMemo(() => points.map(p => projectPointToView(p, plane)), [points, plane]);
+
+  return (
+    <group position={[0, 0, offset]}>
+      {projected.map(([u, v], idx) => (
+        <group key={idx} position={[u, v, 0]}>
+          <mesh>
+            <circleGeometry args={[0.05, 12]} />
+            <meshBasicMaterial color={DEFINING_POINT_COLOR} />
+          </mesh>
+          <Text
+            position={[0.1, 0.1, 0.01]}
+            rotation={[0, 0, labelRotation]}
+            fontSize={0.22}
+            color={DEFINING_POINT_COLOR}
+            anchorX="left"
+            anchorY="bottom"
+            outlineWidth={0.02}
+            outlineColor="white"
+          >
+            {formatProjectionLabel(DEFINING_POINT_NAMES[idx], viewId)}
+          </Text>
+        </group>
+      ))}
+    </group>
+  );
+};
@@ -1,65 +1,67 @@
-import React, { useRef, useState, useEffect, useMemo } from 'react';
+import React, { useRef, useEffect, useMemo } from 'react';
 import * as THREE from 'three';
-import { useFrame } from '@react-three/fiber';
-import { Line } from '@react-three/drei';
+import { Line, Text } from '@react-three/drei';
 import { 
-  calculateMeshSection, 
   SectionResult,
   SectionLoop,
-  projectSectionToView 
+  projectSectionToView,
+  createSectionPlaneParams
 } from '../utils/sectionPlane';
+import { createHatchFill2D, createSectionFill3D, createTriangleHatch3D, generateTriangleHatch, getLoopsArea } from '../utils/sectionHatch';
+import { CutawayCap } from '../utils/cutaway';
+import { SectionDimension, computeSectionTrueShape, formatMeasure } from '../utils/sectionView';
+import { PlaneLabel } from './SceneComponents';
+import { ViewTarget, projectPointToView, resolveViewBasis } from '../utils/viewProjection';
+import { HatchSettings } from '../types';
+
+// 断面填充与剖面线颜色
+const SECTION_FILL_COLOR = '#fecaca';
+const HATCH_COLOR = '#b91c1c';
+const DIMENSION_COLOR = '#1e293b';
+const CENTER_LINE_COLOR = '#64748b';
+const INTERSECTION_COLOR = '#0f172a';
 
 interface SectionPlaneProps {
-  geometry: THREE.BufferGeometry | null;
-  enabled: boolean;
+  sectionResult: SectionResult | null;  // 该截平面的截交线（多截平面组合截切时已裁剪）
   planePosition?: [number, number, number];
   planeRotation?: [number, number, number];
   planeSize?: number;
-  onSectionChange?: (result: SectionResult | null) => void;
+  color?: string;
+  active?: boolean;              // 当前编辑的截平面（平面显示更明显）
+  hatch?: HatchSettings | null;  // 断面剖面线设置，缺省时只画截交线
 }
 
 /**
  * 截平面组件
- * 显示一个可交互的截平面，并计算与几何体的截交线
+ * 显示截平面及其与几何体的截交线
  */
 export const SectionPlane: React.FC<SectionPlaneProps> = ({
-  geometry,
-  enabled,
+  sectionResult,
   planePosition = [0, 0, 0],
   planeRotation = [0, 0, 0],
   planeSize = 3,
-  onSectionChange
+  color = '#ef4444',
+  active = true,
+  hatch
 }) => {
   const planeRef = useRef<THREE.Mesh>(null);
-  const [sectionResult, setSectionResult] = useState<SectionResult | null>(null);
   
   // 计算平面的法向量和位置
-  const planeParams = useMemo(() => {
-    const euler = new THREE.Euler(planeRotation[0], planeRotation[1], planeRotation[2]);
-    const normal = new THREE.Vector3(0, 0, 1).applyEuler(euler);
-    const position = new THREE.Vector3(...planePosition);
-    return { normal, position };
-  }, [planePosition, planeRotation]);
-  
-  // 当几何体或平面参数变化时，重新计算截交线
-  useEffect(() => {
-    if (!enabled || !geometry) {
-      setSectionResult(null);
-      onSectionChange?.(null);
-      return;
-    }
-    
-    const result = calculateMeshSection(
-      geometry,
-      planeParams.position,
-      planeParams.normal
-    );
-    
-    setSectionResult(result);
-    onSectionChange?.(result);
-  }, [geometry, planeParams, enabled, onSectionChange]);
+  const planeParams = useMemo(
+    () => createSectionPlaneParams(planePosition, planeRotation),
+    [planePosition, planeRotation]
+  );
   
-  if (!enabled) return null;
+  // 断面填充（在截平面局部坐标中三角化并画剖面线）
+  const sectionFill = useMemo(() => {
+    if (!hatch || !sectionResult) return null;
+    const fill = createSectionFill3D(sectionResult.loops, planeParams.position, planeParams.normal, hatch);
+    if (fill.triangles.length === 0) return null;
+    return {
+      triangles: fill.triangles.map(p => [p.x, p.y, p.z] as [number, number, number]),
+      hatch: fill.hatch.flat().map(p => [p.x, p.y, p.z] as [number, number, number]),
+    };
+  }, [hatch, sectionResult, planeParams]);
   
   return (
     <group>
@@ -71,9 +73,9 @@ export const SectionPlane: React.FC<SectionPlaneProps> = ({
       >
         <planeGeometry args={[planeSize, planeSize]} />
         <meshBasicMaterial 
-          color="#ff6b6b" 
+          color={color} 
           transparent 
-          opacity={0.3} 
+          opacity={active ? 0.3 : 0.15} 
           side={THREE.DoubleSide}
           depthWrite={false}
         />
@@ -89,21 +91,89 @@ export const SectionPlane: React.FC<SectionPlaneProps> = ({
             [-planeSize/2, planeSize/2, 0],
             [-planeSize/2, -planeSize/2, 0]
           ]}
-          color="#ff6b6b"
-          lineWidth={2}
+          color={color}
+          lineWidth={active ? 2 : 1}
         />
       </group>
       
+      {/* 断面填充与剖面线 */}
+      {sectionFill && <SectionFill triangles={sectionFill.triangles} hatch={sectionFill.hatch} />}
+      
       {/* 截交线显示 - 支持多回路 */}
       {sectionResult && sectionResult.loops && sectionResult.loops.map((loop, idx) => (
-        loop.points.length >= 3 && (
-          <SectionLine key={idx} points={loop.points} closed={loop.isClosed} />
+        loop.points.length >= (loop.isClosed ? 3 : 2) && (
+          <SectionLine key={idx} points={loop.points} closed={loop.isClosed} color={color} />
         )
       ))}
     </group>
   );
 };
 
+/**
+ * 截平面之间的交线
+ * 3D 中画在各截平面之上；给定 plane 时投影到该投影面
+ */
+interface PlaneIntersectionLinesProps {
+  segments: [THREE.Vector3, THREE.Vector3][];
+  plane?: ViewTarget;
+  offset?: number;
+}
+
+export const PlaneIntersectionLines: React.FC<PlaneIntersectionLinesProps> = ({ segments, plane, offset = 0.07 }) => {
+  const points = useMemo(() => segments.flat().map(p => {
+    if (!plane) return [p.x, p.y, p.z] as [number, number, number];
+    const [u, v] = projectPointToView(p, plane);
+    return [u, v, 0] as [number, number, number];
+  }), [segments, plane]);
+  
+  if (points.length < 2) return null;
+  
+  return (
+    <group position={[0, 0, plane ? offset : 0]}>
+      <Line points={points} segments color={INTERSECTION_COLOR} lineWidth={plane ? 2.5 : 3.5} depthTest={!!plane} />
+    </group>
+  );
+};
+
+/**
+ * 断面填充组件
+ * 三角化的断面与剖面线，断面略向观察者偏移以免与截平面闪烁；
+ * 剖面线与断面共面，关闭深度测试并在断面之后绘制，免得被偏移后的断面挡住
+ */
+interface SectionFillProps {
+  triangles: [number, number, number][];  // 三角形顶点（每3个一组）
+  hatch: [number, number, number][];      // 剖面线端点（每2个一组）
+  opacity?: number;
+}
+
+const SectionFill: React.FC<SectionFillProps> = ({ triangles, hatch, opacity = 1 }) => {
+  const fillGeometry = useMemo(
+    () => new THREE.BufferGeometry().setAttribute('position', new THREE.Float32BufferAttribute(triangles.flat(), 3)),
+    [triangles]
+  );
+  
+  useEffect(() => () => fillGeometry.dispose(), [fillGeometry]);
+  
+  return (
+    <group>
+      <mesh geometry={fillGeometry}>
+        <meshBasicMaterial
+          color={SECTION_FILL_COLOR}
+          transparent={opacity < 1}
+          opacity={opacity}
+          side={THREE.DoubleSide}
+          polygonOffset
+          polygonOffsetFactor={-1}
+          polygonOffsetUnits={-1}
+        />
+      </mesh>
+      {hatch.length >= 2 && (
+        <Line points={hatch} segments color={HATCH_COLOR} lineWidth={1} depthTest={false} renderOrder={1} />
+      )}
+    </group>
+  );
+};
+
 /**
  * 截交线组件
  */
@@ -145,16 +215,18 @@ export const SectionLine: React.FC<SectionLineProps> = ({
  */
 interface SectionLine2DProps {
   sectionResult: SectionResult | null;
-  plane: 'V' | 'H' | 'W' | 'R';
+  plane: ViewTarget;
   offset?: number;
   color?: string;
+  hatch?: HatchSettings | null;  // 断面剖面线设置
 }
 
 export const SectionLine2D: React.FC<SectionLine2DProps> = ({
   sectionResult,
   plane,
   offset = 0.06,
-  color = '#ff0000'
+  color = '#ff0000',
+  hatch
 }) => {
   // 为每个回路生成2D投影点
   const loopLines = useMemo(() => {
@@ -163,7 +235,7 @@ export const SectionLine2D: React.FC<SectionLine2DProps> = ({
     }
     
     return sectionResult.loops.map(loop => {
-      if (loop.points.length < 3) return null;
+      if (loop.points.length < (loop.isClosed ? 3 : 2)) return null;
       
       const points2D = projectSectionToView(loop.points, plane);
       const pts = points2D.map(([x, y]) => [x, y, 0] as [number, number, number]);
@@ -176,10 +248,25 @@ export const SectionLine2D: React.FC<SectionLine2DProps> = ({
     }).filter(pts => pts !== null && pts.length >= 2);
   }, [sectionResult, plane]);
   
+  // 断面在投影面上的填充；截平面垂直于投影面时断面积聚为直线，不画剖面线
+  const sectionFill = useMemo(() => {
+    if (!hatch || !sectionResult) return null;
+    const loops2D = sectionResult.loops
+      .filter(loop => loop.isClosed && loop.points.length >= 3)
+      .map(loop => projectSectionToView(loop.points, plane));
+    if (getLoopsArea(loops2D) < 1e-4) return null;
+    const fill = createHatchFill2D(loops2D, hatch);
+    return {
+      triangles: fill.triangles.map(([x, y]) => [x, y, -0.005] as [number, number, number]),
+      hatch: fill.hatch.flat().map(([x, y]) => [x, y, 0] as [number, number, number]),
+    };
+  }, [hatch, sectionResult, plane]);
+  
   if (loopLines.length === 0) return null;
   
   return (
     <group position={[0, 0, offset]}>
+      {sectionFill && <SectionFill triangles={sectionFill.triangles} hatch={sectionFill.hatch} opacity={0.6} />}
       {loopLines.map((pts, idx) => (
         <Line
           key={idx}
@@ -192,6 +279,227 @@ export const SectionLine2D: React.FC<SectionLine2DProps> = ({
   );
 };
 
+/**
+ * 剖切断面（3D）
+ * 布尔运算得到的断面已是三角形，直接填充并按截平面上的同一起点画剖面线
+ */
+interface CutawayCapsProps {
+  caps: CutawayCap[];
+  origin: [number, number, number];  // 剖面线起算点（截平面中心）
+  hatch?: HatchSettings | null;
+}
+
+export const CutawayCaps: React.FC<CutawayCapsProps> = ({ caps, origin, hatch }) => {
+  const fills = useMemo(() => {
+    const start = new THREE.Vector3(...origin);
+    return caps.map(cap => ({
+      triangles: cap.triangles.map(p => [p.x, p.y, p.z] as [number, number, number]),
+      hatch: hatch
+        ? createTriangleHatch3D(cap.triangles, start, cap.normal, hatch).flat().map(p => [p.x, p.y, p.z] as [number, number, number])
+        : [],
+    }));
+  }, [caps, origin, hatch]);
+  
+  return (
+    <group>
+      {fills.map((fill, idx) => (
+        <SectionFill key={idx} triangles={fill.triangles} hatch={fill.hatch} />
+      ))}
+    </group>
+  );
+};
+
+/**
+ * 剖切断面的投影（剖视图中的断面）
+ * 只画朝向观察者的断面；与投射方向平行的断面积聚为直线，不画剖面线
+ */
+interface CutawayCapProjectionProps {
+  caps: CutawayCap[];
+  plane: ViewTarget;
+  hatch?: HatchSettings | null;
+  offset?: number;
+}
+
+export const CutawayCapProjection: React.FC<CutawayCapProjectionProps> = ({ caps, plane, hatch, offset = 0.04 }) => {
+  const fills = useMemo(() => {
+    const { direction } = resolveViewBasis(plane);
+    return caps
+      .filter(cap => cap.normal.dot(direction) < -1e-3)
+      .map(cap => {
+        const triangles = cap.triangles.map(p => projectPointToView(p, plane));
+        return {
+          triangles: triangles.map(([x, y]) => [x, y, -0.005] as [number, number, number]),
+          hatch: hatch ? generateTriangleHatch(triangles, hatch).flat().map(([x, y]) => [x, y, 0] as [number, number, number]) : [],
+        };
+      });
+  }, [caps, plane, hatch]);
+  
+  return (
+    <group position={[0, 0, offset]}>
+      {fills.map((fill, idx) => (
+        <SectionFill key={idx} triangles={fill.triangles} hatch={fill.hatch} opacity={0.85} />
+      ))}
+    </group>
+  );
+};
+
+/**
+ * 尺寸标注（尺寸界线、带箭头的尺寸线与尺寸数字）
+ */
+const DimensionLine: React.FC<{ dimension: SectionDimension }> = ({ dimension }) => {
+  const { points, textPosition, textRotation } = useMemo(() => {
+    const { start, end, offset } = dimension;
+    const length = Math.hypot(end[0] - start[0], end[1] - start[1]);
+    const dir = [(end[0] - start[0]) / length, (end[1] - start[1]) / length];
+    const offsetLength = Math.hypot(offset[0], offset[1]) || 1;
+    const side = [offset[0] / offsetLength, offset[1] / offsetLength];
+    const arrow = Math.min(0.12, length / 4);
+    const p = (x: number, y: number) => [x, y, 0] as [number, number, number];
+    const a = p(start[0] + offset[0], start[1] + offset[1]);
+    const b = p(end[0] + offset[0], end[1] + offset[1]);
+    // 箭头两翼：沿尺寸线退回 arrow、向两侧张开 arrow/3
+    const wing = (tip: [number, number, number], sign: number, flank: number) => p(
+      tip[0] - dir[0] * arrow * sign + side[0] * arrow / 3 * flank,
+      tip[1] - dir[1] * arrow * sign + side[1] * arrow / 3 * flank
+    );
+    const overshoot = 1 + 0.08 / offsetLength;
+    // 文字方向沿尺寸线，保持正立
+    let angle = Math.atan2(dir[1], dir[0]);
+    if (angle > Math.PI / 2 + 1e-6) angle -= Math.PI;
+    if (angle <= -Math.PI / 2 + 1e-6) angle += Math.PI;
+    return {
+      points: [
+        p(...start), p(start[0] + offset[0] * overshoot, start[1] + offset[1] * overshoot),
+        p(...end), p(end[0] + offset[0] * overshoot, end[1] + offset[1] * overshoot),
+        a, b,
+        a, wing(a, -1, 1), a, wing(a, -1, -1),
+        b, wing(b, 1, 1), b, wing(b, 1, -1),
+      ],
+      textPosition: p((a[0] + b[0]) / 2 + side[0] * 0.15, (a[1] + b[1]) / 2 + side[1] * 0.15),
+      textRotation: angle,
+    };
+  }, [dimension]);
+
+  return (
+    <group>
+      <Line points={points} segments color={DIMENSION_COLOR} lineWidth={1} />
+      <Text position={textPosition} rotation={[0, 0, textRotation]} fontSize={0.16} color={DIMENSION_COLOR} anchorX="center" anchorY="middle">
+        {dimension.label}
+      </Text>
+    </group>
+  );
+};
+
+/**
+ * 断面图（断面实形）
+ * 将截平面旋转到图面上显示断面实形，标注主轴方向尺寸与圆锥曲线参数
+ */
+interface SectionTrueShapeViewProps {
+  sectionResult: SectionResult;
+  planePosition: [number, number, number];
+  planeRotation: [number, number, number];
+  hatch?: HatchSettings | null;
+  position: [number, number, number];
+}
+
+export const SectionTrueShapeView: React.FC<SectionTrueShapeViewProps> = ({
+  sectionResult,
+  planePosition,
+  planeRotation,
+  hatch,
+  position
+}) => {
+  const PANEL_SIZE = 5;
+  const FIT_SIZE = 3.2;  // 断面外廓缩放到的最大尺寸（留出尺寸线与说明的位置）
+
+  const view = useMemo(() => {
+    const { position: planePoint, normal } = createSectionPlaneParams(planePosition, planeRotation);
+    const shape = computeSectionTrueShape(sectionResult, planePoint, normal);
+    if (!shape) return null;
+
+    // 以形心为原点缩放到面板内；尺寸数字仍为实际长度
+    const points = shape.loops.flatMap(loop => loop.points);
+    const radius = Math.max(...points.map(([x, y]) => Math.hypot(x - shape.center[0], y - shape.center[1])), 1e-6);
+    const scale = Math.min(1, FIT_SIZE / 2 / radius);
+    const fit = ([x, y]: [number, number]): [number, number] => [(x - shape.center[0]) * scale, (y - shape.center[1]) * scale];
+    const to3D = ([x, y]: [number, number]) => [x, y, 0] as [number, number, number];
+
+    const loops = shape.loops.map(loop => {
+      const pts = loop.points.map(p => to3D(fit(p)));
+      if (loop.isClosed) pts.push(pts[0]);
+      return pts;
+    });
+    const closed = shape.loops.filter(loop => loop.isClosed && loop.points.length >= 3).map(loop => loop.points.map(fit));
+    const fill = hatch && closed.length > 0 ? createHatchFill2D(closed, hatch) : null;
+    const centerLines = shape.axes.map(([ax, ay]) => {
+      const half = radius * scale + 0.2;
+      return [to3D([-ax * half, -ay * half]), to3D([ax * half, ay * half])];
+    });
+    const dimensions = shape.dimensions.map(d => ({
+      ...d,
+      start: fit(d.start),
+      end: fit(d.end),
+      offset: [d.offset[0] * scale, d.offset[1] * scale] as [number, number],
+    }));
+
+    return {
+      loops,
+      fill: fill && fill.triangles.length > 0 ? {
+        triangles: fill.triangles.map(([x, y]) => [x, y, -0.01] as [number, number, number]),
+        hatch: fill.hatch.flat().map(to3D),
+      } : null,
+      centerLines,
+      dimensions,
+      notes: scale < 1 ? [...shape.notes, `比例 1:${formatMeasure(1 / scale)}`] : shape.notes,
+    };
+  }, [sectionResult, planePosition, planeRotation, hatch]);
+
+  return (
+    <group position={position}>
+      {/* 背景面板 */}
+      <mesh position={[0, 0, -0.1]}>
+        <planeGeometry args={[PANEL_SIZE, PANEL_SIZE]} />
+        <meshBasicMaterial color="#fff7f7" transparent opacity={0.92} />
+      </mesh>
+      
+      {/* 边框 */}
+      <mesh position={[0, 0, -0.12]}>
+        <planeGeometry args={[PANEL_SIZE + 0.1, PANEL_SIZE + 0.1]} />
+        <meshBasicMaterial color="#ef4444" transparent opacity={0.5} />
+      </mesh>
+
+      {view && (
+        <group position={[0, 0.2, 0]}>
+          {view.fill && <SectionFill triangles={view.fill.triangles} hatch={view.fill.hatch} />}
+          {view.centerLines.map((pts, idx) => (
+            <Line key={`axis-${idx}`} points={pts} color={CENTER_LINE_COLOR} lineWidth={1} dashed dashSize={0.2} gapSize={0.06} />
+          ))}
+          {view.loops.map((pts, idx) => pts.length >= 2 && (
+            <Line key={`loop-${idx}`} points={pts} color="#ff0000" lineWidth={2} />
+          ))}
+          {view.dimensions.map((dimension, idx) => (
+            <DimensionLine key={`dim-${idx}`} dimension={dimension} />
+          ))}
+        </group>
+      )}
+
+      {/* 曲线类型与特征参数 */}
+      {view?.notes.map((note, idx) => (
+        <Text key={idx} position={[0, -2.05 - idx * 0.22, 0.02]} fontSize={0.16} color="#334155" anchorX="center" anchorY="middle">
+          {note}
+        </Text>
+      ))}
+      
+      {/* 标签 */}
+      <PlaneLabel 
+        text="断面图 (实形)" 
+        position={[0, 2.8, 0]} 
+        color="#fca5a5"
+      />
+    </group>
+  );
+};
+
 /**
  * 截平面控制器组件
  * 提供UI控件来调整截平面的位置和角度
@@ -17,10 +17,101 @@ export enum GeometryType {
   CUT_CYLINDER = 'CUT_CYLINDER',
   SLOT_BLOCK = 'SLOT_BLOCK',
   INTERSECTING_PRISMS = 'INTERSECTING_PRISMS', // 相贯三棱柱
+  INTERSECTING_SOLIDS = 'INTERSECTING_SOLIDS', // 相贯回转体
+  PRIMITIVES = 'PRIMITIVES', // 点、直线、平面
   CUSTOM = 'CUSTOM',
   DRAW = 'DRAW'
 }
 
+// 投影体系：第一角画法（中国/ISO）与第三角画法（美国/ANSI）
+export type ProjectionSystem = 'first-angle' | 'third-angle';
+
+// 自定义模型文件格式（.glb/.gltf 统一按 gltf 处理）
+export type CustomModelFormat = 'gltf' | 'stl' | 'obj';
+
+// 辅助投影面：垂直于 V 面或 H 面，angle 为相对起始位置的转角（度）
+export interface AuxiliaryPlaneSettings {
+  parent: 'V' | 'H';
+  angle: number;
+}
+
+// 换面法拾取模式：棱线求实长、平面求实形
+export type ChangeOfPlaneMode = 'edge' | 'face';
+
+// 旋转法的旋转轴：垂直于 H 面（铅垂轴）或垂直于 V 面（正垂轴）
+export type RotationAxis = 'H' | 'V';
+
+// 投影点标注：selected 为要标注的特征点序号，null 时标注全部
+export interface PointLabelSettings {
+  selected: number[] | null;
+}
+
+// 轴测投影类型：正等测、正二测、斜二测
+export type AxonometricType = 'isometric' | 'dimetric' | 'cabinet';
+
+// 剖面符号（GB/T 4457.5）：金属材料、非金属材料、液体
+export type HatchPattern = 'metal' | 'nonmetal' | 'liquid';
+
+// 截平面设置
+export interface SectionPlaneSettings {
+  id: string;
+  position: [number, number, number];  // 截平面中心
+  rotation: [number, number, number];  // 欧拉角（弧度），法向为局部 +Z
+  color: string;
+}
+
+// 剖切方式：全剖、半剖、局部剖
+export type CutawayMode = 'full' | 'half' | 'local';
+
+// 相贯回转体组合：圆柱与圆柱、圆柱与圆锥、圆柱与球（支管总是圆柱）
+export type IntersectionKind = 'cylinder-cylinder' | 'cylinder-cone' | 'cylinder-sphere';
+
+// 相贯回转体设置
+export interface IntersectionSettings {
+  kind: IntersectionKind;
+  radiusRatio: number;  // 支管半径与主体半径之比
+  offset: number;       // 两轴线的偏距与主体半径之比（0 为正交）
+  through: boolean;     // 支管贯穿主体（否则只在主体一侧，T 形）
+}
+
+// 画法几何基本元素，坐标为教材坐标系：X 向左、Y 向前、Z 向上，原点为 V、H、W 三投影面的交点
+export interface PrimitivePoint {
+  id: string;
+  name: string;                        // 大写字母，投影标注为 a、a′、a″
+  coords: [number, number, number];    // (x, y, z)：到 W、V、H 面的距离
+}
+
+// 两点确定的直线（名称由两端点组成）
+export interface PrimitiveLine {
+  id: string;
+  points: [string, string];
+}
+
+// 平面：由不共线的三点确定，或由迹线确定（给出平面在 X、Y、Z 轴上的截距，null 表示平行于该轴，截距不能为 0）
+export type PrimitivePlane =
+  | { id: string; name: string; kind: 'points'; points: [string, string, string] }
+  | { id: string; name: string; kind: 'traces'; intercepts: [number | null, number | null, number | null] };
+
+// 相对位置分析：两直线，或直线与平面
+export type PrimitiveAnalysis =
+  | { kind: 'lines'; lines: [string, string] }
+  | { kind: 'line-plane'; line: string; plane: string };
+
+export interface PrimitiveScene {
+  points: PrimitivePoint[];
+  lines: PrimitiveLine[];
+  planes: PrimitivePlane[];
+  analysis?: PrimitiveAnalysis | null;
+  traceTarget?: { kind: 'line' | 'plane'; id: string } | null;  // 求迹点/迹线的直线或平面
+}
+
+// 剖面线设置
+export interface HatchSettings {
+  pattern: HatchPattern;
+  spacing: number;  // 剖面线间距
+  angle: number;    // 剖面线与水平方向的夹角（度）
+}
+
 export interface GeometryParams {
   width: number;
   height: number;
@@ -28,8 +119,11 @@ export interface GeometryParams {
   cutSize: number;
   customModelUrl?: string;
   customModelScale?: number;
+  customModelFormat?: CustomModelFormat;
   drawPoints?: [number, number][];
   drawDepth?: number;
+  intersection?: IntersectionSettings;
+  primitives?: PrimitiveScene;
 }
 
 export interface GeometryConfig {
@@ -61,7 +155,10 @@ export const GEOMETRIES: GeometryConfig[] = [
   { id: GeometryType.TORUS, name: '圆环体', description: '环形回转体，观察复杂曲面的投影特征。' },
   // 相贯体
   { id: GeometryType.INTERSECTING_PRISMS, name: '相贯三棱柱', description: '两个三棱柱正交相贯，经典的相贯线案例，观察相贯线在各视图中的投影。' },
+  { id: GeometryType.INTERSECTING_SOLIDS, name: '相贯回转体', description: '圆柱与圆柱、圆锥或球相贯，调整直径比与偏距，观察相贯线的形状与可见性；等径正交圆柱的相贯线退化为椭圆。' },
+  // 画法几何基本元素
+  { id: GeometryType.PRIMITIVES, name: '点、直线、平面', description: '按坐标放置点，由两点作直线，由三点或迹线作平面，观察它们在三投影面上的投影与相对投影面的位置。' },
   // 自定义
-  { id: GeometryType.CUSTOM, name: '📁 导入模型', description: '上传自己的3D模型文件（支持 .glb/.gltf 格式），观察其三视图投影。' },
+  { id: GeometryType.CUSTOM, name: '📁 导入模型', description: '上传自己的3D模型文件（支持 .glb/.gltf/.stl/.obj 格式），观察其三视图投影。' },
   { id: GeometryType.DRAW, name: '✏️ 绘制建模', description: '类似 SketchUp 的绘制模式，在平面上绘制轮廓，然后推拉生成三维形体。' },
 ];
@@ -0,0 +1,205 @@
+import * as THREE from 'three';
+import { IntersectionKind } from '../types';
+import { IntersectionBodies, IntersectionCurve } from './intersectionCurve';
+
+/**
+ * 辅助平面法求相贯线
+ * 用一组辅助平面同时截切两立体，每个辅助平面上两立体截交线的交点即为相贯线上的共有点，
+ * 依次连接各共有点得到相贯线。辅助平面选取使两立体的截交线都是直线或圆的位置：
+ * 两圆柱、圆柱与球用正平面（截圆柱得素线，截球得圆），圆柱与圆锥用水平面（截圆锥得纬圆，截圆柱得素线）
+ */
+
+// 辅助平面的个数（含最前/最后或最高/最低的特殊位置）
+export const AUXILIARY_PLANE_COUNT = 9;
+
+// 各相贯组合使用的辅助平面
+export const AUXILIARY_PLANE_LABELS: Record<IntersectionKind, string> = {
+  'cylinder-cylinder': '正平面',
+  'cylinder-cone': '水平面',
+  'cylinder-sphere': '正平面',
+};
+
+// 单个辅助平面的作图结果
+export interface AuxiliaryPlaneStep {
+  point: THREE.Vector3;          // 辅助平面上的一点
+  normal: THREE.Vector3;         // 辅助平面法向
+  level: number;                 // 辅助平面沿法向的位置
+  mainSection: THREE.Vector3[][];    // 主体的截交线（素线或圆）
+  branchSection: THREE.Vector3[][];  // 支管的截交线
+  points: THREE.Vector3[];       // 共有点
+}
+
+// 圆的折线（圆心、两条正交半径方向）
+const circle = (center: THREE.Vector3, a: THREE.Vector3, b: THREE.Vector3, radius: number, segments: number = 64) =>
+  Array.from({ length: segments + 1 }, (_, i) => {
+    const angle = (i / segments) * Math.PI * 2;
+    return center.clone().addScaledVector(a, radius * Math.cos(angle)).addScaledVector(b, radius * Math.sin(angle));
+  });
+
+// 支管的素线：在支管横截面中距轴线为 (du, dw) 的一条素线
+const branchGeneratrix = (bodies: IntersectionBodies, du: number, dw: number) => {
+  const { branch } = bodies;
+  const base = branch.center.clone().addScaledVector(branch.u, du).addScaledVector(branch.w, dw);
+  return [base.clone().addScaledVector(branch.axis, branch.tMin), base.clone().addScaledVector(branch.axis, branch.tMax)];
+};
+
+/**
+ * 辅助平面的法向：水平面为 y，正平面为 z
+ */
+const getAuxiliaryNormal = (kind: IntersectionKind) =>
+  kind === 'cylinder-cone' ? new THREE.Vector3(0, 1, 0) : new THREE.Vector3(0, 0, 1);
+
+/**
+ * 求一个辅助平面上两立体的截交线与共有点
+ * @param bodies 相贯的两个立体
+ * @param level 辅助平面的位置（正平面为 z，水平面为 y）
+ * @returns 作图结果
+ */
+export function createAuxiliaryPlaneStep(bodies: IntersectionBodies, level: number): AuxiliaryPlaneStep {
+  const { settings, main, branch } = bodies;
+  const normal = getAuxiliaryNormal(settings.kind);
+  const mainSection: THREE.Vector3[][] = [];
+  const branchSection: THREE.Vector3[][] = [];
+  const candidates: THREE.Vector3[] = [];
+  const sqrt = (value: number) => value < 0 ? NaN : Math.sqrt(value);
+
+  if (settings.kind === 'cylinder-cone') {
+    // 水平面 y = level：圆锥截得纬圆，水平圆柱截得两条素线 z = e ± √(r² - (y - yc)²)
+    const H = main.halfLength * 2;
+    const rho = main.radius * (main.halfLength - level) / H;
+    if (level >= -main.halfLength && level <= main.halfLength) {
+      mainSection.push(circle(new THREE.Vector3(0, level, 0), new THREE.Vector3(1, 0, 0), new THREE.Vector3(0, 0, 1), rho));
+    }
+    const half = sqrt(branch.radius * branch.radius - (level - branch.center.y) ** 2);
+    [-half, half].forEach(dz => {
+      if (Number.isNaN(dz)) return;
+      branchSection.push(branchGeneratrix(bodies, level - branch.center.y, dz));
+      const z = branch.center.z + dz;
+      const x = sqrt(rho * rho - z * z);
+      if (!Number.isNaN(x)) candidates.push(new THREE.Vector3(-x, level, z), new THREE.Vector3(x, level, z));
+    });
+  } else {
+    // 正平面 z = level：铅垂支管截得两条素线 x = ±√(r² - (z - e)²)
+    const half = sqrt(branch.radius * branch.radius - (level - branch.center.z) ** 2);
+    const xs = Number.isNaN(half) ? [] : [-half, half];
+    xs.forEach(x => branchSection.push(branchGeneratrix(bodies, x, level - branch.center.z)));
+
+    if (main.kind === 'sphere') {
+      // 球截得圆 x² + y² = R² - z²
+      const a = sqrt(main.radius * main.radius - level * level);
+      if (!Number.isNaN(a)) {
+        mainSection.push(circle(new THREE.Vector3(0, 0, level), new THREE.Vector3(1, 0, 0), new THREE.Vector3(0, 1, 0), a));
+        xs.forEach(x => {
+          const y = sqrt(a * a - x * x);
+          if (!Number.isNaN(y)) candidates.push(new THREE.Vector3(x, -y, level), new THREE.Vector3(x, y, level));
+        });
+      }
+    } else {
+      // 水平圆柱截得两条素线 y = ±√(R² - z²)
+      const y = sqrt(main.radius * main.radius - level * level);
+      if (!Number.isNaN(y)) {
+        [-y, y].forEach(yy => {
+          mainSection.push([new THREE.Vector3(-main.halfLength, yy, level), new THREE.Vector3(main.halfLength, yy, level)]);
+          xs.forEach(x => candidates.push(new THREE.Vector3(x, yy, level)));
+        });
+      }
+    }
+  }
+
+  // 共有点须同时在两立体的有效范围内（支管长度、圆柱长度、圆锥的一叶），并去除相切时的重合点
+  const points: THREE.Vector3[] = [];
+  candidates.forEach(p => {
+    const t = p.clone().sub(branch.center).dot(branch.axis);
+    if (t < branch.tMin - 1e-9 || t > branch.tMax + 1e-9 || !main.contains(p)) return;
+    if (!points.some(q => q.distanceToSquared(p) < 1e-12)) points.push(p);
+  });
+
+  return { point: normal.clone().multiplyScalar(level), normal, level, mainSection, branchSection, points };
+}
+
+/**
+ * 生成辅助平面序列
+ * 辅助平面在相贯线沿法向的范围内等距排列，首末两个平面通过最前/最后（或最高/最低）的特殊点
+ * @param bodies 相贯的两个立体
+ * @param curves 相贯线（确定辅助平面的范围）
+ * @param count 辅助平面个数
+ * @returns 各辅助平面的作图结果
+ */
+export function createAuxiliaryPlaneSteps(
+  bodies: IntersectionBodies,
+  curves: IntersectionCurve[],
+  count: number = AUXILIARY_PLANE_COUNT
+): AuxiliaryPlaneStep[] {
+  const normal = getAuxiliaryNormal(bodies.settings.kind);
+  const levels = curves.flatMap(curve => curve.points.map(p => p.dot(normal)));
+  if (levels.length === 0) return [];
+  // 相贯线的端点由折线采样得到，接近两立体沿法向的范围时取准确值（特殊点）
+  const { main, branch } = bodies;
+  const branchCenter = branch.center.dot(normal);
+  const branchExtent = branch.radius * Math.hypot(branch.u.dot(normal), branch.w.dot(normal));
+  const mainExtent = main.kind === 'cone' ? main.halfLength : main.radius;
+  const exactMin = Math.max(branchCenter - branchExtent, -mainExtent);
+  const exactMax = Math.min(branchCenter + branchExtent, mainExtent);
+  const start = Math.min(...levels) - exactMin < 1e-2 ? exactMin : Math.min(...levels);
+  const end = exactMax - Math.max(...levels) < 1e-2 ? exactMax : Math.max(...levels);
+
+  return Array.from({ length: count }, (_, i) =>
+    createAuxiliaryPlaneStep(bodies, count === 1 ? (start + end) / 2 : start + (end - start) * i / (count - 1)));
+}
+
+/**
+ * 把已求得的共有点连成相贯线
+ * 按各点在相贯线上的顺序连接相邻两点，且只连接两点之间的相贯线已全部被扫过的部分
+ * @param curves 相贯线（确定连接顺序）
+ * @param steps 已作出的辅助平面
+ * @returns 连接共有点的折线段
+ */
+export function connectCommonPoints(curves: IntersectionCurve[], steps: AuxiliaryPlaneStep[]): [THREE.Vector3, THREE.Vector3][] {
+  if (steps.length === 0) return [];
+  const normal = steps[0].normal;
+  const levels = steps.map(step => step.level);
+  const swept = [Math.min(...levels) - 1e-6, Math.max(...levels) + 1e-6];
+  const points = steps.flatMap(step => step.points);
+  const segments: [THREE.Vector3, THREE.Vector3][] = [];
+
+  curves.forEach(curve => {
+    const n = curve.points.length;
+    // 各共有点在相贯线上最近的采样点序号
+    const found = points
+      .map(p => {
+        let best = -1;
+        let bestDistance = Infinity;
+        curve.points.forEach((q, i) => {
+          const distance = q.distanceToSquared(p);
+          if (distance < bestDistance) {
+            bestDistance = distance;
+            best = i;
+          }
+        });
+        return { p, index: best, distance: bestDistance };
+      })
+      .filter(item => item.distance < 1e-3)
+      .sort((a, b) => a.index - b.index);
+
+    const count = curve.isClosed ? found.length : found.length - 1;
+    for (let k = 0; k < count; k++) {
+      const a = found[k];
+      const b = found[(k + 1) % found.length];
+      if (a.p.distanceToSquared(b.p) < 1e-12) continue;
+      // 两点之间的采样点都在已扫过的范围内才连接
+      let i = a.index;
+      let covered = true;
+      while (i !== b.index) {
+        const level = curve.points[i].dot(normal);
+        if (level < swept[0] || level > swept[1]) {
+          covered = false;
+          break;
+        }
+        i = (i + 1) % n;
+      }
+      if (covered) segments.push([a.p, b.p]);
+    }
+  });
+
+  return segments;
+}
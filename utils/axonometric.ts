@@ -0,0 +1,108 @@
+import * as THREE from 'three';
+import { AxonometricType } from '../types';
+import { computeProjectedLines, HiddenLineOptions } from './hiddenLine';
+import { ViewBasis } from './viewProjection';
+import { DrawingLayout, getPolylineBounds } from './drawingExport';
+
+/**
+ * 轴测投影
+ * 按轴间角与轴向伸缩系数构造投影，世界坐标 x（长）、z（宽，朝向观察者）、y（高）
+ * 分别对应轴测轴 OX、OY、OZ；OZ 竖直向上
+ */
+
+// 轴测轴：在图面上的方向角（度，自水平向右逆时针）与轴向伸缩系数
+export interface AxonometricAxis {
+  angle: number;
+  factor: number;            // 理论伸缩系数
+  simplifiedFactor: number;  // 简化伸缩系数
+}
+
+// 轴测投影类型定义
+export interface AxonometricSpec {
+  label: string;
+  axes: { x: AxonometricAxis; y: AxonometricAxis; z: AxonometricAxis };  // 轴测轴 OX、OY、OZ
+  caption: string;  // 轴间角说明
+}
+
+// GB/T 4458.3：正等测轴间角均为 120°；正二测 OX 与水平线成 7°10′、OY 成 41°25′；斜二测 OY 与水平线成 45°
+export const AXONOMETRIC_SPECS: Record<AxonometricType, AxonometricSpec> = {
+  isometric: {
+    label: '正等轴测',
+    axes: {
+      x: { angle: -30, factor: 0.82, simplifiedFactor: 1 },
+      y: { angle: 210, factor: 0.82, simplifiedFactor: 1 },
+      z: { angle: 90, factor: 0.82, simplifiedFactor: 1 },
+    },
+    caption: '轴间角 120°',
+  },
+  dimetric: {
+    label: '正二等轴测',
+    axes: {
+      x: { angle: -(7 + 10 / 60), factor: 0.94, simplifiedFactor: 1 },
+      y: { angle: 180 + 41 + 25 / 60, factor: 0.47, simplifiedFactor: 0.5 },
+      z: { angle: 90, factor: 0.94, simplifiedFactor: 1 },
+    },
+    caption: '∠XOZ 97°10′ · ∠YOZ 131°25′',
+  },
+  cabinet: {
+    label: '斜二等轴测',
+    axes: {
+      x: { angle: 0, factor: 1, simplifiedFactor: 1 },
+      y: { angle: 225, factor: 0.5, simplifiedFactor: 0.5 },
+      z: { angle: 90, factor: 1, simplifiedFactor: 1 },
+    },
+    caption: '∠XOZ 90° · ∠XOY 135°',
+  },
+};
+
+/**
+ * 轴测轴在图面上的单位向量（已乘伸缩系数）
+ * @param axis 轴测轴
+ * @param simplified 是否使用简化伸缩系数
+ * @returns 图面上的2D向量
+ */
+export function getAxisImage(axis: AxonometricAxis, simplified: boolean = false): [number, number] {
+  const factor = simplified ? axis.simplifiedFactor : axis.factor;
+  const rad = THREE.MathUtils.degToRad(axis.angle);
+  return [Math.cos(rad) * factor, Math.sin(rad) * factor];
+}
+
+/**
+ * 构造轴测投影的坐标系
+ * uAxis、vAxis 由三根轴测轴的图面向量逐分量组成，因而一般不正交、不归一；
+ * 投射方向取 uAxis × vAxis 的反向，使沿投射方向的点投影重合，可直接用于消隐投影
+ * （正轴测时投射方向垂直于图面，斜轴测时倾斜于图面）
+ * @param type 轴测投影类型
+ * @param simplified 是否使用简化伸缩系数
+ * @returns 轴测投影坐标系
+ */
+export function createAxonometricBasis(type: AxonometricType, simplified: boolean = false): ViewBasis {
+  const { x, y, z } = AXONOMETRIC_SPECS[type].axes;
+  // 世界 x → OX，世界 y → OZ，世界 z → OY
+  const [ox, oy, oz] = [getAxisImage(x, simplified), getAxisImage(y, simplified), getAxisImage(z, simplified)];
+  const uAxis = new THREE.Vector3(ox[0], oz[0], oy[0]);
+  const vAxis = new THREE.Vector3(ox[1], oz[1], oy[1]);
+  const direction = new THREE.Vector3().crossVectors(uAxis, vAxis).negate().normalize();
+  return { direction, uAxis, vAxis };
+}
+
+/**
+ * 生成轴测图图纸
+ * 轴测图按惯例不画不可见轮廓线
+ * @param geometry 几何体
+ * @param type 轴测投影类型
+ * @param simplified 是否使用简化伸缩系数
+ * @param options 消隐选项
+ * @returns 单视图图纸排布
+ */
+export function createAxonometricLayout(
+  geometry: THREE.BufferGeometry,
+  type: AxonometricType,
+  simplified: boolean = false,
+  options: HiddenLineOptions = {}
+): DrawingLayout {
+  const basis = createAxonometricBasis(type, simplified);
+  const lines = { ...computeProjectedLines(geometry, basis, options), hidden: [] };
+  const bounds = getPolylineBounds([...lines.visible, ...lines.center]) ?? { minX: 0, minY: 0, maxX: 0, maxY: 0 };
+  return { views: [{ plane: basis, name: `axonometric-${type}`, lines, offset: [0, 0] }], bounds };
+}
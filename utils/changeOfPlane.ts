@@ -0,0 +1,273 @@
+import * as THREE from 'three';
+import { MeshTopology, extractFeatureEdges } from './meshTopology';
+import { AuxiliaryPlaneSpec, createAuxiliaryBasis } from './glassBox';
+import { ViewPlane, createViewBasis } from './viewProjection';
+
+/**
+ * 换面法
+ * 用新的投影面替换原投影面，使所选棱线平行于新投影面（反映实长），
+ * 或使所选平面平行于新投影面（反映实形）。新投影面必须垂直于被保留的投影面
+ */
+
+// 选中的棱线
+export interface PickedEdge {
+  kind: 'edge';
+  start: THREE.Vector3;
+  end: THREE.Vector3;
+}
+
+// 选中的平面（由共面且相连的三角形组成）
+export interface PickedFace {
+  kind: 'face';
+  normal: THREE.Vector3;                                      // 外法向（单位向量）
+  triangles: [THREE.Vector3, THREE.Vector3, THREE.Vector3][]; // 组成平面的三角形
+  outline: [THREE.Vector3, THREE.Vector3][];                  // 平面的边界线段
+  area: number;
+}
+
+export type PickedElement = PickedEdge | PickedFace;
+
+// 换面求解结果
+export interface ChangeOfPlaneSolution {
+  element: PickedElement;
+  planes: AuxiliaryPlaneSpec[];   // 依次更换的新投影面（0~2个）
+  trueView: string;               // 反映实长/实形的投影面
+  measure: number;                // 实长或实形面积
+  description: string;            // 作图说明
+}
+
+// 判断平行/垂直的容差（单位向量分量）
+const PARALLEL_EPS = 1e-3;
+
+/**
+ * 拾取离给定点最近的棱线
+ * 在特征棱线中找最近的线段，再沿共线相接的线段延伸为整条棱线
+ * @param topology 网格拓扑
+ * @param point 拾取点（世界坐标）
+ * @param featureAngle 特征棱线的二面角阈值（度）
+ * @returns 棱线，没有特征棱线时返回 null
+ */
+export function pickEdge(topology: MeshTopology, point: THREE.Vector3, featureAngle: number = 15): PickedEdge | null {
+  const edges = extractFeatureEdges(topology, featureAngle);
+  const line = new THREE.Line3();
+  const closest = new THREE.Vector3();
+
+  let best: [THREE.Vector3, THREE.Vector3] | null = null;
+  let bestDist = Infinity;
+  edges.forEach(edge => {
+    line.set(edge[0], edge[1]);
+    line.closestPointToPoint(point, true, closest);
+    const dist = closest.distanceToSquared(point);
+    if (dist < bestDist) {
+      bestDist = dist;
+      best = edge;
+    }
+  });
+  if (!best) return null;
+
+  // 焊接后的顶点为同一对象，可直接按引用判断相接
+  let [start, end] = best as [THREE.Vector3, THREE.Vector3];
+  const dir = end.clone().sub(start).normalize();
+  const isCollinear = (a: THREE.Vector3, b: THREE.Vector3) =>
+    b.clone().sub(a).normalize().cross(dir).length() < 1e-4;
+
+  let extended = true;
+  while (extended) {
+    extended = false;
+    for (const [a, b] of edges) {
+      if (!isCollinear(a, b)) continue;
+      const other = a === start ? b : b === start ? a : null;
+      if (other && other !== end && other.clone().sub(end).dot(dir) < 0 && other.clone().sub(start).dot(dir) < 0) {
+        start = other;
+        extended = true;
+      }
+      const next = a === end ? b : b === end ? a : null;
+      if (next && next !== start && next.clone().sub(start).dot(dir) > 0 && next.clone().sub(end).dot(dir) > 0) {
+        end = next;
+        extended = true;
+      }
+    }
+  }
+
+  return { kind: 'edge', start: start.clone(), end: end.clone() };
+}
+
+/**
+ * 拾取包含给定点的平面
+ * 找到离点最近的三角形，再经公共边扩展到所有与之共面的三角形
+ * @param topology 网格拓扑
+ * @param point 拾取点（世界坐标）
+ * @returns 平面，网格为空时返回 null
+ */
+export function pickFace(topology: MeshTopology, point: THREE.Vector3): PickedFace | null {
+  const { vertices, triangles, faceNormals, edges } = topology;
+  const triangle = new THREE.Triangle();
+  const closest = new THREE.Vector3();
+
+  let seed = -1;
+  let bestDist = Infinity;
+  triangles.forEach(([a, b, c], i) => {
+    triangle.set(vertices[a], vertices[b], vertices[c]);
+    triangle.closestPointToPoint(point, closest);
+    const dist = closest.distanceToSquared(point);
+    if (dist < bestDist) {
+      bestDist = dist;
+      seed = i;
+    }
+  });
+  if (seed < 0) return null;
+
+  const normal = faceNormals[seed].clone();
+  const offset = normal.dot(vertices[triangles[seed][0]]);
+  const isCoplanar = (face: number) =>
+    faceNormals[face].dot(normal) > 1 - 1e-6 &&
+    triangles[face].every(v => Math.abs(normal.dot(vertices[v]) - offset) < 1e-4);
+
+  // 三角形之间的邻接关系
+  const faceEdges: number[][] = triangles.map(() => []);
+  edges.forEach((edge, i) => edge.faces.forEach(f => faceEdges[f].push(i)));
+
+  const selected = new Set<number>([seed]);
+  const queue = [seed];
+  while (queue.length > 0) {
+    const face = queue.pop()!;
+    faceEdges[face].forEach(e => edges[e].faces.forEach(neighbor => {
+      if (!selected.has(neighbor) && isCoplanar(neighbor)) {
+        selected.add(neighbor);
+        queue.push(neighbor);
+      }
+    }));
+  }
+
+  let area = 0;
+  const faceTriangles: PickedFace['triangles'] = [];
+  selected.forEach(face => {
+    const [a, b, c] = triangles[face].map(v => vertices[v].clone());
+    area += triangle.set(a, b, c).getArea();
+    faceTriangles.push([a, b, c]);
+  });
+
+  // 只属于一个选中三角形的边即为边界
+  const outline: PickedFace['outline'] = [];
+  edges.forEach(edge => {
+    if (edge.faces.filter(f => selected.has(f)).length === 1) {
+      outline.push([vertices[edge.a].clone(), vertices[edge.b].clone()]);
+    }
+  });
+
+  return { kind: 'face', normal, triangles: faceTriangles, outline, area };
+}
+
+// 已平行于基本投影面时，对应反映实长/实形的投影面
+const parallelView = (direction: THREE.Vector3, isNormal: boolean): ViewPlane | null => {
+  const d = direction;
+  if (isNormal) {
+    if (Math.abs(d.x) < PARALLEL_EPS && Math.abs(d.y) < PARALLEL_EPS) return 'V';
+    if (Math.abs(d.x) < PARALLEL_EPS && Math.abs(d.z) < PARALLEL_EPS) return 'H';
+    if (Math.abs(d.y) < PARALLEL_EPS && Math.abs(d.z) < PARALLEL_EPS) return 'W';
+    return null;
+  }
+  if (Math.abs(d.z) < PARALLEL_EPS) return 'V';
+  if (Math.abs(d.y) < PARALLEL_EPS) return 'H';
+  if (Math.abs(d.x) < PARALLEL_EPS) return 'W';
+  return null;
+};
+
+const VIEW_NAMES: Record<string, string> = { V: '正面', H: '水平面', W: '侧面' };
+
+// 垂直于 H 面、投射方向为 direction（水平方向）的新投影面 V1
+const horizontalAuxiliary = (direction: THREE.Vector3, label: string): AuxiliaryPlaneSpec => {
+  // 取朝后的投射方向，新投影面与 V 面同侧
+  const dir = direction.z > 0 ? direction.clone().negate() : direction;
+  const angle = THREE.MathUtils.radToDeg(Math.atan2(dir.x, -dir.z));
+  return { id: 'V1', parent: 'H', basis: createAuxiliaryBasis('H', angle), label };
+};
+
+// 垂直于 V 面、投射方向为 direction（正平方向）的新投影面 H1
+const frontalAuxiliary = (direction: THREE.Vector3, label: string): AuxiliaryPlaneSpec => {
+  // 取朝下的投射方向，新投影面与 H 面同侧
+  const dir = direction.y > 0 ? direction.clone().negate() : direction;
+  const angle = THREE.MathUtils.radToDeg(Math.atan2(dir.x, -dir.y));
+  return { id: 'H1', parent: 'V', basis: createAuxiliaryBasis('V', angle), label };
+};
+
+/**
+ * 求解换面
+ * 棱线：一般位置直线一次换面（V1 ⊥ H 且平行于直线）即得实长；
+ * 平面：投影面垂直面一次换面即得实形，一般位置平面先换 V1 使其积聚为直线，再换 H2 平行于平面
+ * @param element 选中的棱线或平面
+ * @returns 换面结果
+ */
+export function solveChangeOfPlane(element: PickedElement): ChangeOfPlaneSolution {
+  if (element.kind === 'edge') {
+    const length = element.start.distanceTo(element.end);
+    const dir = element.end.clone().sub(element.start).normalize();
+    const view = parallelView(dir, false);
+    if (view) {
+      return {
+        element, planes: [], trueView: view, measure: length,
+        description: `棱线平行于${VIEW_NAMES[view]}，${view} 面投影即反映实长`,
+      };
+    }
+
+    // 新投影面平行于直线：投射方向垂直于直线的水平投影
+    const auxDir = new THREE.Vector3(dir.z, 0, -dir.x).normalize();
+    return {
+      element,
+      planes: [horizontalAuxiliary(auxDir, 'V1 (换面)')],
+      trueView: 'V1',
+      measure: length,
+      description: '一般位置直线：作 V1 ⊥ H 且平行于直线（X1 轴平行于水平投影），V1 面投影反映实长',
+    };
+  }
+
+  const { normal, area } = element;
+  const view = parallelView(normal, true);
+  if (view) {
+    return {
+      element, planes: [], trueView: view, measure: area,
+      description: `平面平行于${VIEW_NAMES[view]}，${view} 面投影即反映实形`,
+    };
+  }
+
+  // 铅垂面：V1 ⊥ H 且平行于平面
+  if (Math.abs(normal.y) < PARALLEL_EPS) {
+    return {
+      element,
+      planes: [horizontalAuxiliary(new THREE.Vector3(normal.x, 0, normal.z).normalize(), 'V1 (换面)')],
+      trueView: 'V1',
+      measure: area,
+      description: '铅垂面：作 V1 ⊥ H 且平行于平面（X1 轴平行于平面的积聚投影），V1 面投影反映实形',
+    };
+  }
+
+  // 正垂面：H1 ⊥ V 且平行于平面
+  if (Math.abs(normal.z) < PARALLEL_EPS) {
+    return {
+      element,
+      planes: [frontalAuxiliary(new THREE.Vector3(normal.x, normal.y, 0).normalize(), 'H1 (换面)')],
+      trueView: 'H1',
+      measure: area,
+      description: '正垂面：作 H1 ⊥ V 且平行于平面（X1 轴平行于平面的积聚投影），H1 面投影反映实形',
+    };
+  }
+
+  // 一般位置平面：V1 垂直于平面内的水平线，使平面积聚为直线；H2 ⊥ V1 且平行于平面
+  const horizontalLine = new THREE.Vector3(-normal.z, 0, normal.x).normalize();
+  const first = horizontalAuxiliary(horizontalLine, 'V1 (一次换面)');
+  const secondDir = normal.y > 0 ? normal.clone().negate() : normal.clone();
+  const second: AuxiliaryPlaneSpec = {
+    id: 'H2',
+    parent: 'V1',
+    // 与 H 面相对 V 面的关系一致：面内竖直方向取父面的投射方向
+    basis: createViewBasis(secondDir, first.basis.direction),
+    label: 'H2 (二次换面)',
+  };
+  return {
+    element,
+    planes: [first, second],
+    trueView: 'H2',
+    measure: area,
+    description: '一般位置平面：先作 V1 垂直于平面内的水平线使平面积聚为直线，再作 H2 ⊥ V1 且平行于平面，H2 面投影反映实形',
+  };
+}
@@ -0,0 +1,120 @@
+import * as THREE from 'three';
+import { Evaluator, Brush, SUBTRACTION } from 'three-bvh-csg';
+import { CutawayMode } from '../types';
+import { getPlaneAxes } from './sectionPlane';
+
+/**
+ * 剖切（剖视图）
+ * 用 CSG 从立体中减去截平面一侧的切除体，得到剖切后剩余的部分：
+ * 全剖切除法向一侧的全部材料；半剖只切除法向一侧、截平面 u 轴正向的四分之一；
+ * 局部剖只切除截平面附近一个方形区域内的材料
+ */
+
+// 剖切产生的断面（切除体与立体的交面），按所在平面分组
+export interface CutawayCap {
+  normal: THREE.Vector3;          // 断面外法向（指向被切除的一侧）
+  triangles: THREE.Vector3[];     // 三角形顶点（每3个一组）
+}
+
+// 剖切结果
+export interface CutawayResult {
+  geometry: THREE.BufferGeometry; // 剩余部分（含断面）
+  caps: CutawayCap[];
+}
+
+// 剖切方式名称
+export const CUTAWAY_LABELS: Record<CutawayMode, string> = {
+  full: '全剖',
+  half: '半剖',
+  local: '局部剖',
+};
+
+// 参与布尔运算的几何体只保留位置与法向，避免属性不一致
+const prepareGeometry = (geometry: THREE.BufferGeometry): THREE.BufferGeometry => {
+  const prepared = new THREE.BufferGeometry();
+  prepared.setAttribute('position', geometry.getAttribute('position').clone());
+  if (geometry.index) prepared.setIndex(geometry.index.clone());
+  if (geometry.getAttribute('normal')) {
+    prepared.setAttribute('normal', geometry.getAttribute('normal').clone());
+  } else {
+    prepared.computeVertexNormals();
+  }
+  return prepared;
+};
+
+/**
+ * 剖切立体
+ * @param geometry 立体几何体
+ * @param planePoint 截平面上的一点
+ * @param planeNormal 截平面法向量（切除法向所指一侧）
+ * @param mode 剖切方式
+ * @param localSize 局部剖切除区域的边长，缺省为立体包围球直径的 0.4 倍
+ * @returns 剩余部分与断面，布尔运算失败时返回 null
+ */
+export function createCutawayGeometry(
+  geometry: THREE.BufferGeometry,
+  planePoint: THREE.Vector3,
+  planeNormal: THREE.Vector3,
+  mode: CutawayMode,
+  localSize?: number
+): CutawayResult | null {
+  if (!geometry.boundingSphere) geometry.computeBoundingSphere();
+  const radius = geometry.boundingSphere?.radius ?? 1;
+  // 切除体足够大，覆盖立体在截平面一侧的全部
+  const size = (radius + planePoint.distanceTo(geometry.boundingSphere?.center ?? new THREE.Vector3())) * 4 + 1;
+
+  const normal = planeNormal.clone().normalize();
+  const { uAxis, vAxis } = getPlaneAxes(normal);
+
+  // 切除体在截平面坐标系（u、v、n）中的尺寸与中心
+  const cutterSize = mode === 'local'
+    ? [localSize ?? radius * 0.8, localSize ?? radius * 0.8, size]
+    : [size, size, size];
+  const cutterOffset = mode === 'half' ? size / 2 : 0;
+
+  const cutter = new Brush(new THREE.BoxGeometry(cutterSize[0], cutterSize[1], cutterSize[2]), new THREE.MeshBasicMaterial());
+  cutter.quaternion.setFromRotationMatrix(new THREE.Matrix4().makeBasis(uAxis, vAxis, normal));
+  cutter.position.copy(planePoint)
+    .addScaledVector(normal, cutterSize[2] / 2)
+    .addScaledVector(uAxis, cutterOffset);
+  cutter.updateMatrixWorld();
+
+  const solid = new Brush(prepareGeometry(geometry), new THREE.MeshBasicMaterial());
+  solid.updateMatrixWorld();
+
+  try {
+    const evaluator = new Evaluator();
+    evaluator.attributes = ['position', 'normal'];
+    const result = evaluator.evaluate(solid, cutter, SUBTRACTION);
+    const materials = result.material as THREE.Material[];
+
+    // 来自切除体的面即为断面，按法向归并到各自的平面
+    const caps: CutawayCap[] = [];
+    const position = result.geometry.getAttribute('position');
+    const vertex = (i: number) => new THREE.Vector3().fromBufferAttribute(position, i);
+    result.geometry.groups.forEach(group => {
+      if (materials[group.materialIndex ?? 0] !== cutter.material) return;
+      for (let i = group.start; i + 2 < group.start + group.count; i += 3) {
+        const [a, b, c] = [vertex(i), vertex(i + 1), vertex(i + 2)];
+        const faceNormal = new THREE.Triangle(a, b, c).getNormal(new THREE.Vector3());
+        if (faceNormal.lengthSq() < 0.5) continue;
+        let cap = caps.find(cap => cap.normal.dot(faceNormal) > 1 - 1e-4);
+        if (!cap) {
+          cap = { normal: faceNormal, triangles: [] };
+          caps.push(cap);
+        }
+        cap.triangles.push(a, b, c);
+      }
+    });
+
+    const cutGeometry = result.geometry;
+    cutGeometry.clearGroups();
+    cutGeometry.computeBoundingSphere();
+    return { geometry: cutGeometry, caps };
+  } catch {
+    return null;
+  } finally {
+    solid.geometry.dispose();
+    cutter.geometry.dispose();
+  }
+}
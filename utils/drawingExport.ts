@@ -0,0 +1,214 @@
+import * as THREE from 'three';
+import { computeProjectedLines, HiddenLineOptions, Polyline2D, ProjectedLines } from './hiddenLine';
+import { ViewPlane, ViewTarget } from './viewProjection';
+import { ProjectionSystem } from '../types';
+
+/**
+ * 三视图图纸导出
+ * 将各投影面的消隐投影线按"长对正、高平齐、宽相等"排布在同一张图纸上，并输出为 SVG
+ */
+
+// 图纸上的一个视图
+export interface DrawingView {
+  plane: ViewTarget;
+  name?: string;             // 视图名称（SVG 分组 id），缺省时取投影面标识
+  lines: ProjectedLines;     // 视图自身坐标系下的投影线
+  offset: [number, number];  // 视图在图纸上的平移量
+}
+
+// 图纸范围
+export interface DrawingBounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+// 图纸排布结果
+export interface DrawingLayout {
+  views: DrawingView[];
+  bounds: DrawingBounds;  // 图纸坐标下的总范围
+}
+
+// SVG 导出选项
+export interface SvgExportOptions {
+  scale?: number;   // 1个模型单位对应的毫米数
+  margin?: number;  // 图纸边距（毫米）
+}
+
+/**
+ * 计算多个投影面的消隐投影线
+ * @param geometry 几何体
+ * @param planes 投影面列表
+ * @param options 消隐选项
+ * @returns 各投影面的投影线
+ */
+export function computeDrawingProjections(
+  geometry: THREE.BufferGeometry,
+  planes: ViewPlane[],
+  options: HiddenLineOptions = {}
+): Partial<Record<ViewPlane, ProjectedLines>> {
+  const result: Partial<Record<ViewPlane, ProjectedLines>> = {};
+  planes.forEach(plane => {
+    result[plane] = computeProjectedLines(geometry, plane, options);
+  });
+  return result;
+}
+
+/**
+ * 计算一组折线的范围
+ * @param polylines 折线集合
+ * @returns 范围，没有点时返回 null
+ */
+export function getPolylineBounds(polylines: Polyline2D[]): DrawingBounds | null {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  polylines.forEach(line => line.forEach(([x, y]) => {
+    minX = Math.min(minX, x); maxX = Math.max(maxX, x);
+    minY = Math.min(minY, y); maxY = Math.max(maxY, y);
+  }));
+  return minX === Infinity ? null : { minX, minY, maxX, maxY };
+}
+
+// 视图中全部线条的范围
+const getViewBounds = (lines: ProjectedLines): DrawingBounds =>
+  getPolylineBounds([...lines.visible, ...lines.hidden, ...lines.center]) ?? { minX: 0, minY: 0, maxX: 0, maxY: 0 };
+
+/**
+ * 按标准投影关系排布三视图
+ * 第一角画法：俯视图在主视图正下方，左视图在正右方，右视图在正左方；
+ * 第三角画法：俯视图在主视图正上方，右视图在正右方，左视图在正左方。
+ * 俯视图只做竖直平移、侧视图只做水平平移，"长对正、高平齐、宽相等"随之保持
+ * @param projections 各投影面的投影线（至少包含 V 面）
+ * @param gap 视图间距（模型单位）
+ * @param system 投影体系
+ * @returns 图纸排布
+ */
+export function layoutThreeViews(
+  projections: Partial<Record<ViewPlane, ProjectedLines>>,
+  gap: number = 1,
+  system: ProjectionSystem = 'first-angle'
+): DrawingLayout {
+  const views: DrawingView[] = [];
+  const front = projections.V;
+  if (!front) return { views, bounds: { minX: 0, minY: 0, maxX: 0, maxY: 0 } };
+
+  const isThirdAngle = system === 'third-angle';
+  const frontBounds = getViewBounds(front);
+  views.push({ plane: 'V', lines: front, offset: [0, 0] });
+
+  if (projections.H) {
+    const topBounds = getViewBounds(projections.H);
+    const dy = isThirdAngle ? frontBounds.maxY + gap - topBounds.minY : frontBounds.minY - gap - topBounds.maxY;
+    views.push({ plane: 'H', lines: projections.H, offset: [0, dy] });
+  }
+
+  // 放在主视图右侧与左侧的侧视图
+  const [rightPlane, leftPlane]: ViewPlane[] = isThirdAngle ? ['R', 'W'] : ['W', 'R'];
+  const rightLines = projections[rightPlane];
+  if (rightLines) {
+    const b = getViewBounds(rightLines);
+    views.push({ plane: rightPlane, lines: rightLines, offset: [frontBounds.maxX + gap - b.minX, 0] });
+  }
+  const leftLines = projections[leftPlane];
+  if (leftLines) {
+    const b = getViewBounds(leftLines);
+    views.push({ plane: leftPlane, lines: leftLines, offset: [frontBounds.minX - gap - b.maxX, 0] });
+  }
+
+  return { views, bounds: getLayoutBounds(views) };
+}
+
+// 排布后所有视图的总范围
+const getLayoutBounds = (views: DrawingView[]): DrawingBounds => {
+  const bounds = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+  views.forEach(view => {
+    const b = getViewBounds(view.lines);
+    bounds.minX = Math.min(bounds.minX, b.minX + view.offset[0]);
+    bounds.maxX = Math.max(bounds.maxX, b.maxX + view.offset[0]);
+    bounds.minY = Math.min(bounds.minY, b.minY + view.offset[1]);
+    bounds.maxY = Math.max(bounds.maxY, b.maxY + view.offset[1]);
+  });
+  return bounds.minX === Infinity ? { minX: 0, minY: 0, maxX: 0, maxY: 0 } : bounds;
+};
+
+/**
+ * 将视图线条平移到图纸坐标
+ * @param polyline 视图坐标下的折线
+ * @param offset 视图平移量
+ * @returns 图纸坐标下的折线
+ */
+export function toDrawingCoords(polyline: Polyline2D, offset: [number, number]): Polyline2D {
+  return polyline.map(([x, y]) => [x + offset[0], y + offset[1]]);
+}
+
+// 线型样式（GB/T 4457.4：粗实线 0.5mm，细虚线与细点画线 0.25mm）
+const SVG_LINE_STYLES: Record<keyof ProjectedLines, { width: number; dash?: string }> = {
+  visible: { width: 0.5 },
+  hidden: { width: 0.25, dash: '3 1' },
+  center: { width: 0.25, dash: '8 1.5 1 1.5' },
+};
+
+/**
+ * 生成三视图 SVG 图纸
+ * 以毫米为单位输出，y 轴向下翻转；可见线、不可见线、中心线分组并使用对应线型
+ * @param layout 图纸排布
+ * @param options 导出选项
+ * @returns SVG 文本
+ */
+export function createDrawingSvg(layout: DrawingLayout, options: SvgExportOptions = {}): string {
+  const { scale = 20, margin = 10 } = options;
+  const { bounds } = layout;
+  const width = (bounds.maxX - bounds.minX) * scale + margin * 2;
+  const height = (bounds.maxY - bounds.minY) * scale + margin * 2;
+
+  const fmt = (n: number) => Number(n.toFixed(3)).toString();
+  const toSvgPoint = ([x, y]: [number, number]) =>
+    `${fmt((x - bounds.minX) * scale + margin)},${fmt((bounds.maxY - y) * scale + margin)}`;
+
+  const body: string[] = [];
+  layout.views.forEach(view => {
+    body.push(`  <g id="view-${view.name ?? (typeof view.plane === 'string' ? view.plane : 'custom')}">`);
+    (Object.keys(SVG_LINE_STYLES) as (keyof ProjectedLines)[]).forEach(kind => {
+      const polylines = view.lines[kind];
+      if (polylines.length === 0) return;
+      const style = SVG_LINE_STYLES[kind];
+      const dash = style.dash ? ` stroke-dasharray="${style.dash}"` : '';
+      body.push(`    <g class="${kind}" stroke-width="${style.width}"${dash}>`);
+      polylines.forEach(line => {
+        const points = toDrawingCoords(line, view.offset).map(toSvgPoint).join(' ');
+        body.push(`      <polyline points="${points}" />`);
+      });
+      body.push('    </g>');
+    });
+    body.push('  </g>');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${fmt(width)}mm" height="${fmt(height)}mm" viewBox="0 0 ${fmt(width)} ${fmt(height)}">`,
+    `  <rect width="${fmt(width)}" height="${fmt(height)}" fill="#ffffff" />`,
+    '  <g fill="none" stroke="#000000" stroke-linecap="round" stroke-linejoin="round">',
+    ...body.map(line => `  ${line}`),
+    '  </g>',
+    '</svg>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * 在浏览器中下载文本文件
+ * @param content 文件内容
+ * @param fileName 文件名
+ * @param mimeType MIME 类型
+ */
+export function downloadTextFile(content: string, fileName: string, mimeType: string): void {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,216 @@
+import { Polyline2D, ProjectedLines } from './hiddenLine';
+import { SectionLoop, projectSectionToView } from './sectionPlane';
+import { DrawingLayout, toDrawingCoords } from './drawingExport';
+
+/**
+ * DXF 图纸导出
+ * 输出 ASCII DXF（R2000，AC1015），按线型分图层：
+ * VISIBLE 粗实线、HIDDEN 虚线、CENTER 点画线、SECTION 截交线
+ */
+
+// DXF 导出选项
+export interface DxfExportOptions {
+  scale?: number;                    // 1个模型单位对应的毫米数
+  sections?: SectionLoop[];          // 截交线回路（投影到各视图后写入 SECTION 图层）
+}
+
+// 图层定义：名称、颜色号（ACI）、线型、线宽（0.01mm）
+const DXF_LAYERS = [
+  { name: 'VISIBLE', color: 7, linetype: 'CONTINUOUS', lineweight: 50 },
+  { name: 'HIDDEN', color: 2, linetype: 'HIDDEN', lineweight: 25 },
+  { name: 'CENTER', color: 1, linetype: 'CENTER', lineweight: 25 },
+  { name: 'SECTION', color: 3, linetype: 'CONTINUOUS', lineweight: 50 },
+];
+
+// 线型定义（毫米）：正值为线段，负值为间隔，与 SVG 导出的虚线样式一致
+const DXF_LINETYPES = [
+  { name: 'CONTINUOUS', description: 'Solid line', pattern: [] as number[] },
+  { name: 'HIDDEN', description: 'Hidden __ __ __', pattern: [3, -1] },
+  { name: 'CENTER', description: 'Center ____ _ ____', pattern: [8, -1.5, 1, -1.5] },
+];
+
+// 投影线类别对应的图层
+const LINE_KIND_LAYERS: Record<keyof ProjectedLines, string> = {
+  visible: 'VISIBLE',
+  hidden: 'HIDDEN',
+  center: 'CENTER',
+};
+
+type DxfPair = [number, string | number];
+
+/**
+ * 生成 DXF 图纸
+ * 两点折线写为 LINE，多点折线写为 LWPOLYLINE（首尾重合时标记为闭合）
+ * @param layout 图纸排布
+ * @param options 导出选项
+ * @returns DXF 文本
+ */
+export function createDrawingDxf(layout: DrawingLayout, options: DxfExportOptions = {}): string {
+  const { scale = 20, sections = [] } = options;
+  let nextHandle = 1;
+  const handle = () => (nextHandle++).toString(16).toUpperCase();
+  const num = (n: number) => Number(n.toFixed(6));
+
+  // 各表及块记录的句柄需在写入实体前确定
+  const modelSpaceRecord = handle();
+  const paperSpaceRecord = handle();
+
+  // --- ENTITIES ---
+  const entityPairs: DxfPair[] = [];
+  const addPolyline = (points: Polyline2D, layer: string) => {
+    if (points.length < 2) return;
+    const pts = points.map(([x, y]) => [num(x * scale), num(y * scale)] as [number, number]);
+    const first = pts[0];
+    const last = pts[pts.length - 1];
+    const isClosed = pts.length > 3 && Math.abs(first[0] - last[0]) < 1e-6 && Math.abs(first[1] - last[1]) < 1e-6;
+    if (isClosed) pts.pop();
+
+    if (pts.length === 2) {
+      entityPairs.push(
+        [0, 'LINE'], [5, handle()], [330, modelSpaceRecord], [100, 'AcDbEntity'], [8, layer],
+        [100, 'AcDbLine'],
+        [10, pts[0][0]], [20, pts[0][1]], [30, 0],
+        [11, pts[1][0]], [21, pts[1][1]], [31, 0]
+      );
+      return;
+    }
+
+    entityPairs.push(
+      [0, 'LWPOLYLINE'], [5, handle()], [330, modelSpaceRecord], [100, 'AcDbEntity'], [8, layer],
+      [100, 'AcDbPolyline'], [90, pts.length], [70, isClosed ? 1 : 0]
+    );
+    pts.forEach(([x, y]) => entityPairs.push([10, x], [20, y]));
+  };
+
+  layout.views.forEach(view => {
+    (Object.keys(LINE_KIND_LAYERS) as (keyof ProjectedLines)[]).forEach(kind => {
+      view.lines[kind].forEach(line => addPolyline(toDrawingCoords(line, view.offset), LINE_KIND_LAYERS[kind]));
+    });
+
+    // 截交线按同一投影关系投到各视图
+    sections.forEach(loop => {
+      if (loop.points.length < 2) return;
+      const points2D: Polyline2D = projectSectionToView(loop.points, view.plane);
+      if (loop.isClosed) points2D.push(points2D[0]);
+      addPolyline(toDrawingCoords(points2D, view.offset), 'SECTION');
+    });
+  });
+
+  // --- TABLES ---
+  const tablePairs: DxfPair[] = [];
+  const emit = (...items: DxfPair[]) => tablePairs.push(...items);
+  const beginTable = (name: string, count: number) => {
+    const tableHandle = handle();
+    emit([0, 'TABLE'], [2, name], [5, tableHandle], [330, '0'], [100, 'AcDbSymbolTable'], [70, count]);
+    return tableHandle;
+  };
+  const endTable = () => emit([0, 'ENDTAB']);
+
+  emit([0, 'SECTION'], [2, 'TABLES']);
+
+  const vportTable = beginTable('VPORT', 1);
+  emit(
+    [0, 'VPORT'], [5, handle()], [330, vportTable], [100, 'AcDbSymbolTableRecord'], [100, 'AcDbViewportTableRecord'],
+    [2, '*ACTIVE'], [70, 0], [10, 0], [20, 0], [11, 1], [21, 1],
+    [12, num((layout.bounds.minX + layout.bounds.maxX) / 2 * scale)],
+    [22, num((layout.bounds.minY + layout.bounds.maxY) / 2 * scale)],
+    [40, num(Math.max(layout.bounds.maxY - layout.bounds.minY, 1) * scale * 1.2)], [41, 1.5]
+  );
+  endTable();
+
+  const ltypeTable = beginTable('LTYPE', DXF_LINETYPES.length + 2);
+  ['BYBLOCK', 'BYLAYER'].forEach(name => emit(
+    [0, 'LTYPE'], [5, handle()], [330, ltypeTable], [100, 'AcDbSymbolTableRecord'], [100, 'AcDbLinetypeTableRecord'],
+    [2, name], [70, 0], [3, ''], [72, 65], [73, 0], [40, 0]
+  ));
+  DXF_LINETYPES.forEach(({ name, description, pattern }) => {
+    emit(
+      [0, 'LTYPE'], [5, handle()], [330, ltypeTable], [100, 'AcDbSymbolTableRecord'], [100, 'AcDbLinetypeTableRecord'],
+      [2, name], [70, 0], [3, description], [72, 65], [73, pattern.length],
+      [40, pattern.reduce((sum, v) => sum + Math.abs(v), 0)]
+    );
+    pattern.forEach(v => emit([49, v], [74, 0]));
+  });
+  endTable();
+
+  const layerTable = beginTable('LAYER', DXF_LAYERS.length + 1);
+  [{ name: '0', color: 7, linetype: 'CONTINUOUS', lineweight: -3 }, ...DXF_LAYERS].forEach(layer => emit(
+    [0, 'LAYER'], [5, handle()], [330, layerTable], [100, 'AcDbSymbolTableRecord'], [100, 'AcDbLayerTableRecord'],
+    [2, layer.name], [70, 0], [62, layer.color], [6, layer.linetype], [370, layer.lineweight]
+  ));
+  endTable();
+
+  const styleTable = beginTable('STYLE', 1);
+  emit(
+    [0, 'STYLE'], [5, handle()], [330, styleTable], [100, 'AcDbSymbolTableRecord'], [100, 'AcDbTextStyleTableRecord'],
+    [2, 'STANDARD'], [70, 0], [40, 0], [41, 1], [50, 0], [71, 0], [42, 2.5], [3, 'txt'], [4, '']
+  );
+  endTable();
+
+  beginTable('VIEW', 0);
+  endTable();
+  beginTable('UCS', 0);
+  endTable();
+
+  const appidTable = beginTable('APPID', 1);
+  emit(
+    [0, 'APPID'], [5, handle()], [330, appidTable], [100, 'AcDbSymbolTableRecord'], [100, 'AcDbRegAppTableRecord'],
+    [2, 'ACAD'], [70, 0]
+  );
+  endTable();
+
+  const dimstyleTable = handle();
+  emit([0, 'TABLE'], [2, 'DIMSTYLE'], [5, dimstyleTable], [330, '0'], [100, 'AcDbSymbolTable'], [70, 0], [100, 'AcDbDimStyleTable']);
+  endTable();
+
+  const blockRecordTable = beginTable('BLOCK_RECORD', 2);
+  [[modelSpaceRecord, '*Model_Space'], [paperSpaceRecord, '*Paper_Space']].forEach(([recordHandle, name]) => emit(
+    [0, 'BLOCK_RECORD'], [5, recordHandle], [330, blockRecordTable], [100, 'AcDbSymbolTableRecord'],
+    [100, 'AcDbBlockTableRecord'], [2, name]
+  ));
+  endTable();
+  emit([0, 'ENDSEC']);
+
+  // --- BLOCKS ---
+  const blockPairs: DxfPair[] = [];
+  [[modelSpaceRecord, '*Model_Space'], [paperSpaceRecord, '*Paper_Space']].forEach(([recordHandle, name]) => {
+    blockPairs.push(
+      [0, 'BLOCK'], [5, handle()], [330, recordHandle], [100, 'AcDbEntity'], [8, '0'],
+      [100, 'AcDbBlockBegin'], [2, name], [70, 0], [10, 0], [20, 0], [30, 0], [3, name], [1, ''],
+      [0, 'ENDBLK'], [5, handle()], [330, recordHandle], [100, 'AcDbEntity'], [8, '0'], [100, 'AcDbBlockEnd']
+    );
+  });
+
+  // --- OBJECTS（根字典与组字典） ---
+  const rootDictionary = handle();
+  const groupDictionary = handle();
+  const objectPairs: DxfPair[] = [
+    [0, 'DICTIONARY'], [5, rootDictionary], [330, '0'], [100, 'AcDbDictionary'], [281, 1],
+    [3, 'ACAD_GROUP'], [350, groupDictionary],
+    [0, 'DICTIONARY'], [5, groupDictionary], [330, rootDictionary], [100, 'AcDbDictionary'], [281, 1],
+  ];
+
+  const headerPairs: DxfPair[] = [
+    [0, 'SECTION'], [2, 'HEADER'],
+    [9, '$ACADVER'], [1, 'AC1015'],
+    [9, '$HANDSEED'], [5, handle()],
+    [9, '$INSUNITS'], [70, 4],
+    [9, '$MEASUREMENT'], [70, 1],
+    [9, '$LTSCALE'], [40, 1],
+    [9, '$EXTMIN'], [10, num(layout.bounds.minX * scale)], [20, num(layout.bounds.minY * scale)], [30, 0],
+    [9, '$EXTMAX'], [10, num(layout.bounds.maxX * scale)], [20, num(layout.bounds.maxY * scale)], [30, 0],
+    [0, 'ENDSEC'],
+  ];
+
+  const all: DxfPair[] = [
+    ...headerPairs,
+    [0, 'SECTION'], [2, 'CLASSES'], [0, 'ENDSEC'],
+    ...tablePairs,
+    [0, 'SECTION'], [2, 'BLOCKS'], ...blockPairs, [0, 'ENDSEC'],
+    [0, 'SECTION'], [2, 'ENTITIES'], ...entityPairs, [0, 'ENDSEC'],
+    [0, 'SECTION'], [2, 'OBJECTS'], ...objectPairs, [0, 'ENDSEC'],
+    [0, 'EOF'],
+  ];
+
+  return all.map(([code, value]) => `${code}\n${value}`).join('\n') + '\n';
+}
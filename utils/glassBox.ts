@@ -0,0 +1,180 @@
+import * as THREE from 'three';
+import { ProjectionSystem } from '../types';
+import { ViewBasis, ViewPlane, VIEW_BASES, createViewBasis } from './viewProjection';
+
+/**
+ * 玻璃盒投影面定义
+ * 每个投影面由坐标系（朝向）、折叠时的位置、展开铰链与标签描述。
+ * 投影面组织成树：基本视图铰接在 V 面上，后视图铰接在主视图右侧的侧视图上，
+ * 辅助投影面铰接在其所垂直的投影面上；展开时子面先转到与父面共面，再随父面一起展开
+ */
+
+// 展开铰链
+export interface ViewPlaneHinge {
+  point: THREE.Vector3;  // 铰链轴线上一点（父面局部空间，即折叠状态的世界坐标）
+  axis: THREE.Vector3;   // 铰链轴线方向（单位向量）
+  angle: number;         // 展开时绕轴转过的角度（弧度）
+}
+
+// 投影面定义
+export interface ViewPlaneDefinition {
+  id: string;                     // 投影面标识（V、H、W、R、B、K 或辅助面如 V1）
+  basis: ViewBasis;               // 投射方向与面内坐标系
+  label: string;                  // 显示名称
+  center: THREE.Vector3;          // 折叠时平面中心
+  quaternion: THREE.Quaternion;   // 平面局部坐标系朝向（局部 x=uAxis、y=vAxis、z=-direction）
+  outward: THREE.Vector3;         // 折叠时炸开的方向（远离物体）
+  parent?: string;                // 铰接的父投影面
+  hinge?: ViewPlaneHinge;         // 与父投影面的铰链（V 面没有）
+  labelPosition: [number, number, number];  // 标签在平面局部坐标中的位置
+  labelRotation: number;          // 标签绕局部 z 轴的旋转，使展开后文字保持正立
+}
+
+// 投影面（玻璃盒）边长
+export const BOX_SIZE = 5;
+
+// 辅助投影面设置
+export interface AuxiliaryPlaneSpec {
+  id: string;           // 标识，如 V1、H1
+  parent: string;       // 所垂直的投影面
+  basis: ViewBasis;     // 辅助面坐标系（投射方向须平行于父面）
+  label: string;
+}
+
+// 各投影体系下的视图名称
+export const VIEW_LABELS: Record<ProjectionSystem, Record<ViewPlane, string>> = {
+  'first-angle': {
+    V: 'V (主视图)', H: 'H (俯视图)', W: 'W (左视图)',
+    R: 'R (右视图)', B: 'B (仰视图)', K: 'K (后视图)',
+  },
+  'third-angle': {
+    V: 'V (前视图 Front)', H: 'H (顶视图 Top)', W: 'W (左视图 Left)',
+    R: 'R (右视图 Right)', B: 'B (底视图 Bottom)', K: 'K (后视图 Rear)',
+  },
+};
+
+/**
+ * 构造垂直于基本投影面的辅助投影面坐标系
+ * 垂直于 H 面时投射方向为水平方向，angle=0 与 V 面重合、angle=90° 与 W 面重合；
+ * 垂直于 V 面时投射方向在正平面内，angle=0 与 H 面重合、angle=90° 与 W 面重合
+ * @param parent 所垂直的投影面
+ * @param angle 辅助面相对起始位置的转角（度）
+ * @returns 辅助投影面坐标系
+ */
+export function createAuxiliaryBasis(parent: 'V' | 'H', angle: number): ViewBasis {
+  const phi = THREE.MathUtils.degToRad(angle);
+  if (parent === 'H') {
+    return createViewBasis(new THREE.Vector3(Math.sin(phi), 0, -Math.cos(phi)), new THREE.Vector3(0, 1, 0));
+  }
+  return createViewBasis(new THREE.Vector3(Math.sin(phi), -Math.cos(phi), 0), new THREE.Vector3(0, 0, -1));
+}
+
+// 平面局部坐标系朝向
+const basisQuaternion = (basis: ViewBasis) => {
+  const normal = basis.direction.clone().negate();
+  const matrix = new THREE.Matrix4().makeBasis(basis.uAxis, basis.vAxis, normal);
+  return new THREE.Quaternion().setFromRotationMatrix(matrix);
+};
+
+/**
+ * 计算两投影面的铰链
+ * 铰链为两平面的交线，展开角为子面法向转到父面法向所需的角度
+ * @param child 子投影面
+ * @param parent 父投影面
+ * @returns 铰链，两面平行时返回 null
+ */
+function computeHinge(
+  child: { basis: ViewBasis; center: THREE.Vector3 },
+  parent: { basis: ViewBasis; center: THREE.Vector3 }
+): ViewPlaneHinge | null {
+  const n1 = child.basis.direction.clone().negate();
+  const n2 = parent.basis.direction.clone().negate();
+  const axis = new THREE.Vector3().crossVectors(n1, n2);
+  const sin = axis.length();
+  if (sin < 1e-6) return null;
+  axis.normalize();
+
+  // 两平面 n1·x = d1、n2·x = d2 的交线上离原点最近的点
+  const d1 = n1.dot(child.center);
+  const d2 = n2.dot(parent.center);
+  const cos = n1.dot(n2);
+  const det = 1 - cos * cos;
+  const point = n1.clone().multiplyScalar((d1 - d2 * cos) / det)
+    .add(n2.clone().multiplyScalar((d2 - d1 * cos) / det));
+
+  return { point, axis, angle: Math.atan2(sin, cos) };
+}
+
+/**
+ * 生成玻璃盒的投影面定义
+ * 第一角画法投影面位于物体之后（沿投射方向），第三角画法位于观察者与物体之间
+ * @param system 投影体系
+ * @param views 启用的基本视图（V 面总是包含）
+ * @param boxSize 投影面边长
+ * @param auxiliary 辅助投影面，按换面顺序排列（后一个面可铰接在前一个面上）
+ * @returns 按父子顺序排列的投影面定义
+ */
+export function createViewPlaneDefinitions(
+  system: ProjectionSystem,
+  views: ViewPlane[],
+  boxSize: number,
+  auxiliary: AuxiliaryPlaneSpec[] = []
+): ViewPlaneDefinition[] {
+  const side = system === 'third-angle' ? -1 : 1;
+  const labels = VIEW_LABELS[system];
+  // 后视图铰接在主视图右侧的侧视图上（第一角为左视图，第三角为右视图）
+  const rightSideView: ViewPlane = system === 'third-angle' ? 'R' : 'W';
+  const parents: Partial<Record<ViewPlane, ViewPlane>> = { H: 'V', W: 'V', R: 'V', B: 'V', K: rightSideView };
+
+  const specs: { id: string; basis: ViewBasis; label: string; parent?: string }[] = [];
+  const order: ViewPlane[] = ['V', 'H', 'W', 'R', 'B', 'K'];
+  order.forEach(id => {
+    if (id !== 'V' && !views.includes(id)) return;
+    if (id === 'K' && !views.includes(rightSideView)) return;
+    specs.push({ id, basis: VIEW_BASES[id], label: labels[id], parent: parents[id] });
+  });
+  auxiliary.forEach(spec => {
+    if (specs.some(s => s.id === spec.parent)) specs.push(spec);
+  });
+
+  const result: ViewPlaneDefinition[] = [];
+  const unfoldRotations = new Map<string, THREE.Quaternion>();
+
+  specs.forEach(spec => {
+    const outward = spec.basis.direction.clone().multiplyScalar(side);
+    const center = outward.clone().multiplyScalar(boxSize / 2);
+    const quaternion = basisQuaternion(spec.basis);
+
+    const parentDef = spec.parent ? result.find(d => d.id === spec.parent) : undefined;
+    const hinge = parentDef ? computeHinge({ basis: spec.basis, center }, parentDef) ?? undefined : undefined;
+
+    // 展开后的整体旋转 = 父面展开旋转 × 自身绕铰链的旋转
+    const unfold = (parentDef && unfoldRotations.get(parentDef.id)?.clone()) || new THREE.Quaternion();
+    if (hinge) unfold.multiply(new THREE.Quaternion().setFromAxisAngle(hinge.axis, hinge.angle));
+    unfoldRotations.set(spec.id, unfold);
+
+    // 展开后世界 +Y 在平面局部坐标中的方向，标签沿此方向放在面内上边缘
+    const up = new THREE.Vector3(0, 1, 0)
+      .applyQuaternion(unfold.clone().invert())
+      .applyQuaternion(quaternion.clone().invert());
+    const upLength = Math.hypot(up.x, up.y);
+    const upX = upLength > 1e-6 ? up.x / upLength : 0;
+    const upY = upLength > 1e-6 ? up.y / upLength : 1;
+    const labelOffset = boxSize / 2 - 0.3;
+
+    result.push({
+      id: spec.id,
+      basis: spec.basis,
+      label: spec.label,
+      center,
+      quaternion,
+      outward: outward.normalize(),
+      parent: parentDef ? spec.parent : undefined,
+      hinge,
+      labelPosition: [upX * labelOffset, upY * labelOffset, 0.1],
+      labelRotation: Math.atan2(-upX, upY),
+    });
+  });
+
+  return result;
+}
@@ -0,0 +1,438 @@
+import * as THREE from 'three';
+import { buildMeshTopology, extractFeatureEdges, MeshTopology } from './meshTopology';
+import { extractSilhouettes } from './silhouette';
+import { ViewTarget, resolveViewBasis, projectPointToView, viewDepth } from './viewProjection';
+
+/**
+ * 消隐投影引擎
+ * 对任意几何体的特征棱线做遮挡测试，生成投影面上的可见线（实线）与不可见线（虚线）
+ */
+
+// 投影面上的2D折线
+export type Polyline2D = [number, number][];
+
+// 投影线结果接口
+export interface ProjectedLines {
+  visible: Polyline2D[];  // 可见轮廓线（粗实线）
+  hidden: Polyline2D[];   // 不可见轮廓线（虚线）
+  center: Polyline2D[];   // 中心线/轴线（点画线）
+}
+
+// 回转轴（用于生成中心线）
+export interface RevolutionAxis {
+  center: THREE.Vector3;     // 轴线中点
+  direction: THREE.Vector3;  // 轴线方向（单位向量）
+  halfLength: number;        // 轴线半长
+  radius: number;            // 回转半径（轴线积聚为点时画十字中心线）
+}
+
+// 投影计算选项
+export interface HiddenLineOptions {
+  featureAngle?: number;      // 特征棱线的二面角阈值（度）
+  sampleStep?: number;        // 沿棱线的采样步长
+  silhouettes?: boolean;      // 是否提取曲面轮廓线
+  axes?: RevolutionAxis[];    // 回转轴（生成中心线）
+}
+
+// 2D线段
+type Segment2D = [[number, number], [number, number]];
+
+/**
+ * 创建遮挡测试器
+ * 将所有三角形投影到投影面，按均匀网格分桶；
+ * 测试点时只检查所在网格中的三角形，判断是否有更靠近观察者的面覆盖该点
+ * @param topology 网格拓扑
+ * @param plane 投影面
+ * @returns 判断3D点是否被遮挡的函数
+ */
+export function createOcclusionTester(
+  topology: MeshTopology,
+  plane: ViewTarget
+): (point: THREE.Vector3) => boolean {
+  const { vertices, triangles } = topology;
+
+  const proj = vertices.map(v => projectPointToView(v, plane));
+  const depth = vertices.map(v => viewDepth(v, plane));
+
+  let minU = Infinity, minV = Infinity, maxU = -Infinity, maxV = -Infinity;
+  let minD = Infinity, maxD = -Infinity;
+  proj.forEach(([u, v], i) => {
+    minU = Math.min(minU, u); maxU = Math.max(maxU, u);
+    minV = Math.min(minV, v); maxV = Math.max(maxV, v);
+    minD = Math.min(minD, depth[i]); maxD = Math.max(maxD, depth[i]);
+  });
+
+  const extent = Math.max(maxU - minU, maxV - minV, maxD - minD, 1e-6);
+  const depthEps = extent * 1e-4;
+  const baryEps = 1e-6;
+
+  // 均匀网格加速
+  const gridSize = Math.max(8, Math.min(64, Math.ceil(Math.sqrt(triangles.length))));
+  const cellU = Math.max(maxU - minU, 1e-6) / gridSize;
+  const cellV = Math.max(maxV - minV, 1e-6) / gridSize;
+  const cells: number[][] = Array.from({ length: gridSize * gridSize }, () => []);
+
+  const cellIndex = (u: number, v: number): [number, number] => [
+    Math.min(gridSize - 1, Math.max(0, Math.floor((u - minU) / cellU))),
+    Math.min(gridSize - 1, Math.max(0, Math.floor((v - minV) / cellV))),
+  ];
+
+  // 预计算每个三角形的投影数据
+  const triData = triangles.map(([a, b, c], t) => {
+    const [ax, ay] = proj[a];
+    const [bx, by] = proj[b];
+    const [cx, cy] = proj[c];
+    const area = (bx - ax) * (cy - ay) - (cx - ax) * (by - ay);
+
+    // 侧立（投影退化为线）的三角形不会遮挡任何点
+    if (Math.abs(area) > 1e-12) {
+      const [i0, j0] = cellIndex(Math.min(ax, bx, cx), Math.min(ay, by, cy));
+      const [i1, j1] = cellIndex(Math.max(ax, bx, cx), Math.max(ay, by, cy));
+      for (let i = i0; i <= i1; i++) {
+        for (let j = j0; j <= j1; j++) {
+          cells[j * gridSize + i].push(t);
+        }
+      }
+    }
+
+    return {
+      a, b, c, area,
+      maxDepth: Math.max(depth[a], depth[b], depth[c]),
+    };
+  });
+
+  return (point: THREE.Vector3) => {
+    const [pu, pv] = projectPointToView(point, plane);
+    const pd = viewDepth(point, plane);
+    if (pu < minU || pu > maxU || pv < minV || pv > maxV) return false;
+
+    const [i, j] = cellIndex(pu, pv);
+    for (const t of cells[j * gridSize + i]) {
+      const tri = triData[t];
+      if (tri.maxDepth <= pd + depthEps) continue;
+
+      const [ax, ay] = proj[tri.a];
+      const [bx, by] = proj[tri.b];
+      const [cx, cy] = proj[tri.c];
+
+      // 重心坐标
+      const w1 = ((pu - ax) * (cy - ay) - (cx - ax) * (pv - ay)) / tri.area;
+      const w2 = ((bx - ax) * (pv - ay) - (pu - ax) * (by - ay)) / tri.area;
+      const w0 = 1 - w1 - w2;
+      if (w0 < -baryEps || w1 < -baryEps || w2 < -baryEps) continue;
+
+      const d = w0 * depth[tri.a] + w1 * depth[tri.b] + w2 * depth[tri.c];
+      if (d > pd + depthEps) return true;
+    }
+    return false;
+  };
+}
+
+/**
+ * 对一条3D线段做遮挡分段
+ * 沿线段采样，在可见性变化处用二分法细化分界点
+ * @returns 各分段的参数区间与可见性
+ */
+export function classifySegment(
+  start: THREE.Vector3,
+  end: THREE.Vector3,
+  isOccluded: (point: THREE.Vector3) => boolean,
+  sampleStep: number
+): { t0: number; t1: number; hidden: boolean }[] {
+  const length = start.distanceTo(end);
+  const samples = Math.max(2, Math.min(200, Math.ceil(length / sampleStep)));
+  const point = new THREE.Vector3();
+  const test = (t: number) => isOccluded(point.lerpVectors(start, end, t));
+
+  const runs: { t0: number; t1: number; hidden: boolean }[] = [];
+  let runStart = 0;
+  let prevT = 0;
+  let prevHidden = test(0);
+
+  for (let i = 1; i <= samples; i++) {
+    const t = i / samples;
+    const hidden = test(t);
+    if (hidden !== prevHidden) {
+      // 二分查找可见性分界点
+      let lo = prevT;
+      let hi = t;
+      for (let k = 0; k < 12; k++) {
+        const mid = (lo + hi) / 2;
+        if (test(mid) === prevHidden) lo = mid;
+        else hi = mid;
+      }
+      const boundary = (lo + hi) / 2;
+      runs.push({ t0: runStart, t1: boundary, hidden: prevHidden });
+      runStart = boundary;
+      prevHidden = hidden;
+    }
+    prevT = t;
+  }
+  runs.push({ t0: runStart, t1: 1, hidden: prevHidden });
+
+  // 丢弃采样噪声造成的极短分段
+  return runs.filter(r => (r.t1 - r.t0) * length > 1e-4);
+}
+
+/**
+ * 计算几何体在指定投影面上的消隐投影
+ * @param geometry 几何体
+ * @param plane 投影面
+ * @param options 计算选项
+ * @returns 可见线与不可见线
+ */
+export function computeProjectedLines(
+  geometry: THREE.BufferGeometry,
+  plane: ViewTarget,
+  options: HiddenLineOptions = {}
+): ProjectedLines {
+  const { featureAngle = 15, sampleStep = 0.04, silhouettes = true, axes = [] } = options;
+
+  const topology = buildMeshTopology(geometry);
+  const edges = extractFeatureEdges(topology, featureAngle);
+
+  // 曲面的转向轮廓线随投射方向变化
+  if (silhouettes) {
+    for (const curve of extractSilhouettes(topology, resolveViewBasis(plane).direction, featureAngle)) {
+      const count = curve.isClosed ? curve.points.length : curve.points.length - 1;
+      for (let i = 0; i < count; i++) {
+        edges.push([curve.points[i], curve.points[(i + 1) % curve.points.length]]);
+      }
+    }
+  }
+
+  return {
+    ...projectEdgesWithVisibility(topology, edges, plane, sampleStep),
+    center: computeCenterLines(axes, plane),
+  };
+}
+
+/**
+ * 计算回转轴在投影面上的中心线
+ * 轴线平行于投影面时画一条点画线；垂直于投影面时画十字中心线
+ * @param axes 回转轴
+ * @param plane 投影面
+ * @param extension 中心线超出轮廓的长度
+ */
+export function computeCenterLines(
+  axes: RevolutionAxis[],
+  plane: ViewTarget,
+  extension: number = 0.2
+): Polyline2D[] {
+  const { uAxis, vAxis } = resolveViewBasis(plane);
+  const segments: Segment2D[] = [];
+
+  for (const axis of axes) {
+    const [cu, cv] = projectPointToView(axis.center, plane);
+    const du = axis.direction.dot(uAxis);
+    const dv = axis.direction.dot(vAxis);
+    const projectedLength = Math.hypot(du, dv);
+
+    if (projectedLength > 1e-3) {
+      const half = axis.halfLength * projectedLength + extension;
+      const ux = du / projectedLength;
+      const uy = dv / projectedLength;
+      segments.push([[cu - ux * half, cv - uy * half], [cu + ux * half, cv + uy * half]]);
+    } else {
+      const half = axis.radius + extension;
+      segments.push([[cu - half, cv], [cu + half, cv]]);
+      segments.push([[cu, cv - half], [cu, cv + half]]);
+    }
+  }
+
+  return chainSegments(mergeCollinearSegments(segments));
+}
+
+/**
+ * 将给定的3D线段集合按可见性投影到投影面
+ * 被实线覆盖（共线重合）的虚线段按制图规范省略
+ */
+export function projectEdgesWithVisibility(
+  topology: MeshTopology,
+  edges: [THREE.Vector3, THREE.Vector3][],
+  plane: ViewTarget,
+  sampleStep: number = 0.04
+): Omit<ProjectedLines, 'center'> {
+  const isOccluded = createOcclusionTester(topology, plane);
+
+  const visibleSegments: Segment2D[] = [];
+  const hiddenSegments: Segment2D[] = [];
+  const p0 = new THREE.Vector3();
+  const p1 = new THREE.Vector3();
+
+  for (const [start, end] of edges) {
+    const a2 = projectPointToView(start, plane);
+    const b2 = projectPointToView(end, plane);
+
+    // 垂直于投影面的棱线积聚为一点
+    if (Math.hypot(b2[0] - a2[0], b2[1] - a2[1]) < 1e-6) continue;
+
+    for (const run of classifySegment(start, end, isOccluded, sampleStep)) {
+      p0.lerpVectors(start, end, run.t0);
+      p1.lerpVectors(start, end, run.t1);
+      const seg: Segment2D = [projectPointToView(p0, plane), projectPointToView(p1, plane)];
+      (run.hidden ? hiddenSegments : visibleSegments).push(seg);
+    }
+  }
+
+  const hiddenRemaining = hiddenSegments.flatMap(seg => subtractCovered(seg, visibleSegments, sampleStep));
+
+  return {
+    visible: chainSegments(mergeCollinearSegments(visibleSegments)),
+    hidden: chainSegments(mergeCollinearSegments(hiddenRemaining)),
+  };
+}
+
+/**
+ * 合并共线且相互重叠的线段
+ * 例如圆柱底圆在 V 面积聚成的直线，以及前后重合的棱线
+ */
+export function mergeCollinearSegments(segments: Segment2D[], tolerance: number = 1e-4): Segment2D[] {
+  const groups = new Map<string, { dx: number; dy: number; offset: number; spans: [number, number][] }>();
+
+  for (const [[ax, ay], [bx, by]] of segments) {
+    const len = Math.hypot(bx - ax, by - ay);
+    if (len < 1e-9) continue;
+    let dx = (bx - ax) / len;
+    let dy = (by - ay) / len;
+    // 方向规范化到半圆内，使同一直线上的线段方向一致
+    if (dx < -1e-9 || (Math.abs(dx) <= 1e-9 && dy < 0)) {
+      dx = -dx;
+      dy = -dy;
+    }
+    const offset = dx * ay - dy * ax;
+    const key = `${Math.round(Math.atan2(dy, dx) / tolerance)},${Math.round(offset / tolerance)}`;
+
+    if (!groups.has(key)) groups.set(key, { dx, dy, offset, spans: [] });
+    const s0 = ax * dx + ay * dy;
+    const s1 = bx * dx + by * dy;
+    groups.get(key)!.spans.push([Math.min(s0, s1), Math.max(s0, s1)]);
+  }
+
+  const result: Segment2D[] = [];
+  groups.forEach(({ dx, dy, offset, spans }) => {
+    spans.sort((p, q) => p[0] - q[0]);
+    // 直线上的点 = s * d + offset * n，其中 n = (-dy, dx)
+    const toPoint = (s: number): [number, number] => [s * dx - offset * dy, s * dy + offset * dx];
+    let [cur0, cur1] = spans[0];
+    for (let i = 1; i < spans.length; i++) {
+      const [s0, s1] = spans[i];
+      if (s0 <= cur1 + tolerance) {
+        cur1 = Math.max(cur1, s1);
+      } else {
+        result.push([toPoint(cur0), toPoint(cur1)]);
+        [cur0, cur1] = [s0, s1];
+      }
+    }
+    result.push([toPoint(cur0), toPoint(cur1)]);
+  });
+
+  return result;
+}
+
+/**
+ * 从线段中去除与可见线共线重合的部分
+ */
+function subtractCovered(seg: Segment2D, covers: Segment2D[], sampleStep: number): Segment2D[] {
+  const [[ax, ay], [bx, by]] = seg;
+  const len = Math.hypot(bx - ax, by - ay);
+  if (len < 1e-9) return [];
+  const dx = (bx - ax) / len;
+  const dy = (by - ay) / len;
+  const tol = 1e-3;
+
+  // 只保留与该线段共线的候选覆盖线段
+  const candidates = covers.filter(([[cx, cy], [ex, ey]]) => {
+    const clen = Math.hypot(ex - cx, ey - cy);
+    if (clen < 1e-9) return false;
+    const cross = Math.abs(dx * (ey - cy) - dy * (ex - cx)) / clen;
+    const offset = Math.abs(dx * (cy - ay) - dy * (cx - ax));
+    return cross < 1e-3 && offset < tol;
+  });
+  if (candidates.length === 0) return [seg];
+
+  // 将覆盖区间投影到线段参数上并求并集
+  const intervals = candidates
+    .map(([[cx, cy], [ex, ey]]) => {
+      const s0 = ((cx - ax) * dx + (cy - ay) * dy) / len;
+      const s1 = ((ex - ax) * dx + (ey - ay) * dy) / len;
+      return [Math.min(s0, s1), Math.max(s0, s1)] as [number, number];
+    })
+    .sort((p, q) => p[0] - q[0]);
+
+  const result: Segment2D[] = [];
+  const minLen = Math.min(sampleStep, len) * 0.25 / len;
+  let cursor = 0;
+  for (const [s0, s1] of intervals) {
+    if (s0 - cursor > minLen) {
+      result.push([
+        [ax + (bx - ax) * cursor, ay + (by - ay) * cursor],
+        [ax + (bx - ax) * Math.min(s0, 1), ay + (by - ay) * Math.min(s0, 1)],
+      ]);
+    }
+    cursor = Math.max(cursor, s1);
+    if (cursor >= 1) break;
+  }
+  if (1 - cursor > minLen) {
+    result.push([
+      [ax + (bx - ax) * cursor, ay + (by - ay) * cursor],
+      [bx, by],
+    ]);
+  }
+  return result;
+}
+
+/**
+ * 将首尾相接的2D线段串联成折线
+ * @param segments 线段集合
+ * @param tolerance 端点合并容差
+ * @returns 折线集合
+ */
+export function chainSegments(segments: Segment2D[], tolerance: number = 1e-4): Polyline2D[] {
+  if (segments.length === 0) return [];
+
+  const pointKey = ([x, y]: [number, number]) =>
+    `${Math.round(x / tolerance)},${Math.round(y / tolerance)}`;
+
+  const pointToSegments = new Map<string, number[]>();
+  segments.forEach(([a, b], idx) => {
+    for (const key of [pointKey(a), pointKey(b)]) {
+      if (!pointToSegments.has(key)) pointToSegments.set(key, []);
+      pointToSegments.get(key)!.push(idx);
+    }
+  });
+
+  const used = new Set<number>();
+  const polylines: Polyline2D[] = [];
+
+  // 沿端点追踪相邻线段
+  const extend = (line: Polyline2D, atEnd: boolean) => {
+    let found = true;
+    while (found) {
+      found = false;
+      const tip = atEnd ? line[line.length - 1] : line[0];
+      const tipKey = pointKey(tip);
+      for (const idx of pointToSegments.get(tipKey) || []) {
+        if (used.has(idx)) continue;
+        const [a, b] = segments[idx];
+        const next = pointKey(a) === tipKey ? b : a;
+        used.add(idx);
+        if (atEnd) line.push(next);
+        else line.unshift(next);
+        found = true;
+        break;
+      }
+    }
+  };
+
+  segments.forEach(([a, b], idx) => {
+    if (used.has(idx)) return;
+    used.add(idx);
+    const line: Polyline2D = [a, b];
+    extend(line, true);
+    extend(line, false);
+    polylines.push(line);
+  });
+
+  return polylines;
+}
@@ -0,0 +1,304 @@
+import * as THREE from 'three';
+import { Evaluator, Brush, ADDITION } from 'three-bvh-csg';
+import { GeometryParams, IntersectionKind, IntersectionSettings } from '../types';
+import { RevolutionAxis } from './hiddenLine';
+
+/**
+ * 相贯回转体
+ * 主体（圆柱、圆锥或球）与圆柱支管相贯。主体表面写成隐式二次方程，
+ * 支管表面上的每条素线与主体表面的交点由二次方程解出，相邻素线的交点依次连接即为相贯线
+ */
+
+// 相贯回转体的缺省设置
+export const DEFAULT_INTERSECTION_SETTINGS: IntersectionSettings = {
+  kind: 'cylinder-cylinder',
+  radiusRatio: 0.6,
+  offset: 0,
+  through: false,
+};
+
+// 相贯组合名称
+export const INTERSECTION_KIND_LABELS: Record<IntersectionKind, string> = {
+  'cylinder-cylinder': '圆柱-圆柱',
+  'cylinder-cone': '圆柱-圆锥',
+  'cylinder-sphere': '圆柱-球',
+};
+
+// 主体：轴线平行于坐标轴的二次曲面 ax·x² + ay·y² + az·z² + 2(b·p) + c = 0
+interface MainBody {
+  kind: 'cylinder' | 'cone' | 'sphere';
+  radius: number;                 // 圆柱、球的半径；圆锥的底圆半径
+  halfLength: number;             // 圆柱的半长（沿 X 轴）；圆锥的半高（沿 Y 轴）；球为半径
+  quadratic: THREE.Vector3;       // 二次项系数 (ax, ay, az)
+  linear: THREE.Vector3;          // 一次项系数 b
+  constant: number;               // 常数项 c
+  contains: (point: THREE.Vector3) => boolean;  // 点是否在曲面的有效范围内（圆柱长度、圆锥的一叶）
+}
+
+// 支管：圆柱，表面点为 center + r(cosθ·u + sinθ·w) + t·axis
+interface BranchCylinder {
+  center: THREE.Vector3;
+  axis: THREE.Vector3;
+  u: THREE.Vector3;
+  w: THREE.Vector3;
+  radius: number;
+  tMin: number;
+  tMax: number;
+}
+
+// 相贯的两个立体
+export interface IntersectionBodies {
+  settings: IntersectionSettings;
+  main: MainBody;
+  branch: BranchCylinder;
+}
+
+// 相贯线（3D 折线）
+export interface IntersectionCurve {
+  points: THREE.Vector3[];
+  isClosed: boolean;
+}
+
+/**
+ * 由尺寸参数确定相贯的两个立体
+ * 圆柱主体轴线沿 X，支管铅垂；圆锥主体轴线铅垂，支管沿 X 水平穿过圆锥下部；
+ * 球主体的支管铅垂。偏距均沿 Z（前后）方向，使偏交在主视图中反映
+ * @param params 尺寸参数（params.intersection 缺省时使用缺省设置）
+ * @returns 主体与支管
+ */
+export function createIntersectionBodies(params: GeometryParams): IntersectionBodies {
+  const settings = params.intersection ?? DEFAULT_INTERSECTION_SETTINGS;
+  const { width, height, depth } = params;
+  const R = Math.min(width, height) * 0.35;
+
+  let main: MainBody;
+  let branch: BranchCylinder;
+  const vertical = { axis: new THREE.Vector3(0, 1, 0), u: new THREE.Vector3(1, 0, 0), w: new THREE.Vector3(0, 0, 1) };
+
+  if (settings.kind === 'cylinder-cone') {
+    const H = height;
+    const Rc = Math.min(width, height) * 0.45;
+    const apex = H / 2;
+    const k2 = (Rc / H) * (Rc / H);
+    main = {
+      kind: 'cone',
+      radius: Rc,
+      halfLength: H / 2,
+      quadratic: new THREE.Vector3(1, -k2, 1),
+      linear: new THREE.Vector3(0, k2 * apex, 0),
+      constant: -k2 * apex * apex,
+      contains: p => p.y >= -H / 2 - 1e-9 && p.y <= apex + 1e-9,
+    };
+    // 支管轴线高度处圆锥的半径作为主体半径
+    const axisY = -H / 6;
+    const rho = Rc * (apex - axisY) / H;
+    const length = Rc + depth * 0.5;
+    branch = {
+      center: new THREE.Vector3(0, axisY, settings.offset * rho),
+      axis: new THREE.Vector3(1, 0, 0),
+      u: new THREE.Vector3(0, 1, 0),
+      w: new THREE.Vector3(0, 0, 1),
+      radius: settings.radiusRatio * rho,
+      tMin: settings.through ? -length : 0,
+      tMax: length,
+    };
+  } else {
+    const halfLength = width * 0.8;
+    main = settings.kind === 'cylinder-sphere' ? {
+      kind: 'sphere',
+      radius: R,
+      halfLength: R,
+      quadratic: new THREE.Vector3(1, 1, 1),
+      linear: new THREE.Vector3(),
+      constant: -R * R,
+      contains: () => true,
+    } : {
+      kind: 'cylinder',
+      radius: R,
+      halfLength,
+      quadratic: new THREE.Vector3(0, 1, 1),
+      linear: new THREE.Vector3(),
+      constant: -R * R,
+      contains: p => Math.abs(p.x) <= halfLength + 1e-9,
+    };
+    const length = R + depth * 0.5;
+    branch = {
+      center: new THREE.Vector3(0, 0, settings.offset * R),
+      ...vertical,
+      radius: settings.radiusRatio * R,
+      tMin: settings.through ? -length : 0,
+      tMax: length,
+    };
+  }
+
+  return { settings, main, branch };
+}
+
+/**
+ * 生成相贯体的网格（主体与支管的并集）
+ * @param bodies 相贯的两个立体
+ * @param segments 回转面的分段数
+ * @returns 合并后的几何体
+ */
+export function createIntersectionGeometry(bodies: IntersectionBodies, segments: number = 64): THREE.BufferGeometry {
+  const { main, branch } = bodies;
+
+  let mainGeometry: THREE.BufferGeometry;
+  if (main.kind === 'cone') {
+    mainGeometry = new THREE.ConeGeometry(main.radius, main.halfLength * 2, segments);
+  } else if (main.kind === 'sphere') {
+    mainGeometry = new THREE.SphereGeometry(main.radius, segments, segments / 2);
+  } else {
+    mainGeometry = new THREE.CylinderGeometry(main.radius, main.radius, main.halfLength * 2, segments);
+    mainGeometry.rotateZ(Math.PI / 2);
+  }
+
+  const branchGeometry = new THREE.CylinderGeometry(branch.radius, branch.radius, branch.tMax - branch.tMin, segments);
+  branchGeometry.applyQuaternion(new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0, 1, 0), branch.axis));
+  const branchCenter = branch.center.clone().addScaledVector(branch.axis, (branch.tMin + branch.tMax) / 2);
+  branchGeometry.translate(branchCenter.x, branchCenter.y, branchCenter.z);
+
+  const evaluator = new Evaluator();
+  evaluator.attributes = ['position', 'normal'];
+  const result = evaluator.evaluate(new Brush(mainGeometry), new Brush(branchGeometry), ADDITION);
+
+  mainGeometry.dispose();
+  branchGeometry.dispose();
+
+  const geometry = result.geometry;
+  geometry.clearGroups();
+  geometry.computeBoundingSphere();
+  return geometry;
+}
+
+/**
+ * 求支管的一条素线与主体表面的交点
+ * 把素线 p(t) = base + t·axis 代入主体的二次方程得到关于 t 的二次方程
+ * @returns 有效范围内的交点参数（升序），相切时为重根
+ */
+const solveGeneratrix = (main: MainBody, branch: BranchCylinder, base: THREE.Vector3): number[] => {
+  const { quadratic: q, linear: b, constant: c } = main;
+  const d = branch.axis;
+  const A = q.x * d.x * d.x + q.y * d.y * d.y + q.z * d.z * d.z;
+  const B = 2 * (q.x * base.x * d.x + q.y * base.y * d.y + q.z * base.z * d.z + b.dot(d));
+  const C = q.x * base.x * base.x + q.y * base.y * base.y + q.z * base.z * base.z + 2 * b.dot(base) + c;
+
+  let roots: number[];
+  if (Math.abs(A) < 1e-12) {
+    roots = Math.abs(B) < 1e-12 ? [] : [-C / B];
+  } else {
+    let disc = B * B - 4 * A * C;
+    // 相切（如等径正交圆柱的最前、最后素线）时判别式因舍入略小于零
+    if (disc < 0 && disc > -1e-9 * Math.max(1, B * B)) disc = 0;
+    if (disc < 0) return [];
+    const s = Math.sqrt(disc);
+    roots = [(-B - s) / (2 * A), (-B + s) / (2 * A)];
+  }
+
+  return roots
+    .filter(t => t >= branch.tMin - 1e-9 && t <= branch.tMax + 1e-9)
+    .filter(t => main.contains(base.clone().addScaledVector(d, t)))
+    .sort((x, y) => x - y);
+};
+
+/**
+ * 计算相贯线
+ * 沿支管圆周取素线求交点；相邻素线交点个数相同时按顺序连接，
+ * 个数减少两个时（互贯时素线与主体相切处）把相距最近的一对交点连起来，使相贯线闭合
+ * @param bodies 相贯的两个立体
+ * @param samples 支管圆周的素线数
+ * @returns 相贯线（闭合或不闭合的折线）
+ */
+export function computeIntersectionCurves(bodies: IntersectionBodies, samples: number = 256): IntersectionCurve[] {
+  const { main, branch } = bodies;
+
+  // 各素线上的交点
+  const points: THREE.Vector3[] = [];
+  const rings: { t: number; id: number }[][] = [];
+  for (let k = 0; k < samples; k++) {
+    const theta = (k / samples) * Math.PI * 2;
+    const base = branch.center.clone()
+      .addScaledVector(branch.u, branch.radius * Math.cos(theta))
+      .addScaledVector(branch.w, branch.radius * Math.sin(theta));
+    rings.push(solveGeneratrix(main, branch, base).map(t => {
+      points.push(base.clone().addScaledVector(branch.axis, t));
+      return { t, id: points.length - 1 };
+    }));
+  }
+
+  // 连接相邻素线上的交点
+  const neighbors: number[][] = points.map(() => []);
+  const connect = (a: number, b: number) => {
+    neighbors[a].push(b);
+    neighbors[b].push(a);
+  };
+  // 交点多的一侧：逐对连接 t 值最接近的相邻交点，直到个数与另一侧相同
+  const closeExtra = (ring: { t: number; id: number }[], target: number) => {
+    const remaining = [...ring];
+    while (remaining.length >= target + 2) {
+      let best = 0;
+      for (let j = 1; j + 1 < remaining.length; j++) {
+        if (remaining[j + 1].t - remaining[j].t < remaining[best + 1].t - remaining[best].t) best = j;
+      }
+      connect(remaining[best].id, remaining[best + 1].id);
+      remaining.splice(best, 2);
+    }
+    return remaining;
+  };
+  for (let k = 0; k < samples; k++) {
+    let current = rings[k];
+    let next = rings[(k + 1) % samples];
+    if (current.length > next.length) current = closeExtra(current, next.length);
+    if (next.length > current.length) next = closeExtra(next, current.length);
+    for (let i = 0; i < Math.min(current.length, next.length); i++) connect(current[i].id, next[i].id);
+  }
+
+  // 沿连接关系串成折线（先从端点出发得到不闭合的折线，剩下的都是闭合回路）
+  const visited = new Array(points.length).fill(false);
+  const curves: IntersectionCurve[] = [];
+  const walk = (start: number): number[] => {
+    const chain = [start];
+    visited[start] = true;
+    let current = start;
+    for (;;) {
+      const next = neighbors[current].find(n => !visited[n]);
+      if (next === undefined) break;
+      visited[next] = true;
+      chain.push(next);
+      current = next;
+    }
+    return chain;
+  };
+  points.forEach((_, i) => {
+    if (!visited[i] && neighbors[i].length === 1) {
+      const chain = walk(i);
+      if (chain.length >= 2) curves.push({ points: chain.map(id => points[id]), isClosed: false });
+    }
+  });
+  points.forEach((_, i) => {
+    if (!visited[i] && neighbors[i].length > 0) {
+      const chain = walk(i);
+      if (chain.length >= 3) curves.push({ points: chain.map(id => points[id]), isClosed: true });
+    }
+  });
+
+  return curves;
+}
+
+/**
+ * 相贯体的回转轴（用于中心线）
+ * @param bodies 相贯的两个立体
+ */
+export function getIntersectionAxes(bodies: IntersectionBodies): RevolutionAxis[] {
+  const { main, branch } = bodies;
+  const mainAxis: RevolutionAxis = main.kind === 'cylinder'
+    ? { center: new THREE.Vector3(), direction: new THREE.Vector3(1, 0, 0), halfLength: main.halfLength, radius: main.radius }
+    : { center: new THREE.Vector3(), direction: new THREE.Vector3(0, 1, 0), halfLength: main.halfLength, radius: main.radius };
+  const branchAxis: RevolutionAxis = {
+    center: branch.center.clone().addScaledVector(branch.axis, (branch.tMin + branch.tMax) / 2),
+    direction: branch.axis.clone(),
+    halfLength: (branch.tMax - branch.tMin) / 2,
+    radius: branch.radius,
+  };
+  return [mainAxis, branchAxis];
+}
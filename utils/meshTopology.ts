@@ -0,0 +1,129 @@
+import * as THREE from 'three';
+
+/**
+ * 网格拓扑工具
+ * 将三角网格按坐标焊接顶点，建立"边-面"邻接关系，用于提取特征棱线与轮廓线
+ */
+
+// 网格中的一条边
+export interface MeshEdge {
+  a: number;        // 起点顶点索引（焊接后）
+  b: number;        // 终点顶点索引（焊接后）
+  faces: number[];  // 共享此边的三角形索引
+}
+
+// 网格拓扑结构
+export interface MeshTopology {
+  vertices: THREE.Vector3[];          // 焊接后的顶点
+  triangles: [number, number, number][]; // 三角形（顶点索引）
+  faceNormals: THREE.Vector3[];       // 每个三角形的单位法向量
+  edges: MeshEdge[];                  // 所有边
+}
+
+/**
+ * 构建网格拓扑
+ * @param geometry 几何体（索引或非索引均可）
+ * @param tolerance 顶点焊接容差
+ * @returns 拓扑结构
+ */
+export function buildMeshTopology(
+  geometry: THREE.BufferGeometry,
+  tolerance: number = 1e-5
+): MeshTopology {
+  const positions = geometry.getAttribute('position');
+  const indices = geometry.getIndex();
+
+  const vertices: THREE.Vector3[] = [];
+  const vertexMap = new Map<string, number>();
+  const remap: number[] = [];
+
+  // 焊接坐标相同的顶点（不同面的顶点在 BufferGeometry 中常被拆开存储）
+  for (let i = 0; i < positions.count; i++) {
+    const v = new THREE.Vector3().fromBufferAttribute(positions, i);
+    const key = `${Math.round(v.x / tolerance)},${Math.round(v.y / tolerance)},${Math.round(v.z / tolerance)}`;
+    let idx = vertexMap.get(key);
+    if (idx === undefined) {
+      idx = vertices.length;
+      vertices.push(v);
+      vertexMap.set(key, idx);
+    }
+    remap.push(idx);
+  }
+
+  const triangles: [number, number, number][] = [];
+  const faceNormals: THREE.Vector3[] = [];
+  const edges: MeshEdge[] = [];
+  const edgeMap = new Map<string, number>();
+
+  const cb = new THREE.Vector3();
+  const ab = new THREE.Vector3();
+
+  const addEdge = (a: number, b: number, face: number) => {
+    const key = a < b ? `${a}-${b}` : `${b}-${a}`;
+    const existing = edgeMap.get(key);
+    if (existing !== undefined) {
+      edges[existing].faces.push(face);
+    } else {
+      edgeMap.set(key, edges.length);
+      edges.push({ a, b, faces: [face] });
+    }
+  };
+
+  const triCount = indices ? indices.count / 3 : positions.count / 3;
+  for (let t = 0; t < triCount; t++) {
+    const i0 = indices ? indices.getX(t * 3) : t * 3;
+    const i1 = indices ? indices.getX(t * 3 + 1) : t * 3 + 1;
+    const i2 = indices ? indices.getX(t * 3 + 2) : t * 3 + 2;
+    const a = remap[i0];
+    const b = remap[i1];
+    const c = remap[i2];
+
+    // 跳过退化三角形
+    if (a === b || b === c || c === a) continue;
+
+    cb.subVectors(vertices[c], vertices[b]);
+    ab.subVectors(vertices[a], vertices[b]);
+    const normal = new THREE.Vector3().crossVectors(cb, ab);
+    if (normal.lengthSq() < 1e-20) continue;
+    normal.normalize();
+
+    const face = triangles.length;
+    triangles.push([a, b, c]);
+    faceNormals.push(normal);
+
+    addEdge(a, b, face);
+    addEdge(b, c, face);
+    addEdge(c, a, face);
+  }
+
+  return { vertices, triangles, faceNormals, edges };
+}
+
+/**
+ * 提取特征棱线
+ * 相邻两面法向夹角大于阈值的边，以及只属于一个面的边界边
+ * @param topology 网格拓扑
+ * @param thresholdAngle 角度阈值（度）
+ * @returns 特征棱线（3D线段）
+ */
+export function extractFeatureEdges(
+  topology: MeshTopology,
+  thresholdAngle: number = 15
+): [THREE.Vector3, THREE.Vector3][] {
+  const thresholdDot = Math.cos(THREE.MathUtils.degToRad(thresholdAngle));
+  const result: [THREE.Vector3, THREE.Vector3][] = [];
+
+  for (const edge of topology.edges) {
+    let isFeature = edge.faces.length !== 2;
+    if (!isFeature) {
+      const n1 = topology.faceNormals[edge.faces[0]];
+      const n2 = topology.faceNormals[edge.faces[1]];
+      isFeature = n1.dot(n2) <= thresholdDot;
+    }
+    if (isFeature) {
+      result.push([topology.vertices[edge.a], topology.vertices[edge.b]]);
+    }
+  }
+
+  return result;
+}
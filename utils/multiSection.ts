@@ -0,0 +1,194 @@
+import * as THREE from 'three';
+import { SectionLoop, SectionResult } from './sectionPlane';
+
+/**
+ * 多个截平面
+ * 立体被多个平面同时截切时，各截平面分别求截交线；
+ * 组合截切（各截平面共同围成被切去的部分，如圆柱开槽）时，
+ * 每个截平面上的断面只保留位于其它截平面切除一侧的部分，截平面之间的交线也限制在切口范围内
+ */
+
+// 截平面颜色（依次分配）
+export const SECTION_PLANE_COLORS = ['#ef4444', '#22c55e', '#3b82f6', '#a855f7', '#f59e0b'];
+
+// 单个截平面的求解输入
+export interface SectionPlaneInput {
+  id: string;
+  position: THREE.Vector3;  // 平面上的一点
+  normal: THREE.Vector3;    // 单位法向量（指向切除一侧）
+  result: SectionResult;    // 该平面单独截切的结果
+}
+
+// 两截平面之间的交线
+export interface PlaneIntersectionLine {
+  planes: [string, string];
+  segments: [THREE.Vector3, THREE.Vector3][];  // 位于立体内（及切口范围内）的线段
+}
+
+// 多截平面的组合结果
+export interface CombinedSection {
+  sections: { id: string; result: SectionResult }[];
+  intersections: PlaneIntersectionLine[];
+}
+
+// 点到平面的有向距离（法向一侧为正）
+const signedDistance = (point: THREE.Vector3, plane: SectionPlaneInput) =>
+  point.clone().sub(plane.position).dot(plane.normal);
+
+/**
+ * 用半空间裁剪闭合多边形（Sutherland-Hodgman），保留法向一侧
+ */
+const clipPolygon = (points: THREE.Vector3[], plane: SectionPlaneInput): THREE.Vector3[] => {
+  const result: THREE.Vector3[] = [];
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    const da = signedDistance(a, plane);
+    const db = signedDistance(b, plane);
+    if (da >= 0) result.push(a);
+    if ((da >= 0) !== (db >= 0)) result.push(a.clone().lerp(b, da / (da - db)));
+  }
+  return result;
+};
+
+/**
+ * 用半空间裁剪折线，保留法向一侧，可能分成多段
+ */
+const clipPolyline = (points: THREE.Vector3[], plane: SectionPlaneInput): THREE.Vector3[][] => {
+  const pieces: THREE.Vector3[][] = [];
+  let current: THREE.Vector3[] = [];
+  points.forEach((p, i) => {
+    const d = signedDistance(p, plane);
+    if (i > 0) {
+      const prev = points[i - 1];
+      const dPrev = signedDistance(prev, plane);
+      if ((dPrev >= 0) !== (d >= 0)) current.push(prev.clone().lerp(p, dPrev / (dPrev - d)));
+    }
+    if (d >= 0) {
+      current.push(p);
+    } else if (current.length > 0) {
+      pieces.push(current);
+      current = [];
+    }
+  });
+  if (current.length > 0) pieces.push(current);
+  return pieces.filter(piece => piece.length >= 2);
+};
+
+// 用其它截平面的切除侧裁剪一个截平面的回路
+const clipLoops = (loops: SectionLoop[], others: SectionPlaneInput[]): SectionLoop[] =>
+  others.reduce<SectionLoop[]>((current, plane) => current.flatMap((loop): SectionLoop[] => {
+    if (loop.isClosed) {
+      const points = clipPolygon(loop.points, plane);
+      return points.length >= 3 ? [{ points, isClosed: true }] : [];
+    }
+    return clipPolyline(loop.points, plane).map(points => ({ points, isClosed: false }));
+  }), loops);
+
+// 裁剪是否改变了回路（保留的顶点沿用原来的对象，新交点与删去的顶点都会使回路变化）
+const loopsChanged = (before: SectionLoop[], after: SectionLoop[]) => {
+  const original = new Set(before.flatMap(loop => loop.points));
+  const count = (loops: SectionLoop[]) => loops.reduce((sum, loop) => sum + loop.points.length, 0);
+  return count(before) !== count(after) || after.some(loop => loop.points.some(p => !original.has(p)));
+};
+
+/**
+ * 求两截平面交线位于立体内的线段
+ * 交线与第一个平面上闭合截交线回路的交点按奇偶规则配对，即为交线在立体内的部分
+ * @param a 截平面
+ * @param b 截平面
+ * @param bounds 组合截切时其余截平面（交线须位于它们的切除一侧）
+ * @returns 线段，两平面平行或交线不经过立体时为空
+ */
+function intersectPlanes(a: SectionPlaneInput, b: SectionPlaneInput, bounds: SectionPlaneInput[]): [THREE.Vector3, THREE.Vector3][] {
+  const direction = new THREE.Vector3().crossVectors(a.normal, b.normal);
+  const sin = direction.length();
+  if (sin < 1e-6) return [];
+  direction.normalize();
+
+  // 交线上离原点最近的点
+  const d1 = a.normal.dot(a.position);
+  const d2 = b.normal.dot(b.position);
+  const cos = a.normal.dot(b.normal);
+  const det = 1 - cos * cos;
+  const origin = a.normal.clone().multiplyScalar((d1 - d2 * cos) / det)
+    .add(b.normal.clone().multiplyScalar((d2 - d1 * cos) / det));
+
+  // 回路各边与平面 b 的交点（沿交线的参数）
+  const hits: number[] = [];
+  a.result.loops.filter(loop => loop.isClosed).forEach(({ points }) => {
+    for (let i = 0; i < points.length; i++) {
+      const p = points[i];
+      const q = points[(i + 1) % points.length];
+      const dp = signedDistance(p, b);
+      const dq = signedDistance(q, b);
+      // 半开区间避免在顶点处重复计数
+      if ((dp > 0) === (dq > 0)) continue;
+      hits.push(p.clone().lerp(q, dp / (dp - dq)).sub(origin).dot(direction));
+    }
+  });
+  hits.sort((x, y) => x - y);
+
+  const segments: [THREE.Vector3, THREE.Vector3][] = [];
+  for (let i = 0; i + 1 < hits.length; i += 2) {
+    let [t0, t1] = [hits[i], hits[i + 1]];
+    // 限制在其余截平面的切除一侧：n·(origin + t·dir - p) ≥ 0
+    bounds.forEach(plane => {
+      const slope = plane.normal.dot(direction);
+      const value = signedDistance(origin, plane);
+      if (Math.abs(slope) < 1e-12) {
+        if (value < 0) t1 = t0 - 1;
+      } else if (slope > 0) {
+        t0 = Math.max(t0, -value / slope);
+      } else {
+        t1 = Math.min(t1, -value / slope);
+      }
+    });
+    if (t1 - t0 > 1e-6) {
+      segments.push([
+        origin.clone().addScaledVector(direction, t0),
+        origin.clone().addScaledVector(direction, t1),
+      ]);
+    }
+  }
+  return segments;
+}
+
+/**
+ * 组合多个截平面的截交线
+ * 组合截切裁去了部分截交线时，不再是完整的圆锥曲线，去掉曲线类型与解析参数
+ * @param planes 各截平面及其单独截切的结果
+ * @param bounded 组合截切：各截平面共同围成被切去的部分（切除部分为各平面法向一侧的公共部分）
+ * @returns 各截平面的（裁剪后）截交线与截平面之间的交线
+ */
+export function combineSections(planes: SectionPlaneInput[], bounded: boolean = false): CombinedSection {
+  const sections = planes.map(plane => {
+    if (!bounded || planes.length < 2) return { id: plane.id, result: plane.result };
+    const loops = clipLoops(plane.result.loops, planes.filter(other => other !== plane));
+    const clipped = loopsChanged(plane.result.loops, loops);
+    return {
+      id: plane.id,
+      result: {
+        ...plane.result,
+        ...(clipped && plane.result.curveType !== 'polygon' && {
+          curveType: undefined,
+          ellipseParams: undefined,
+          parabolaParams: undefined,
+          hyperbolaParams: undefined,
+        }),
+        loops,
+        points3D: loops.flatMap(loop => loop.points),
+        isClosed: loops.length > 0 && loops.every(loop => loop.isClosed),
+      },
+    };
+  });
+
+  const intersections: PlaneIntersectionLine[] = [];
+  planes.forEach((a, i) => planes.slice(i + 1).forEach(b => {
+    const bounds = bounded ? planes.filter(p => p !== a && p !== b) : [];
+    const segments = intersectPlanes(a, b, bounds);
+    if (segments.length > 0) intersections.push({ planes: [a.id, b.id], segments });
+  }));
+
+  return { sections, intersections };
+}
@@ -0,0 +1,66 @@
+import * as THREE from 'three';
+import { formatProjectionLabel } from './primitives';
+import { ViewTarget, projectPointToView, viewDepth } from './viewProjection';
+
+/**
+ * 投影点标注
+ * 空间点用大写字母 A、B、C…… 标注，其 V、H、W 面投影分别标注为 a′、a、a″；
+ * 不可见点（被立体表面遮住，或与更靠近观察者的点重影）的投影加括号，如 (b′)，
+ * 重影点的标注合并为一条，可见点在前，如 a′(b′)
+ */
+
+// 投影面上的一条点标注
+export interface ProjectedPointLabel {
+  position: [number, number];
+  text: string;
+  visible: boolean;  // 该位置至少有一个点可见
+}
+
+// 判断投影重合的容差
+const COINCIDENT_EPS = 1e-4;
+
+/**
+ * 特征点的名称：A~Z，超过 26 个时加数字下标（A1、B1……）
+ */
+export function getFeaturePointName(index: number): string {
+  const letter = String.fromCharCode(65 + (index % 26));
+  const round = Math.floor(index / 26);
+  return round === 0 ? letter : `${letter}${round}`;
+}
+
+/**
+ * 求各点在投影面上的标注
+ * @param points 空间点（场景坐标）
+ * @param names 各点的名称
+ * @param plane 投影面
+ * @param viewId 投影面标识（决定投影标注的撇号）
+ * @param isOccluded 判断点是否被立体表面遮住
+ */
+export function computePointLabels(
+  points: THREE.Vector3[],
+  names: string[],
+  plane: ViewTarget,
+  viewId: string,
+  isOccluded: (point: THREE.Vector3) => boolean = () => false
+): ProjectedPointLabel[] {
+  // 按投影位置分组，同组为重影点
+  const groups: { position: [number, number]; members: { name: string; depth: number; occluded: boolean }[] }[] = [];
+  points.forEach((point, i) => {
+    const position = projectPointToView(point, plane);
+    const member = { name: names[i], depth: viewDepth(point, plane), occluded: isOccluded(point) };
+    const group = groups.find(g => Math.abs(g.position[0] - position[0]) < COINCIDENT_EPS && Math.abs(g.position[1] - position[1]) < COINCIDENT_EPS);
+    if (group) group.members.push(member);
+    else groups.push({ position, members: [member] });
+  });
+
+  return groups.map(({ position, members }) => {
+    // 同组中只有最靠近观察者且未被遮住的点可见
+    const sorted = [...members].sort((a, b) => b.depth - a.depth);
+    const visible = !sorted[0].occluded;
+    const labels = sorted.map((member, i) => {
+      const label = formatProjectionLabel(member.name, viewId);
+      return i === 0 && visible ? label : `(${label})`;
+    });
+    return { position, text: labels.join(''), visible };
+  });
+}
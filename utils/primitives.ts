@@ -0,0 +1,281 @@
+import * as THREE from 'three';
+import { PrimitivePlane, PrimitiveScene } from '../types';
+
+/**
+ * 画法几何基本元素：点、直线、平面
+ * 元素坐标使用教材坐标系（X 向左、Y 向前、Z 向上，原点为三投影面的交点），
+ * 换算到场景坐标后即可用与立体相同的方法投影到各投影面
+ */
+
+// 点在各投影面上的标记：V 面加一撇，H 面不加，W 面加两撇；其余投影面加投影面名称
+const VIEW_POINT_SUFFIX: Record<string, string> = { V: '′', H: '', W: '″' };
+
+// 三个基本投影面在教材坐标系中的法向：V 面为 Y，H 面为 Z，W 面为 X
+const BASIC_PLANES = [
+  { id: 'V' as const, axis: 'y' as const, parallelLine: '正平线', perpendicularLine: '正垂线', parallelPlane: '正平面', perpendicularPlane: '正垂面' },
+  { id: 'H' as const, axis: 'z' as const, parallelLine: '水平线', perpendicularLine: '铅垂线', parallelPlane: '水平面', perpendicularPlane: '铅垂面' },
+  { id: 'W' as const, axis: 'x' as const, parallelLine: '侧平线', perpendicularLine: '侧垂线', parallelPlane: '侧平面', perpendicularPlane: '侧垂面' },
+];
+
+// 教材坐标轴名称
+const AXIS_NAMES = ['X', 'Y', 'Z'];
+
+// 判断平行/垂直的容差（单位向量分量）
+const POSITION_EPS = 1e-6;
+
+// 缺省的基本元素：两点及其连线（一般位置直线）
+export const DEFAULT_PRIMITIVE_SCENE: PrimitiveScene = {
+  points: [
+    { id: 'pt1', name: 'A', coords: [3.5, 1, 3.5] },
+    { id: 'pt2', name: 'B', coords: [1.5, 3, 1.5] },
+  ],
+  lines: [{ id: 'ln1', points: ['pt1', 'pt2'] }],
+  planes: [],
+};
+
+/**
+ * 生成新元素的标识：前缀加上已有序号的最大值 + 1
+ * @param prefix 前缀（pt、ln、pl）
+ * @param items 已有元素
+ */
+export function nextPrimitiveId(prefix: string, items: { id: string }[]): string {
+  const used = items.map(item => parseInt(item.id.slice(prefix.length), 10)).filter(n => !Number.isNaN(n));
+  return `${prefix}${Math.max(0, ...used) + 1}`;
+}
+
+// 直线、平面相对投影面的位置
+export interface ProjectionPosition {
+  category: 'general' | 'parallel' | 'perpendicular';
+  label: string;  // 如"一般位置直线""水平线""铅垂面"
+}
+
+// 换算到场景坐标后的元素
+export interface ResolvedPoint {
+  id: string;
+  name: string;
+  coords: THREE.Vector3;  // 教材坐标
+  world: THREE.Vector3;   // 场景坐标
+}
+
+export interface ResolvedLine {
+  id: string;
+  name: string;
+  start: ResolvedPoint;
+  end: ResolvedPoint;
+  position: ProjectionPosition;
+}
+
+export interface ResolvedPlane {
+  id: string;
+  name: string;
+  kind: PrimitivePlane['kind'];
+  normal: THREE.Vector3;                      // 教材坐标系中的单位法向
+  constant: number;                           // 平面方程 normal·p = constant（教材坐标）
+  vertices: ResolvedPoint[];                  // 三点平面的三个点
+  outline: THREE.Vector3[];                   // 显示的平面图形（场景坐标）：三角形或平面在投影面体系内的部分
+  region: THREE.Vector3[];                    // 平面在投影面体系内的部分（场景坐标）
+  axisPoints: ResolvedPoint[];                // 迹线与投影轴的交点，名称为轴名 X、Y、Z
+  traces: Partial<Record<'V' | 'H' | 'W', [THREE.Vector3, THREE.Vector3]>>;  // 迹线（场景坐标）
+  position: ProjectionPosition;
+}
+
+export interface ResolvedPrimitives {
+  points: ResolvedPoint[];
+  lines: ResolvedLine[];
+  planes: ResolvedPlane[];
+}
+
+/**
+ * 教材坐标换算为场景坐标
+ * 第一角画法中三投影面的交点在 (B/2, -B/2, -B/2)，X 轴指向场景 -x；
+ * 第三角画法的投影面整体取反，点位于第三分角
+ * @param coords 教材坐标 (x, y, z)
+ * @param boxSize 投影面边长
+ * @param side 1 为第一角画法，-1 为第三角画法
+ */
+export function toWorldPosition(coords: THREE.Vector3 | [number, number, number], boxSize: number, side: number = 1): THREE.Vector3 {
+  const [x, y, z] = Array.isArray(coords) ? coords : coords.toArray();
+  const half = boxSize / 2;
+  return new THREE.Vector3(half - x, z - half, y - half).multiplyScalar(side);
+}
+
+/**
+ * 教材坐标系中的方向（或平面法向）换算为场景坐标
+ * @param direction 教材坐标系中的方向
+ * @param side 1 为第一角画法，-1 为第三角画法
+ */
+export function toWorldDirection(direction: THREE.Vector3, side: number = 1): THREE.Vector3 {
+  return new THREE.Vector3(-direction.x, direction.z, direction.y).multiplyScalar(side);
+}
+
+/**
+ * 点的投影标记
+ * @param name 点的名称（大写字母）
+ * @param viewId 投影面
+ * @returns 如 V 面上为 a′，H 面上为 a，W 面上为 a″
+ */
+export function formatProjectionLabel(name: string, viewId: string): string {
+  return `${name.toLowerCase()}${VIEW_POINT_SUFFIX[viewId] ?? `(${viewId})`}`;
+}
+
+/**
+ * 判断直线相对投影面的位置
+ * 垂直于某投影面为投影面垂直线，只平行于一个投影面为投影面平行线，否则为一般位置直线
+ * @param direction 直线方向（教材坐标）
+ */
+export function classifyLine(direction: THREE.Vector3): ProjectionPosition {
+  const d = direction.clone().normalize();
+  for (const plane of BASIC_PLANES) {
+    if (Math.abs(Math.abs(d[plane.axis]) - 1) < POSITION_EPS) return { category: 'perpendicular', label: plane.perpendicularLine };
+  }
+  for (const plane of BASIC_PLANES) {
+    if (Math.abs(d[plane.axis]) < POSITION_EPS) return { category: 'parallel', label: plane.parallelLine };
+  }
+  return { category: 'general', label: '一般位置直线' };
+}
+
+/**
+ * 判断平面相对投影面的位置
+ * 平行于某投影面为投影面平行面，只垂直于一个投影面为投影面垂直面，否则为一般位置平面
+ * @param normal 平面法向（教材坐标）
+ */
+export function classifyPlane(normal: THREE.Vector3): ProjectionPosition {
+  const n = normal.clone().normalize();
+  for (const plane of BASIC_PLANES) {
+    if (Math.abs(Math.abs(n[plane.axis]) - 1) < POSITION_EPS) return { category: 'parallel', label: plane.parallelPlane };
+  }
+  for (const plane of BASIC_PLANES) {
+    if (Math.abs(n[plane.axis]) < POSITION_EPS) return { category: 'perpendicular', label: plane.perpendicularPlane };
+  }
+  return { category: 'general', label: '一般位置平面' };
+}
+
+/**
+ * 平面在投影面体系（0 ≤ x, y, z ≤ B 的立方体）内的部分
+ * 求平面与立方体各棱的交点，按绕形心的角度排序
+ * @param normal 单位法向（教材坐标）
+ * @param constant 平面方程 normal·p = constant
+ * @param boxSize 立方体边长
+ * @returns 多边形顶点（教材坐标），平面不经过立方体时为空
+ */
+export function clipPlaneToBox(normal: THREE.Vector3, constant: number, boxSize: number): THREE.Vector3[] {
+  const corners = [0, 1, 2, 3, 4, 5, 6, 7].map(i => new THREE.Vector3(i & 1 ? boxSize : 0, i & 2 ? boxSize : 0, i & 4 ? boxSize : 0));
+  const points: THREE.Vector3[] = [];
+  corners.forEach((a, i) => [1, 2, 4].forEach(bit => {
+    if (i & bit) return;
+    const b = corners[i | bit];
+    const da = normal.dot(a) - constant;
+    const db = normal.dot(b) - constant;
+    if ((da > 0 && db > 0) || (da < 0 && db < 0)) return;
+    const p = Math.abs(da - db) < 1e-12 ? a.clone() : a.clone().lerp(b, da / (da - db));
+    if (!points.some(q => q.distanceToSquared(p) < 1e-12)) points.push(p);
+  }));
+  if (points.length < 3) return [];
+
+  const center = points.reduce((acc, p) => acc.add(p), new THREE.Vector3()).divideScalar(points.length);
+  const u = points[0].clone().sub(center).normalize();
+  const v = new THREE.Vector3().crossVectors(normal, u);
+  return points.sort((p, q) => {
+    const dp = p.clone().sub(center);
+    const dq = q.clone().sub(center);
+    return Math.atan2(dp.dot(v), dp.dot(u)) - Math.atan2(dq.dot(v), dq.dot(u));
+  });
+}
+
+/**
+ * 平面的迹线（平面与 V、H、W 面的交线在投影面体系内的部分）
+ * @param polygon clipPlaneToBox 得到的多边形（教材坐标）
+ * @returns 各投影面上的迹线（教材坐标）
+ */
+export function getPlaneTraces(polygon: THREE.Vector3[]): Partial<Record<'V' | 'H' | 'W', [THREE.Vector3, THREE.Vector3]>> {
+  const traces: Partial<Record<'V' | 'H' | 'W', [THREE.Vector3, THREE.Vector3]>> = {};
+  BASIC_PLANES.forEach(({ id, axis }) => {
+    const onPlane = polygon.filter(p => Math.abs(p[axis]) < 1e-9);
+    if (onPlane.length === 2) traces[id] = [onPlane[0], onPlane[1]];
+  });
+  return traces;
+}
+
+/**
+ * 换算基本元素：查找引用的点，求直线、平面的位置分类与显示图形
+ * 引用不存在的点、三点共线或截距全为 null 的平面被忽略
+ * @param scene 基本元素
+ * @param boxSize 投影面边长
+ * @param side 1 为第一角画法，-1 为第三角画法
+ */
+export function resolvePrimitives(scene: PrimitiveScene, boxSize: number, side: number = 1): ResolvedPrimitives {
+  const toWorld = (p: THREE.Vector3) => toWorldPosition(p, boxSize, side);
+  const points: ResolvedPoint[] = scene.points.map(p => {
+    const coords = new THREE.Vector3(...p.coords);
+    return { id: p.id, name: p.name, coords, world: toWorld(coords) };
+  });
+  const findPoint = (id: string) => points.find(p => p.id === id);
+
+  const lines: ResolvedLine[] = [];
+  scene.lines.forEach(line => {
+    const start = findPoint(line.points[0]);
+    const end = findPoint(line.points[1]);
+    if (!start || !end || start.coords.distanceToSquared(end.coords) < 1e-12) return;
+    lines.push({
+      id: line.id,
+      name: `${start.name}${end.name}`,
+      start,
+      end,
+      position: classifyLine(end.coords.clone().sub(start.coords)),
+    });
+  });
+
+  const planes: ResolvedPlane[] = [];
+  scene.planes.forEach(plane => {
+    let normal: THREE.Vector3;
+    let constant: number;
+    let vertices: ResolvedPoint[] = [];
+    if (plane.kind === 'points') {
+      const found = plane.points.map(findPoint);
+      if (found.some(p => !p)) return;
+      vertices = found as ResolvedPoint[];
+      const [a, b, c] = vertices.map(p => p.coords);
+      normal = new THREE.Vector3().crossVectors(b.clone().sub(a), c.clone().sub(a));
+      if (normal.length() < 1e-9) return;
+      normal.normalize();
+      constant = normal.dot(a);
+    } else {
+      // 截距为 0 的平面过原点，不能写成截距式，不予解析
+      if (plane.intercepts.some(value => value === 0)) return;
+      // x/a + y/b + z/c = 1，截距为 null 时该项为 0
+      const [a, b, c] = plane.intercepts.map(value => value === null ? 0 : 1 / value);
+      normal = new THREE.Vector3(a, b, c);
+      const length = normal.length();
+      if (length < 1e-12) return;
+      normal.divideScalar(length);
+      constant = 1 / length;
+    }
+
+    const polygon = clipPlaneToBox(normal, constant, boxSize);
+    // 多边形顶点中有两个坐标为零的点在投影轴上，即两条迹线的交点
+    const axisPoints = polygon.flatMap(p => {
+      const zero = [p.x, p.y, p.z].map(c => Math.abs(c) < 1e-9);
+      if (zero.filter(Boolean).length !== 2) return [];
+      const axis = AXIS_NAMES[zero.indexOf(false)];
+      return [{ id: `${plane.id}-${axis}`, name: axis, coords: p, world: toWorld(p) }];
+    });
+    const traces = Object.fromEntries(
+      Object.entries(getPlaneTraces(polygon)).map(([id, [p, q]]) => [id, [toWorld(p), toWorld(q)]])
+    ) as ResolvedPlane['traces'];
+    planes.push({
+      id: plane.id,
+      name: plane.name,
+      kind: plane.kind,
+      normal,
+      constant,
+      vertices,
+      outline: plane.kind === 'points' ? vertices.map(p => p.world) : polygon.map(toWorld),
+      region: polygon.map(toWorld),
+      axisPoints,
+      traces,
+      position: classifyPlane(normal),
+    });
+  });
+
+  return { points, lines, planes };
+}
@@ -0,0 +1,244 @@
+import * as THREE from 'three';
+import { PrimitiveAnalysis } from '../types';
+import { lineIntersectsPlane } from './sectionPlane';
+import { ResolvedLine, ResolvedPlane, ResolvedPoint, ResolvedPrimitives, toWorldDirection, toWorldPosition } from './primitives';
+import { VIEW_BASES, projectPointToView, viewDepth } from './viewProjection';
+
+/**
+ * 直线与直线、直线与平面的相对位置
+ * 两直线平行、相交或交叉：平行时同面投影互相平行；相交时交点的各投影符合点的投影规律；
+ * 交叉时同面投影的交点是分属两直线的重影点。直线与平面相交于贯穿点，
+ * 以贯穿点为界判断直线被平面遮住的部分
+ */
+
+export type LineRelation = 'parallel' | 'intersecting' | 'skew';
+
+export const LINE_RELATION_LABELS: Record<LineRelation, string> = {
+  parallel: '平行',
+  intersecting: '相交',
+  skew: '交叉',
+};
+
+// 判断可见性的三个基本投影面
+const BASIC_VIEWS = ['V', 'H', 'W'] as const;
+type BasicView = typeof BASIC_VIEWS[number];
+
+const EPS = 1e-9;
+
+// 重影点：同一条投射线上分属两直线的两点，靠近观察者的一点可见
+export interface CoincidentPair {
+  viewId: BasicView;
+  front: ResolvedPoint;
+  back: ResolvedPoint;
+}
+
+export interface LinePairAnalysis {
+  kind: 'lines';
+  lines: [ResolvedLine, ResolvedLine];
+  relation: LineRelation;
+  intersection: ResolvedPoint | null;  // 相交时的交点 K
+  onSegments: boolean;                 // 交点在两线段之内（否则在延长线上）
+  coincident: CoincidentPair[];        // 交叉时各投影面上的重影点
+}
+
+// 直线在一个投影面上的可见部分与被遮住的部分（场景坐标）
+export interface LineVisibility {
+  visible: [THREE.Vector3, THREE.Vector3][];
+  hidden: [THREE.Vector3, THREE.Vector3][];
+}
+
+export interface LinePlaneAnalysis {
+  kind: 'line-plane';
+  line: ResolvedLine;
+  plane: ResolvedPlane;
+  parallel: boolean;
+  piercing: ResolvedPoint | null;                          // 贯穿点 K（线段与平面的交点）
+  visibility: Partial<Record<BasicView, LineVisibility>>;  // 三点平面在各投影面上对直线的遮挡
+}
+
+export type PrimitiveAnalysisResult = LinePairAnalysis | LinePlaneAnalysis;
+
+// 直线上参数为 t 的点（教材坐标与场景坐标之间是仿射变换，按同一参数插值）
+const pointOnLine = (line: ResolvedLine, t: number, name: string): ResolvedPoint => ({
+  id: `${line.id}-${name}`,
+  name,
+  coords: line.start.coords.clone().lerp(line.end.coords, t),
+  world: line.start.world.clone().lerp(line.end.world, t),
+});
+
+// 两条二维线段的交点参数，不相交时返回 null
+const intersectSegments2D = (
+  a: [number, number], b: [number, number],
+  c: [number, number], d: [number, number]
+): [number, number] | null => {
+  const r = [b[0] - a[0], b[1] - a[1]];
+  const s = [d[0] - c[0], d[1] - c[1]];
+  const denominator = r[0] * s[1] - r[1] * s[0];
+  if (Math.abs(denominator) < EPS) return null;
+  const t = ((c[0] - a[0]) * s[1] - (c[1] - a[1]) * s[0]) / denominator;
+  const u = ((c[0] - a[0]) * r[1] - (c[1] - a[1]) * r[0]) / denominator;
+  if (t < -EPS || t > 1 + EPS || u < -EPS || u > 1 + EPS) return null;
+  return [t, u];
+};
+
+// 点是否在二维三角形内（含边界）
+const insideTriangle2D = (p: [number, number], triangle: [number, number][]) => {
+  const signs = triangle.map((a, i) => {
+    const b = triangle[(i + 1) % 3];
+    return (b[0] - a[0]) * (p[1] - a[1]) - (b[1] - a[1]) * (p[0] - a[0]);
+  });
+  return signs.every(v => v >= -EPS) || signs.every(v => v <= EPS);
+};
+
+/**
+ * 判断两直线的相对位置
+ * 方向平行为平行（含重合）；公垂线长度为零为相交，否则为交叉，并求各投影面上的重影点
+ * @param a 第一条直线
+ * @param b 第二条直线
+ */
+export function analyzeLinePair(a: ResolvedLine, b: ResolvedLine): LinePairAnalysis {
+  const d1 = a.end.world.clone().sub(a.start.world);
+  const d2 = b.end.world.clone().sub(b.start.world);
+  const result: LinePairAnalysis = { kind: 'lines', lines: [a, b], relation: 'parallel', intersection: null, onSegments: false, coincident: [] };
+  if (new THREE.Vector3().crossVectors(d1, d2).length() < 1e-6 * d1.length() * d2.length()) return result;
+
+  // 两直线上距离最近的两点
+  const r = a.start.world.clone().sub(b.start.world);
+  const a11 = d1.dot(d1);
+  const a12 = d1.dot(d2);
+  const a22 = d2.dot(d2);
+  const b1 = d1.dot(r);
+  const b2 = d2.dot(r);
+  const det = a11 * a22 - a12 * a12;
+  const s = (a12 * b2 - a22 * b1) / det;
+  const t = (a11 * b2 - a12 * b1) / det;
+  const p = a.start.world.clone().addScaledVector(d1, s);
+  const q = b.start.world.clone().addScaledVector(d2, t);
+
+  if (p.distanceTo(q) < 1e-6) {
+    const inRange = (value: number) => value >= -1e-6 && value <= 1 + 1e-6;
+    return { ...result, relation: 'intersecting', intersection: pointOnLine(a, s, 'K'), onSegments: inRange(s) && inRange(t) };
+  }
+
+  // 交叉：同面投影的交点是重影点，V 面编号 1、2，H 面 3、4，W 面 5、6
+  const coincident: CoincidentPair[] = [];
+  BASIC_VIEWS.forEach((viewId, index) => {
+    const [pa, pb, pc, pd] = [a.start, a.end, b.start, b.end].map(point => projectPointToView(point.world, viewId));
+    const hit = intersectSegments2D(pa, pb, pc, pd);
+    if (!hit) return;
+    const onA = a.start.world.clone().lerp(a.end.world, hit[0]);
+    const onB = b.start.world.clone().lerp(b.end.world, hit[1]);
+    const [front, back] = viewDepth(onA, viewId) >= viewDepth(onB, viewId)
+      ? [{ line: a, t: hit[0] }, { line: b, t: hit[1] }]
+      : [{ line: b, t: hit[1] }, { line: a, t: hit[0] }];
+    coincident.push({
+      viewId,
+      front: pointOnLine(front.line, front.t, `${index * 2 + 1}`),
+      back: pointOnLine(back.line, back.t, `${index * 2 + 2}`),
+    });
+  });
+  return { ...result, relation: 'skew', coincident };
+}
+
+/**
+ * 直线被三点平面遮住的部分
+ * 以贯穿点和投影中三角形各边为界把直线分段，
+ * 每段中点在三角形投影之内且平面上的重影点更靠近观察者时，该段不可见
+ */
+function computeLineVisibility(
+  line: ResolvedLine,
+  plane: ResolvedPlane,
+  planePoint: THREE.Vector3,
+  planeNormal: THREE.Vector3,
+  piercingT: number | null,
+  viewId: BasicView
+): LineVisibility {
+  const start = line.start.world;
+  const end = line.end.world;
+  const direction = VIEW_BASES[viewId].direction;
+  const a = projectPointToView(start, viewId);
+  const b = projectPointToView(end, viewId);
+  const triangle = plane.vertices.map(p => projectPointToView(p.world, viewId));
+
+  const cuts = [0, 1];
+  if (piercingT !== null) cuts.push(piercingT);
+  triangle.forEach((p, i) => {
+    const hit = intersectSegments2D(a, b, p, triangle[(i + 1) % 3]);
+    if (hit) cuts.push(hit[0]);
+  });
+  cuts.sort((x, y) => x - y);
+
+  const visibility: LineVisibility = { visible: [], hidden: [] };
+  // 平面垂直于该投影面时投影积聚为直线，不遮挡
+  const edgeOn = Math.abs(planeNormal.dot(direction)) < 1e-9;
+  for (let i = 0; i < cuts.length - 1; i++) {
+    if (cuts[i + 1] - cuts[i] < 1e-9) continue;
+    const from = start.clone().lerp(end, cuts[i]);
+    const to = start.clone().lerp(end, cuts[i + 1]);
+    const middle = from.clone().lerp(to, 0.5);
+    let hidden = false;
+    if (!edgeOn && insideTriangle2D(projectPointToView(middle, viewId), triangle)) {
+      const s = planeNormal.dot(planePoint.clone().sub(middle)) / planeNormal.dot(direction);
+      const onPlane = middle.clone().addScaledVector(direction, s);
+      hidden = viewDepth(onPlane, viewId) > viewDepth(middle, viewId);
+    }
+    const target = hidden ? visibility.hidden : visibility.visible;
+    const last = target[target.length - 1];
+    if (last && last[1].distanceToSquared(from) < 1e-12) last[1] = to;
+    else target.push([from, to]);
+  }
+  return visibility;
+}
+
+/**
+ * 求直线与平面的贯穿点，并判断直线在各投影面上的可见性
+ * 迹线平面只画迹线，不遮挡直线
+ * @param line 直线（线段）
+ * @param plane 平面
+ * @param boxSize 投影面边长
+ * @param side 1 为第一角画法，-1 为第三角画法
+ */
+export function analyzeLinePlane(line: ResolvedLine, plane: ResolvedPlane, boxSize: number, side: number = 1): LinePlaneAnalysis {
+  const planeNormal = toWorldDirection(plane.normal, side);
+  const planePoint = toWorldPosition(plane.normal.clone().multiplyScalar(plane.constant), boxSize, side);
+  const direction = line.end.world.clone().sub(line.start.world);
+  const parallel = Math.abs(direction.dot(planeNormal)) < 1e-9 * direction.length();
+
+  const hit = parallel ? null : lineIntersectsPlane(line.start.world, line.end.world, planePoint, planeNormal);
+  const piercingT = hit ? hit.distanceTo(line.start.world) / direction.length() : null;
+  const visibility: LinePlaneAnalysis['visibility'] = {};
+  if (plane.kind === 'points') {
+    BASIC_VIEWS.forEach(viewId => {
+      visibility[viewId] = computeLineVisibility(line, plane, planePoint, planeNormal, piercingT, viewId);
+    });
+  }
+
+  return {
+    kind: 'line-plane',
+    line,
+    plane,
+    parallel,
+    piercing: piercingT === null ? null : pointOnLine(line, piercingT, 'K'),
+    visibility,
+  };
+}
+
+/**
+ * 按选择求相对位置分析结果
+ * @returns 所选直线或平面不存在时返回 null
+ */
+export function analyzePrimitives(
+  primitives: ResolvedPrimitives,
+  analysis: PrimitiveAnalysis | null | undefined,
+  boxSize: number,
+  side: number = 1
+): PrimitiveAnalysisResult | null {
+  if (!analysis) return null;
+  if (analysis.kind === 'lines') {
+    const [a, b] = analysis.lines.map(id => primitives.lines.find(line => line.id === id));
+    return a && b && a !== b ? analyzeLinePair(a, b) : null;
+  }
+  const line = primitives.lines.find(l => l.id === analysis.line);
+  const plane = primitives.planes.find(p => p.id === analysis.plane);
+  return line && plane ? analyzeLinePlane(line, plane, boxSize, side) : null;
+}
@@ -0,0 +1,98 @@
+import * as THREE from 'three';
+import { RotationAxis } from '../types';
+import { PickedEdge } from './changeOfPlane';
+
+/**
+ * 旋转法
+ * 投影面保持不动，让直线绕垂直于投影面的轴旋转到投影面平行线的位置：
+ * 绕铅垂轴（⊥H）旋转时直线对 H 面的倾角 α 不变，转成正平线后 V 面投影反映实长和 α；
+ * 绕正垂轴（⊥V）旋转时对 V 面的倾角 β 不变，转成水平线后 H 面投影反映实长和 β
+ */
+
+// 直线对 H、V、W 面的倾角（度）
+export interface InclinationAngles {
+  alpha: number;
+  beta: number;
+  gamma: number;
+}
+
+// 旋转法求解结果
+export interface RotationSolution {
+  edge: PickedEdge;
+  axis: RotationAxis;
+  pivot: THREE.Vector3;      // 旋转轴通过的端点（不动点）
+  moving: THREE.Vector3;     // 绕轴旋转的端点
+  axisDirection: THREE.Vector3;
+  angle: number;             // 转角（弧度，绕 axisDirection 右手方向）
+  landed: THREE.Vector3;     // 旋转到位后的端点
+  trueView: 'V' | 'H';       // 反映实长的投影面
+  trueLength: number;
+  angles: InclinationAngles;
+  description: string;
+}
+
+// 各旋转轴的方向（场景坐标）与转到位后直线所平行的投影面
+const AXIS_SPECS: Record<RotationAxis, { direction: THREE.Vector3; trueView: 'V' | 'H'; position: string; angle: string }> = {
+  H: { direction: new THREE.Vector3(0, 1, 0), trueView: 'V', position: '正平线', angle: 'α' },
+  V: { direction: new THREE.Vector3(0, 0, 1), trueView: 'H', position: '水平线', angle: 'β' },
+};
+
+const toDegrees = (radians: number) => THREE.MathUtils.radToDeg(radians);
+
+/**
+ * 直线对三个基本投影面的倾角
+ * H、V、W 面的法向在场景中分别为 y、z、x 轴
+ */
+export function getInclinationAngles(start: THREE.Vector3, end: THREE.Vector3): InclinationAngles {
+  const d = end.clone().sub(start).normalize();
+  const angle = (component: number) => toDegrees(Math.asin(Math.min(1, Math.abs(component))));
+  return { alpha: angle(d.y), beta: angle(d.z), gamma: angle(d.x) };
+}
+
+/**
+ * 求解旋转法
+ * 旋转轴通过棱线的起点，另一端点绕轴旋转到直线平行于 V 面（轴⊥H）或 H 面（轴⊥V），
+ * 取较小的转角（直线的 x 分量保持原来的朝向）
+ * @param edge 选中的棱线
+ * @param axis 旋转轴垂直的投影面
+ */
+export function solveRotation(edge: PickedEdge, axis: RotationAxis): RotationSolution {
+  const spec = AXIS_SPECS[axis];
+  const pivot = edge.start.clone();
+  const moving = edge.end.clone();
+  const axisDirection = spec.direction.clone();
+
+  // 直线在垂直于轴的平面内的分量转到 ±x 方向
+  const offset = moving.clone().sub(pivot);
+  const radial = offset.clone().addScaledVector(axisDirection, -offset.dot(axisDirection));
+  let angle = 0;
+  if (radial.length() > 1e-9) {
+    const target = new THREE.Vector3(radial.x >= 0 ? 1 : -1, 0, 0);
+    angle = Math.atan2(new THREE.Vector3().crossVectors(radial, target).dot(axisDirection), radial.dot(target));
+  }
+
+  const landed = rotateAboutAxis(moving, pivot, axisDirection, angle);
+  const trueLength = pivot.distanceTo(moving);
+  const angles = getInclinationAngles(pivot, moving);
+  const description = Math.abs(angle) < 1e-6
+    ? `棱线已平行于 ${spec.trueView} 面，${spec.trueView} 面投影即反映实长`
+    : `绕${axis === 'H' ? '铅垂轴' : '正垂轴'}旋转 ${Math.abs(toDegrees(angle)).toFixed(1)}°，`
+      + `${axis} 面投影长度不变，转成${spec.position}后 ${spec.trueView} 面投影反映实长和 ${spec.angle}`;
+
+  return { edge, axis, pivot, moving, axisDirection, angle, landed, trueView: spec.trueView, trueLength, angles, description };
+}
+
+/**
+ * 点绕通过 pivot、方向为 axisDirection 的轴旋转
+ */
+export function rotateAboutAxis(point: THREE.Vector3, pivot: THREE.Vector3, axisDirection: THREE.Vector3, angle: number): THREE.Vector3 {
+  return point.clone().sub(pivot).applyAxisAngle(axisDirection, angle).add(pivot);
+}
+
+/**
+ * 旋转过程中运动端点的位置
+ * @param progress 0~1
+ */
+export function getRotatedEndpoint(solution: RotationSolution, progress: number): THREE.Vector3 {
+  return rotateAboutAxis(solution.moving, solution.pivot, solution.axisDirection, solution.angle * progress);
+}
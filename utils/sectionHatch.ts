@@ -0,0 +1,263 @@
+import * as THREE from 'three';
+import { HatchPattern, HatchSettings } from '../types';
+import { Point2D, SectionLoop, projectToPlane2D, unprojectFromPlane2D } from './sectionPlane';
+
+/**
+ * 断面填充与剖面线
+ * 将截交线回路三角化为断面（内回路作为孔洞），并按 GB/T 4457.5 剖面符号生成剖面线
+ */
+
+export type HatchSegment = [Point2D, Point2D];
+
+// 平面上的断面填充结果
+export interface HatchFill2D {
+  triangles: Point2D[];     // 三角形顶点（每3个一组）
+  hatch: HatchSegment[];    // 剖面线
+}
+
+// 3D断面填充结果
+export interface HatchFill3D {
+  triangles: THREE.Vector3[];
+  hatch: [THREE.Vector3, THREE.Vector3][];
+}
+
+// 剖面符号：各组平行线相对设定角度的偏转，以及是否为短虚线
+export const HATCH_PATTERNS: Record<HatchPattern, { label: string; families: { angleOffset: number; dashed?: boolean }[] }> = {
+  metal: { label: '金属材料', families: [{ angleOffset: 0 }] },
+  nonmetal: { label: '非金属材料', families: [{ angleOffset: 0 }, { angleOffset: 90 }] },
+  liquid: { label: '液体', families: [{ angleOffset: 0, dashed: true }] },
+};
+
+// 多边形有向面积（逆时针为正）
+const signedArea = (polygon: Point2D[]): number => {
+  let area = 0;
+  for (let i = 0; i < polygon.length; i++) {
+    const [x1, y1] = polygon[i];
+    const [x2, y2] = polygon[(i + 1) % polygon.length];
+    area += x1 * y2 - x2 * y1;
+  }
+  return area / 2;
+};
+
+// 射线法判断点是否在多边形内
+export const pointInPolygon = ([x, y]: Point2D, polygon: Point2D[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i];
+    const [xj, yj] = polygon[j];
+    if ((yi > y) !== (yj > y) && x < (xj - xi) * (y - yi) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+};
+
+/**
+ * 按嵌套关系把回路分组为外轮廓与孔洞
+ * 被偶数个回路包含的为外轮廓，奇数个的为孔洞，孔洞归入包含它的最小外轮廓
+ * @param loops 闭合回路（2D）
+ * @returns 外轮廓及其孔洞
+ */
+export function groupLoopsWithHoles(loops: Point2D[][]): { contour: Point2D[]; holes: Point2D[][] }[] {
+  const valid = loops.filter(loop => loop.length >= 3 && Math.abs(signedArea(loop)) > 1e-10);
+  const depth = valid.map((loop, i) =>
+    valid.filter((other, j) => j !== i && pointInPolygon(loop[0], other)).length
+  );
+
+  const groups = valid
+    .map((loop, i) => ({ loop, i }))
+    .filter(({ i }) => depth[i] % 2 === 0)
+    .map(({ loop, i }) => ({ contour: loop, holes: [] as Point2D[][], index: i }));
+
+  valid.forEach((loop, i) => {
+    if (depth[i] % 2 === 0) return;
+    const owners = groups.filter(g => pointInPolygon(loop[0], g.contour));
+    if (owners.length === 0) return;
+    const owner = owners.reduce((a, b) => Math.abs(signedArea(a.contour)) < Math.abs(signedArea(b.contour)) ? a : b);
+    owner.holes.push(loop);
+  });
+
+  return groups.map(({ contour, holes }) => ({ contour, holes }));
+}
+
+/**
+ * 按剖面符号生成剖面线
+ * 以设定角度作等距平行线，由 intervals 给出每条线位于断面内的区间
+ * @param points 断面上的点（确定平行线的范围）
+ * @param settings 剖面线设置
+ * @param intervals 求一条平行线在断面内的区间（沿 dir 的参数）
+ */
+const buildHatch = (
+  points: Point2D[],
+  settings: HatchSettings,
+  intervals: (dir: Point2D, normal: Point2D, d: number) => [number, number][]
+): HatchSegment[] => {
+  const { spacing } = settings;
+  if (points.length === 0 || spacing <= 0) return [];
+
+  const segments: HatchSegment[] = [];
+  HATCH_PATTERNS[settings.pattern].families.forEach(({ angleOffset, dashed }) => {
+    const angle = THREE.MathUtils.degToRad(settings.angle + angleOffset);
+    const dir: Point2D = [Math.cos(angle), Math.sin(angle)];
+    const normal: Point2D = [-dir[1], dir[0]];
+
+    // 沿法向的范围决定平行线条数
+    let minD = Infinity, maxD = -Infinity;
+    points.forEach(([x, y]) => {
+      const d = x * normal[0] + y * normal[1];
+      minD = Math.min(minD, d);
+      maxD = Math.max(maxD, d);
+    });
+
+    // 以间距的整数倍取线，使剖面线在各视图中位置稳定
+    for (let d = Math.ceil(minD / spacing) * spacing; d <= maxD; d += spacing) {
+      const base: Point2D = [normal[0] * d, normal[1] * d];
+      const at = (s: number): Point2D => [base[0] + dir[0] * s, base[1] + dir[1] * s];
+      intervals(dir, normal, d).forEach(([s0, s1]) => {
+        if (!dashed) {
+          segments.push([at(s0), at(s1)]);
+          return;
+        }
+        // 短虚线：线段长 2 倍间距，间隔 1 倍间距
+        for (let s = s0; s < s1; s += spacing * 3) {
+          segments.push([at(s), at(Math.min(s + spacing * 2, s1))]);
+        }
+      });
+    }
+  });
+
+  return segments;
+};
+
+// 平行线与多边形各边的交点（沿 dir 的参数）
+const crossings = (polygon: Point2D[], dir: Point2D, normal: Point2D, d: number): number[] => {
+  const hits: number[] = [];
+  for (let i = 0; i < polygon.length; i++) {
+    const a = polygon[i];
+    const b = polygon[(i + 1) % polygon.length];
+    const da = a[0] * normal[0] + a[1] * normal[1] - d;
+    const db = b[0] * normal[0] + b[1] * normal[1] - d;
+    // 半开区间避免在顶点处重复计数
+    if ((da > 0) === (db > 0)) continue;
+    const t = da / (da - db);
+    const x = a[0] + (b[0] - a[0]) * t;
+    const y = a[1] + (b[1] - a[1]) * t;
+    hits.push(x * dir[0] + y * dir[1]);
+  }
+  return hits;
+};
+
+/**
+ * 生成剖面线
+ * 平行线与全部回路求交后按奇偶规则取位于断面内的线段
+ * @param loops 闭合回路（2D，含孔洞）
+ * @param settings 剖面线设置
+ * @returns 剖面线段
+ */
+export function generateHatchLines(loops: Point2D[][], settings: HatchSettings): HatchSegment[] {
+  const valid = loops.filter(loop => loop.length >= 3);
+  return buildHatch(valid.flat(), settings, (dir, normal, d) => {
+    const hits = valid.flatMap(loop => crossings(loop, dir, normal, d)).sort((a, b) => a - b);
+    const result: [number, number][] = [];
+    for (let i = 0; i + 1 < hits.length; i += 2) result.push([hits[i], hits[i + 1]]);
+    return result;
+  });
+}
+
+/**
+ * 生成三角形网格断面的剖面线
+ * 用于没有回路、只有三角形的断面（如布尔运算得到的断面），各三角形内的区间合并后再画线
+ * @param triangles 三角形顶点（每3个一组）
+ * @param settings 剖面线设置
+ * @returns 剖面线段
+ */
+export function generateTriangleHatch(triangles: Point2D[], settings: HatchSettings): HatchSegment[] {
+  return buildHatch(triangles, settings, (dir, normal, d) => {
+    const spans: [number, number][] = [];
+    for (let i = 0; i + 2 < triangles.length; i += 3) {
+      const hits = crossings(triangles.slice(i, i + 3), dir, normal, d);
+      if (hits.length === 2) spans.push([Math.min(...hits), Math.max(...hits)]);
+    }
+    // 合并相接的区间
+    spans.sort((a, b) => a[0] - b[0]);
+    const merged: [number, number][] = [];
+    spans.forEach(span => {
+      const last = merged[merged.length - 1];
+      if (last && span[0] <= last[1] + 1e-6) last[1] = Math.max(last[1], span[1]);
+      else merged.push([...span]);
+    });
+    return merged;
+  });
+}
+
+/**
+ * 生成2D断面填充与剖面线
+ * @param loops 闭合回路（2D）
+ * @param settings 剖面线设置
+ * @returns 三角化的断面与剖面线
+ */
+export function createHatchFill2D(loops: Point2D[][], settings: HatchSettings): HatchFill2D {
+  const triangles: Point2D[] = [];
+  groupLoopsWithHoles(loops).forEach(({ contour, holes }) => {
+    const vertices = [contour, ...holes].flat();
+    THREE.ShapeUtils.triangulateShape(
+      contour.map(([x, y]) => new THREE.Vector2(x, y)),
+      holes.map(hole => hole.map(([x, y]) => new THREE.Vector2(x, y)))
+    ).forEach(face => face.forEach(i => triangles.push(vertices[i])));
+  });
+  return { triangles, hatch: generateHatchLines(loops, settings) };
+}
+
+/**
+ * 回路的总投影面积
+ * 用于判断断面在某投影面上是否积聚为直线
+ * @param loops 闭合回路（2D）
+ */
+export function getLoopsArea(loops: Point2D[][]): number {
+  return loops.reduce((sum, loop) => sum + Math.abs(signedArea(loop)), 0);
+}
+
+/**
+ * 生成截平面上的3D断面填充与剖面线
+ * 在截平面的局部坐标系中三角化并画剖面线，再还原到3D
+ * @param loops 截交线回路
+ * @param planePoint 截平面上的一点
+ * @param planeNormal 截平面法向量
+ * @param settings 剖面线设置
+ * @returns 3D断面填充
+ */
+export function createSectionFill3D(
+  loops: SectionLoop[],
+  planePoint: THREE.Vector3,
+  planeNormal: THREE.Vector3,
+  settings: HatchSettings
+): HatchFill3D {
+  const toPlane = (p: THREE.Vector3) => projectToPlane2D(p, planePoint, planeNormal);
+  const toWorld = (p: Point2D) => unprojectFromPlane2D(p, planePoint, planeNormal);
+  const closed = loops.filter(loop => loop.isClosed && loop.points.length >= 3).map(loop => loop.points.map(toPlane));
+  const fill = createHatchFill2D(closed, settings);
+  return {
+    triangles: fill.triangles.map(toWorld),
+    hatch: fill.hatch.map(([a, b]) => [toWorld(a), toWorld(b)] as [THREE.Vector3, THREE.Vector3]),
+  };
+}
+
+/**
+ * 生成已三角化的平面断面的3D剖面线
+ * @param triangles 断面三角形顶点（每3个一组，共面）
+ * @param origin 剖面线的起算点（各断面取同一点，剖面线位置一致）
+ * @param normal 断面法向量
+ * @param settings 剖面线设置
+ * @returns 3D剖面线段
+ */
+export function createTriangleHatch3D(
+  triangles: THREE.Vector3[],
+  origin: THREE.Vector3,
+  normal: THREE.Vector3,
+  settings: HatchSettings
+): [THREE.Vector3, THREE.Vector3][] {
+  const toPlane = (p: THREE.Vector3) => projectToPlane2D(p, origin, normal);
+  const toWorld = (p: Point2D) => unprojectFromPlane2D(p, origin, normal);
+  // 剖面线取在断面所在平面上，而非过 origin 的平行平面
+  const offset = normal.clone().multiplyScalar(triangles.length > 0 ? triangles[0].clone().sub(origin).dot(normal) : 0);
+  return generateTriangleHatch(triangles.map(toPlane), settings)
+    .map(([a, b]) => [toWorld(a).add(offset), toWorld(b).add(offset)] as [THREE.Vector3, THREE.Vector3]);
+}
@@ -1,10 +1,14 @@
 import * as THREE from 'three';
+import { ViewTarget, projectPointToView } from './viewProjection';
 
 /**
  * 截平面工具类
  * 用于计算截平面与立体表面的截交线
  */
 
+// 平面局部坐标系中的2D点
+export type Point2D = [number, number];
+
 // 截平面参数接口
 export interface SectionPlaneParams {
   position: THREE.Vector3;  // 平面上的一点
@@ -31,6 +35,74 @@ export interface SectionResult {
     majorRadius: number;
     minorRadius: number;
   };
+  // 抛物线：y² = 4p·x（x 沿开口方向、自顶点量起）
+  parabolaParams?: {
+    vertex: THREE.Vector3;
+    axis: THREE.Vector3;       // 对称轴方向（指向开口）
+    focalLength: number;       // 焦距 p
+  };
+  // 双曲线：x²/a² - y²/b² = 1（x 沿实轴、自中心量起）
+  hyperbolaParams?: {
+    center: THREE.Vector3;
+    transverseAxis: THREE.Vector3;  // 实轴方向（指向截交线所在的一支）
+    conjugateAxis: THREE.Vector3;   // 虚轴方向
+    a: number;                      // 实半轴
+    b: number;                      // 虚半轴
+  };
+}
+
+/**
+ * 由截平面的位置与欧拉角求平面参数
+ * 截平面为局部 XY 平面，法向为局部 +Z
+ * @param position 截平面中心
+ * @param rotation 截平面欧拉角（弧度）
+ * @returns 平面上的一点与单位法向量
+ */
+export function createSectionPlaneParams(
+  position: [number, number, number],
+  rotation: [number, number, number]
+): SectionPlaneParams {
+  const euler = new THREE.Euler(rotation[0], rotation[1], rotation[2]);
+  return {
+    position: new THREE.Vector3(...position),
+    normal: new THREE.Vector3(0, 0, 1).applyEuler(euler),
+  };
+}
+
+/**
+ * 由截平面法向量求欧拉角（createSectionPlaneParams 的逆运算）
+ * @param normal 截平面法向量
+ * @returns 使局部 +Z 转到法向的欧拉角（弧度）
+ */
+export function getSectionPlaneRotation(normal: THREE.Vector3): [number, number, number] {
+  const quaternion = new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0, 0, 1), normal.clone().normalize());
+  const euler = new THREE.Euler().setFromQuaternion(quaternion);
+  return [euler.x, euler.y, euler.z];
+}
+
+/**
+ * 由不共线的三点求平面参数
+ * 平面上的点取三点的形心，法向按 A→B→C 的右手方向
+ * @param a 点 A
+ * @param b 点 B
+ * @param c 点 C
+ * @returns 平面参数，三点共线（或重合）时返回 null
+ */
+export function createPlaneFromPoints(
+  a: THREE.Vector3,
+  b: THREE.Vector3,
+  c: THREE.Vector3
+): SectionPlaneParams | null {
+  const ab = b.clone().sub(a);
+  const ac = c.clone().sub(a);
+  const normal = new THREE.Vector3().crossVectors(ab, ac);
+  // 以边长平方为尺度判断共线
+  const scale = Math.max(ab.lengthSq(), ac.lengthSq());
+  if (scale < 1e-12 || normal.length() < 1e-6 * scale) return null;
+  return {
+    position: a.clone().add(b).add(c).divideScalar(3),
+    normal: normal.normalize(),
+  };
 }
 
 /**
@@ -134,6 +206,22 @@ export function calculateCentroid(points: THREE.Vector3[]): THREE.Vector3 {
   return centroid;
 }
 
+/**
+ * 计算平面的局部坐标系
+ * @param planeNormal 平面法向量
+ * @returns 平面内的 u、v 轴（与法向构成右手系）
+ */
+export function getPlaneAxes(planeNormal: THREE.Vector3): { uAxis: THREE.Vector3; vAxis: THREE.Vector3 } {
+  const up = new THREE.Vector3(0, 1, 0);
+  if (Math.abs(planeNormal.dot(up)) > 0.99) {
+    up.set(1, 0, 0);
+  }
+  
+  const uAxis = new THREE.Vector3().crossVectors(up, planeNormal).normalize();
+  const vAxis = new THREE.Vector3().crossVectors(planeNormal, uAxis).normalize();
+  return { uAxis, vAxis };
+}
+
 /**
  * 将3D点投影到平面上的2D坐标
  * @param point 3D点
@@ -145,21 +233,31 @@ export function projectToPlane2D(
   point: THREE.Vector3,
   planePoint: THREE.Vector3,
   planeNormal: THREE.Vector3
-): [number, number] {
+): Point2D {
   // 创建平面的局部坐标系
-  const up = new THREE.Vector3(0, 1, 0);
-  if (Math.abs(planeNormal.dot(up)) > 0.99) {
-    up.set(1, 0, 0);
-  }
-  
-  const uAxis = new THREE.Vector3().crossVectors(up, planeNormal).normalize();
-  const vAxis = new THREE.Vector3().crossVectors(planeNormal, uAxis).normalize();
+  const { uAxis, vAxis } = getPlaneAxes(planeNormal);
   
   const relative = new THREE.Vector3().subVectors(point, planePoint);
   
   return [relative.dot(uAxis), relative.dot(vAxis)];
 }
 
+/**
+ * 将平面上的2D坐标还原为3D点（projectToPlane2D 的逆变换）
+ * @param point 2D坐标 [u, v]
+ * @param planePoint 平面上的一点（作为原点）
+ * @param planeNormal 平面法向量
+ * @returns 3D点
+ */
+export function unprojectFromPlane2D(
+  [u, v]: Point2D,
+  planePoint: THREE.Vector3,
+  planeNormal: THREE.Vector3
+): THREE.Vector3 {
+  const { uAxis, vAxis } = getPlaneAxes(planeNormal);
+  return planePoint.clone().addScaledVector(uAxis, u).addScaledVector(vAxis, v);
+}
+
 /**
  * 按顺时针/逆时针顺序排列点
  * @param points 无序的点集
@@ -176,13 +274,7 @@ export function sortPointsClockwise(
   const centroid = calculateCentroid(points);
   
   // 创建平面的局部坐标系
-  const up = new THREE.Vector3(0, 1, 0);
-  if (Math.abs(planeNormal.dot(up)) > 0.99) {
-    up.set(1, 0, 0);
-  }
-  
-  const uAxis = new THREE.Vector3().crossVectors(up, planeNormal).normalize();
-  const vAxis = new THREE.Vector3().crossVectors(planeNormal, uAxis).normalize();
+  const { uAxis, vAxis } = getPlaneAxes(planeNormal);
   
   // 计算每个点相对于重心的角度
   const pointsWithAngles = points.map(p => {
@@ -585,11 +677,16 @@ function deduplicateSegments(
 
 /**
  * 计算圆柱与平面的截交线（解析法）
+ * 圆柱与 THREE.CylinderGeometry 一致：中心在原点，两端面在轴向 ±height/2 处。
+ * - 平面垂直于轴线：圆
+ * - 平面平行于轴线：两条素线与两端面上的弦组成的矩形
+ * - 平面倾斜于轴线：椭圆，超出端面的部分被裁去，由端面上的弦闭合
  * @param cylinderRadius 圆柱半径
  * @param cylinderHeight 圆柱高度
  * @param cylinderAxis 圆柱轴向（默认Y轴）
  * @param planePoint 平面上的一点
  * @param planeNormal 平面法向量
+ * @param segments 曲线采样段数（整圈）
  * @returns 截交线结果
  */
 export function calculateCylinderSection(
@@ -597,82 +694,120 @@ export function calculateCylinderSection(
   cylinderHeight: number,
   cylinderAxis: THREE.Vector3 = new THREE.Vector3(0, 1, 0),
   planePoint: THREE.Vector3,
-  planeNormal: THREE.Vector3
+  planeNormal: THREE.Vector3,
+  segments: number = 64
 ): SectionResult {
-  // 计算平面与圆柱轴的夹角
-  const axisNormalized = cylinderAxis.clone().normalize();
-  const normalNormalized = planeNormal.clone().normalize();
-  const cosAngle = Math.abs(axisNormalized.dot(normalNormalized));
-  
+  const axis = cylinderAxis.clone().normalize();
+  const normal = planeNormal.clone().normalize();
+  const halfHeight = cylinderHeight / 2;
+  const c = normal.dot(axis);
+  const cosAngle = Math.abs(c);
+  const offset = normal.dot(planePoint);  // 平面方程 n·x = offset
+
+  const e1 = anyPerpendicular(axis);
+  const e2 = new THREE.Vector3().crossVectors(axis, e1);
+
   // 如果平面垂直于轴（cosAngle ≈ 1），截交线是圆
   if (cosAngle > 0.999) {
-    // 圆形截面
-    const points: THREE.Vector3[] = [];
-    const segments = 64;
-    
-    // 计算圆心（平面与轴的交点）
-    const t = new THREE.Vector3().subVectors(planePoint, new THREE.Vector3(0, 0, 0))
-      .dot(planeNormal) / axisNormalized.dot(planeNormal);
-    const center = axisNormalized.clone().multiplyScalar(-t);
-    
-    // 创建圆上的点
-    const perpAxis1 = new THREE.Vector3(1, 0, 0);
-    if (Math.abs(axisNormalized.dot(perpAxis1)) > 0.99) {
-      perpAxis1.set(0, 0, 1);
+    // 圆心为平面与轴线的交点
+    const t = offset / c;
+    if (Math.abs(t) > halfHeight) {
+      return { points3D: [], loops: [], isClosed: false, curveType: 'circle' };
     }
-    const uAxis = new THREE.Vector3().crossVectors(axisNormalized, perpAxis1).normalize();
-    const vAxis = new THREE.Vector3().crossVectors(axisNormalized, uAxis).normalize();
-    
+    const center = axis.clone().multiplyScalar(t);
+    const points: THREE.Vector3[] = [];
     for (let i = 0; i < segments; i++) {
       const angle = (i / segments) * Math.PI * 2;
-      const point = center.clone()
-        .add(uAxis.clone().multiplyScalar(Math.cos(angle) * cylinderRadius))
-        .add(vAxis.clone().multiplyScalar(Math.sin(angle) * cylinderRadius));
-      points.push(point);
+      points.push(center.clone()
+        .addScaledVector(e1, Math.cos(angle) * cylinderRadius)
+        .addScaledVector(e2, Math.sin(angle) * cylinderRadius));
     }
     
     return {
       points3D: points,
       loops: [{ points, isClosed: true }],
       isClosed: true,
-      curveType: 'circle'
+      curveType: 'circle',
+      ellipseParams: {
+        center,
+        majorAxis: e1.clone(),
+        minorAxis: e2.clone(),
+        majorRadius: cylinderRadius,
+        minorRadius: cylinderRadius
+      }
     };
   }
   
-  // 如果平面与轴平行（cosAngle ≈ 0），截交线是两条直线
+  // 如果平面与轴平行（cosAngle ≈ 0），截交线是两条素线，与两端面上的弦组成矩形
   if (cosAngle < 0.001) {
-    // 这种情况比较复杂，暂时使用网格切割法
+    // 轴线到平面的距离大于半径时不相交
+    const distance = Math.abs(offset);
+    if (distance >= cylinderRadius) {
+      return { points3D: [], loops: [], isClosed: false, curveType: 'polygon' };
+    }
+    const halfChord = Math.sqrt(cylinderRadius * cylinderRadius - distance * distance);
+    const foot = normal.clone().multiplyScalar(offset);
+    const chordDir = new THREE.Vector3().crossVectors(normal, axis).normalize();
+    const corner = (side: number, end: number) => foot.clone()
+      .addScaledVector(chordDir, side * halfChord)
+      .addScaledVector(axis, end * halfHeight);
+    const points = [corner(-1, -1), corner(1, -1), corner(1, 1), corner(-1, 1)];
     return {
-      points3D: [],
-      loops: [],
-      isClosed: false,
+      points3D: points,
+      loops: [{ points, isClosed: true }],
+      isClosed: true,
       curveType: 'polygon'
     };
   }
   
-  // 其他情况，截交线是椭圆
-  // 计算椭圆参数
-  const sinAngle = Math.sqrt(1 - cosAngle * cosAngle);
-  const majorRadius = cylinderRadius / sinAngle;  // 长轴半径
-  const minorRadius = cylinderRadius;              // 短轴半径
-  
-  // 计算椭圆中心
-  const center = planePoint.clone();
-  
-  // 计算椭圆的主轴方向
-  const majorAxis = new THREE.Vector3().crossVectors(planeNormal, axisNormalized).normalize();
-  const minorAxis = new THREE.Vector3().crossVectors(planeNormal, majorAxis).normalize();
-  
-  // 生成椭圆上的点
+  // 其他情况，截交线是椭圆：中心在轴线上，短半轴等于圆柱半径，长半轴沿轴线在平面内的投影方向
+  const center = axis.clone().multiplyScalar(offset / c);
+  const majorAxis = axis.clone().addScaledVector(normal, -c).normalize();
+  const minorAxis = new THREE.Vector3().crossVectors(normal, majorAxis).normalize();
+  const ellipseParams = {
+    center,
+    majorAxis,
+    minorAxis,
+    majorRadius: cylinderRadius / cosAngle,
+    minorRadius: cylinderRadius
+  };
+
+  // 按素线方位角 θ 参数化：素线 r(cosθ·e1 + sinθ·e2) + t·axis 与平面交于
+  // t(θ) = (offset - r(n1·cosθ + n2·sinθ)) / c，|t| ≤ height/2 的部分落在圆柱面上
+  const n1 = normal.dot(e1);
+  const n2 = normal.dot(e2);
+  const tAt = (theta: number) => (offset - cylinderRadius * (n1 * Math.cos(theta) + n2 * Math.sin(theta))) / c;
+  const pointAt = (theta: number, t: number = tAt(theta)) => axis.clone().multiplyScalar(t)
+    .addScaledVector(e1, cylinderRadius * Math.cos(theta))
+    .addScaledVector(e2, cylinderRadius * Math.sin(theta));
+  const isOnCylinder = (theta: number) => Math.abs(tAt(theta)) <= halfHeight;
+
+  // 与两端面圆周的交点：t(θ) = ±height/2
+  const crossings = [halfHeight, -halfHeight].flatMap(end =>
+    solveHarmonic(n1, n2, (offset - c * end) / cylinderRadius).map(theta => ({ theta, end }))
+  ).sort((a, b) => a.theta - b.theta);
+
   const points: THREE.Vector3[] = [];
-  const segments = 64;
-  
-  for (let i = 0; i < segments; i++) {
-    const angle = (i / segments) * Math.PI * 2;
-    const point = center.clone()
-      .add(majorAxis.clone().multiplyScalar(Math.cos(angle) * majorRadius))
-      .add(minorAxis.clone().multiplyScalar(Math.sin(angle) * minorRadius));
-    points.push(point);
+  if (crossings.length === 0) {
+    // 不与端面相交：完整椭圆，或与圆柱不相交
+    if (!isOnCylinder(0)) {
+      return { points3D: [], loops: [], isClosed: false, curveType: 'ellipse', ellipseParams };
+    }
+    for (let i = 0; i < segments; i++) {
+      points.push(pointAt((i / segments) * Math.PI * 2));
+    }
+  } else {
+    // 相邻两交点之间位于圆柱面上的弧依次相接，弧与弧之间为端面上的弦
+    crossings.forEach((start, i) => {
+      const next = crossings[(i + 1) % crossings.length];
+      const endTheta = next.theta + (i === crossings.length - 1 ? Math.PI * 2 : 0);
+      if (!isOnCylinder((start.theta + endTheta) / 2)) return;
+      const count = Math.max(2, Math.ceil((endTheta - start.theta) / (Math.PI * 2) * segments));
+      for (let j = 0; j <= count; j++) {
+        const theta = start.theta + (endTheta - start.theta) * (j / count);
+        points.push(pointAt(theta, j === 0 ? start.end : j === count ? next.end : tAt(theta)));
+      }
+    });
   }
   
   return {
@@ -680,23 +815,28 @@ export function calculateCylinderSection(
     loops: [{ points, isClosed: true }],
     isClosed: true,
     curveType: 'ellipse',
-    ellipseParams: {
-      center,
-      majorAxis,
-      minorAxis,
-      majorRadius,
-      minorRadius
-    }
+    ellipseParams
   };
 }
 
+// 垂直于给定方向的任一单位向量
+const anyPerpendicular = (v: THREE.Vector3): THREE.Vector3 => {
+  const ref = Math.abs(v.x) < 0.9 ? new THREE.Vector3(1, 0, 0) : new THREE.Vector3(0, 0, 1);
+  return new THREE.Vector3().crossVectors(v, ref).normalize();
+};
+
 /**
  * 计算圆锥与平面的截交线（解析法）
+ * 圆锥与 THREE.ConeGeometry 一致：中心在原点，顶点在 +轴向 height/2 处，底面在 -轴向 height/2 处。
+ * 每条素线至多与平面交于一点，因此按素线方位角 θ 参数化截交线：
+ * 素线 P(θ, s) = 顶点 + s·(-轴向 + tanα·(cosθ·e1 + sinθ·e2))，s 为交点到顶点的轴向距离；
+ * 0 < s ≤ height 的部分落在锥面上，其端点恰为平面与底圆的交点，再由底面上的直线段闭合
  * @param coneRadius 圆锥底面半径
  * @param coneHeight 圆锥高度
  * @param coneAxis 圆锥轴向（默认Y轴，顶点在上）
  * @param planePoint 平面上的一点
  * @param planeNormal 平面法向量
+ * @param segments 曲线采样段数（整圈）
  * @returns 截交线结果
  */
 export function calculateConeSection(
@@ -704,88 +844,163 @@ export function calculateConeSection(
   coneHeight: number,
   coneAxis: THREE.Vector3 = new THREE.Vector3(0, 1, 0),
   planePoint: THREE.Vector3,
-  planeNormal: THREE.Vector3
+  planeNormal: THREE.Vector3,
+  segments: number = 128
 ): SectionResult {
-  // 计算圆锥半顶角
-  const halfAngle = Math.atan(coneRadius / coneHeight);
-  
-  // 计算平面与圆锥轴的夹角
-  const axisNormalized = coneAxis.clone().normalize();
-  const normalNormalized = planeNormal.clone().normalize();
-  const cosAngle = Math.abs(axisNormalized.dot(normalNormalized));
-  const planeAngle = Math.acos(cosAngle);  // 平面与轴的夹角
-  
-  // 判断截交线类型
-  // θ = 90° → 圆
-  // θ > α → 椭圆
-  // θ = α → 抛物线
-  // θ < α → 双曲线
-  
+  const axis = coneAxis.clone().normalize();
+  const normal = planeNormal.clone().normalize();
+  const apex = axis.clone().multiplyScalar(coneHeight / 2);
+  const tanAlpha = coneRadius / coneHeight;
+  const halfAngle = Math.atan(tanAlpha);   // 半顶角 α
+  const cos2Alpha = Math.cos(halfAngle) ** 2;
+
+  // 平面与轴线的夹角 β：β = 90° 圆，β > α 椭圆，β = α 抛物线，β < α 双曲线
+  const c = normal.dot(axis);
+  const planeAngle = Math.PI / 2 - Math.acos(Math.min(1, Math.abs(c)));
   const tolerance = 0.01;  // 角度容差
-  
-  if (Math.abs(planeAngle - Math.PI / 2) < tolerance) {
-    // 圆形截面
-    return {
-      points3D: [],
-      loops: [],
-      isClosed: true,
-      curveType: 'circle'
-    };
-  } else if (planeAngle > halfAngle + tolerance) {
-    // 椭圆
-    return {
-      points3D: [],
-      loops: [],
-      isClosed: true,
-      curveType: 'ellipse'
-    };
-  } else if (Math.abs(planeAngle - halfAngle) < tolerance) {
-    // 抛物线
-    return {
-      points3D: [],
-      loops: [],
-      isClosed: false,
-      curveType: 'parabola'
-    };
+  const curveType: SectionResult['curveType'] =
+    Math.abs(planeAngle - Math.PI / 2) < tolerance ? 'circle'
+      : planeAngle > halfAngle + tolerance ? 'ellipse'
+        : Math.abs(planeAngle - halfAngle) <= tolerance ? 'parabola'
+          : 'hyperbola';
+
+  // 垂直于轴线的参考方向 e1、e2
+  const e1 = anyPerpendicular(axis);
+  const e2 = new THREE.Vector3().crossVectors(axis, e1);
+  const n1 = normal.dot(e1);
+  const n2 = normal.dot(e2);
+  const generator = (theta: number) => axis.clone().negate()
+    .addScaledVector(e1, tanAlpha * Math.cos(theta))
+    .addScaledVector(e2, tanAlpha * Math.sin(theta));
+  const pointAt = (theta: number, s: number) => apex.clone().addScaledVector(generator(theta), s);
+
+  const empty: SectionResult = { points3D: [], loops: [], isClosed: false, curveType };
+  const delta = normal.dot(apex.clone().sub(planePoint));  // 顶点到平面的有向距离
+
+  // 平面过顶点：截交线退化为两条素线与底面直线组成的三角形
+  if (Math.abs(delta) < 1e-9) {
+    const thetas = solveHarmonic(n1, n2, c / tanAlpha);
+    if (thetas.length < 2) return empty;
+    const points = [apex.clone(), pointAt(thetas[0], coneHeight), pointAt(thetas[1], coneHeight)];
+    return { points3D: points, loops: [{ points, isClosed: true }], isClosed: true, curveType: 'polygon' };
+  }
+
+  // s(θ) = -δ / D(θ)，D(θ) = n·素线方向
+  const sAt = (theta: number) => -delta / normal.dot(generator(theta));
+  const isOnCone = (theta: number) => {
+    const s = sAt(theta);
+    return s > 0 && s <= coneHeight + 1e-9;
+  };
+
+  // 曲线与底圆的交点：s(θ) = height ⇔ n1·cosθ + n2·sinθ = (c·height - δ) / (height·tanα)
+  const crossings = solveHarmonic(n1, n2, (c * coneHeight - delta) / (coneHeight * tanAlpha));
+
+  let points: THREE.Vector3[] = [];
+  if (crossings.length < 2) {
+    // 与底面不相交：整圈都在锥面上（椭圆/圆），或与圆锥不相交
+    if (!isOnCone(0)) return empty;
+    for (let i = 0; i < segments; i++) {
+      const theta = (i / segments) * Math.PI * 2;
+      points.push(pointAt(theta, sAt(theta)));
+    }
   } else {
-    // 双曲线
-    return {
-      points3D: [],
-      loops: [],
-      isClosed: false,
-      curveType: 'hyperbola'
+    // 取两交点之间位于锥面上的一段弧，底面上的弦由回路闭合补出
+    let [start, end] = crossings;
+    if (end < start) end += Math.PI * 2;
+    if (!isOnCone((start + end) / 2)) {
+      [start, end] = [end, start + Math.PI * 2];
+    }
+    const count = Math.max(2, Math.ceil((end - start) / (Math.PI * 2) * segments));
+    for (let i = 0; i <= count; i++) {
+      const theta = start + (end - start) * (i / count);
+      points.push(pointAt(theta, i === 0 || i === count ? coneHeight : sAt(theta)));
+    }
+  }
+
+  const result: SectionResult = {
+    points3D: points,
+    loops: [{ points, isClosed: true }],
+    isClosed: true,
+    curveType,
+  };
+
+  // 解析参数：以顶点在平面上的垂足 Q 为原点，e 为轴线在平面内的投影方向，f = n × e
+  // 锥面方程化为 k(x - x0)² - cos²α·y² = R，k = cos²β - cos²α
+  const foot = apex.clone().addScaledVector(normal, -delta);
+  const inPlaneAxis = axis.clone().addScaledVector(normal, -c);
+  const e = inPlaneAxis.lengthSq() > 1e-12 ? inPlaneAxis.normalize() : anyPerpendicular(normal);
+  const f = new THREE.Vector3().crossVectors(normal, e);
+  const ae = axis.dot(e);
+  const k = ae * ae - cos2Alpha;
+  const at = (x: number, y: number) => foot.clone().addScaledVector(e, x).addScaledVector(f, y);
+
+  if (curveType === 'parabola') {
+    // -2·ae·δ·c·x + δ²(c² - cos²α) - cos²α·y² = 0
+    const vertexX = delta * (c * c - cos2Alpha) / (2 * ae * c);
+    result.parabolaParams = {
+      vertex: at(vertexX, 0),
+      axis: e.clone().multiplyScalar(-Math.sign(delta * c)),
+      focalLength: Math.abs(ae * delta * c) / (2 * cos2Alpha),
     };
+  } else {
+    const x0 = ae * delta * c / k;
+    const R = k * x0 * x0 - delta * delta * (c * c - cos2Alpha);
+    if (curveType === 'hyperbola') {
+      // R > 0 时实轴沿 e，R < 0 时实轴沿 f
+      const alongE = R > 0;
+      const a = Math.sqrt(Math.abs(alongE ? R / k : R / cos2Alpha));
+      const b = Math.sqrt(Math.abs(alongE ? R / cos2Alpha : R / k));
+      const center = at(x0, 0);
+      // 实轴指向截交线所在的一支
+      const transverse = (alongE ? e : f).clone();
+      const mid = points[Math.floor(points.length / 2)];
+      if (mid && mid.clone().sub(center).dot(transverse) < 0) transverse.negate();
+      result.hyperbolaParams = {
+        center,
+        transverseAxis: transverse,
+        conjugateAxis: new THREE.Vector3().crossVectors(normal, transverse),
+        a,
+        b,
+      };
+    } else {
+      const radiusE = Math.sqrt(Math.abs(R / k));
+      const radiusF = Math.sqrt(Math.abs(R / cos2Alpha));
+      const eIsMajor = radiusE >= radiusF;
+      result.ellipseParams = {
+        center: at(x0, 0),
+        majorAxis: (eIsMajor ? e : f).clone(),
+        minorAxis: (eIsMajor ? f : e).clone(),
+        majorRadius: Math.max(radiusE, radiusF),
+        minorRadius: Math.min(radiusE, radiusF),
+      };
+    }
   }
+
+  return result;
+}
+
+/**
+ * 求解 a·cosθ + b·sinθ = c
+ * @returns 所有解（[0, 2π)），无解或相切时返回空数组
+ */
+function solveHarmonic(a: number, b: number, c: number): number[] {
+  const amplitude = Math.hypot(a, b);
+  if (amplitude < 1e-12 || Math.abs(c) >= amplitude) return [];
+  const phase = Math.atan2(b, a);
+  const offset = Math.acos(c / amplitude);
+  const wrap = (t: number) => ((t % (Math.PI * 2)) + Math.PI * 2) % (Math.PI * 2);
+  return [wrap(phase - offset), wrap(phase + offset)];
 }
 
 /**
  * 将截交线投影到各视图平面
  * @param points3D 3D截交线点
- * @param viewPlane 视图平面 ('V' | 'H' | 'W' | 'R')
- * @returns 2D投影点
+ * @param viewPlane 视图平面（基本投影面标识或任意投影面坐标系）
+ * @returns 2D投影点（投影面局部坐标，见 VIEW_BASES）
  */
 export function projectSectionToView(
   points3D: THREE.Vector3[],
-  viewPlane: 'V' | 'H' | 'W' | 'R'
+  viewPlane: ViewTarget
 ): [number, number][] {
-  return points3D.map(p => {
-    switch (viewPlane) {
-      case 'V':  // 主视图：XY平面，直接投影
-        return [p.x, p.y];
-      case 'H':  // 俯视图：从上往下看，XZ平面
-        // H面有rotation={[-Math.PI/2, 0, 0]}，原Y轴->-Z轴，原Z轴->Y轴
-        // 在局部坐标系中：x不变，y对应-z
-        return [p.x, -p.z];
-      case 'W':  // 左视图：从右往左看，ZY平面
-        // W面有rotation={[0, -Math.PI/2, 0]}，原X轴->Z轴，原Z轴->-X轴
-        // 在局部坐标系中：x对应-z，y不变
-        return [-p.z, p.y];
-      case 'R':  // 右视图：从左往右看，ZY平面
-        // R面有rotation={[0, Math.PI/2, 0]}，原X轴->-Z轴，原Z轴->X轴
-        // 在局部坐标系中：x对应z，y不变
-        return [p.z, p.y];
-      default:
-        return [p.x, p.y];
-    }
-  });
+  return points3D.map(p => projectPointToView(p, viewPlane));
 }
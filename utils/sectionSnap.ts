@@ -0,0 +1,152 @@
+import * as THREE from 'three';
+import { MeshTopology, extractFeatureEdges } from './meshTopology';
+
+/**
+ * 截平面吸附
+ * 拖动截平面时，接近特殊位置的平面自动吸附到该位置：
+ * 投影面平行面（正平面、水平面、侧平面）、投影面垂直面（正垂面、铅垂面、侧垂面），
+ * 以及通过选定顶点的位置；三点定平面时把点击位置吸附到立体的顶点或棱线上
+ */
+
+// 吸附结果
+export interface SectionPlaneSnap {
+  position: THREE.Vector3;
+  normal: THREE.Vector3;
+  labels: string[];  // 吸附到的特殊位置名称
+}
+
+// 吸附容差
+export interface SectionSnapOptions {
+  angleTolerance?: number;     // 角度容差（度）
+  distanceTolerance?: number;  // 顶点到平面的距离容差
+}
+
+// 基本投影面的法向分量：V 面法向为 z，H 面为 y，W 面为 x
+const PROJECTION_PLANES = [
+  { axis: 'z' as const, parallel: '正平面', perpendicular: '正垂面' },
+  { axis: 'y' as const, parallel: '水平面', perpendicular: '铅垂面' },
+  { axis: 'x' as const, parallel: '侧平面', perpendicular: '侧垂面' },
+];
+
+/**
+ * 吸附截平面的方向
+ * 法向接近某投影面法向时吸附为该投影面的平行面；
+ * 法向接近垂直于某投影面法向时吸附为该投影面的垂直面
+ * @param normal 截平面法向量
+ * @param angleTolerance 角度容差（度）
+ * @returns 吸附后的单位法向量与位置名称
+ */
+export function snapSectionNormal(normal: THREE.Vector3, angleTolerance: number = 5): { normal: THREE.Vector3; label: string | null } {
+  const n = normal.clone().normalize();
+  const cosTol = Math.cos(THREE.MathUtils.degToRad(angleTolerance));
+  const sinTol = Math.sin(THREE.MathUtils.degToRad(angleTolerance));
+
+  for (const { axis, parallel } of PROJECTION_PLANES) {
+    if (Math.abs(n[axis]) > cosTol) {
+      const snapped = new THREE.Vector3();
+      snapped[axis] = Math.sign(n[axis]);
+      return { normal: snapped, label: parallel };
+    }
+  }
+
+  for (const { axis, perpendicular } of PROJECTION_PLANES) {
+    if (Math.abs(n[axis]) < sinTol) {
+      const snapped = n.clone();
+      snapped[axis] = 0;
+      return { normal: snapped.normalize(), label: perpendicular };
+    }
+  }
+
+  return { normal: n, label: null };
+}
+
+/**
+ * 吸附截平面
+ * 先吸附方向，再沿法向平移使平面通过最近的选定顶点
+ * @param position 截平面上的一点
+ * @param normal 截平面法向量
+ * @param vertices 选定的吸附顶点
+ * @param options 吸附容差
+ * @returns 吸附后的平面
+ */
+export function snapSectionPlane(
+  position: THREE.Vector3,
+  normal: THREE.Vector3,
+  vertices: THREE.Vector3[] = [],
+  options: SectionSnapOptions = {}
+): SectionPlaneSnap {
+  const { angleTolerance = 5, distanceTolerance = 0.1 } = options;
+  const labels: string[] = [];
+
+  const direction = snapSectionNormal(normal, angleTolerance);
+  if (direction.label) labels.push(direction.label);
+  const n = direction.normal;
+
+  const snappedPosition = position.clone();
+  let nearest: THREE.Vector3 | null = null;
+  let nearestDistance = distanceTolerance;
+  for (const v of vertices) {
+    const distance = Math.abs(v.clone().sub(position).dot(n));
+    if (distance <= nearestDistance) {
+      nearestDistance = distance;
+      nearest = v;
+    }
+  }
+  if (nearest) {
+    snappedPosition.addScaledVector(n, nearest.clone().sub(position).dot(n));
+    labels.push('过选定顶点');
+  }
+
+  return { position: snappedPosition, normal: n, labels };
+}
+
+// 拾取到的立体上的点
+export interface FeaturePointSnap {
+  point: THREE.Vector3;
+  onVertex: boolean;  // 吸附到顶点（否则位于棱线上）
+}
+
+/**
+ * 把点击位置吸附到立体的顶点或棱线上
+ * 离最近的特征棱线端点足够近时取该顶点，否则取最近特征棱线上的垂足
+ * @param topology 网格拓扑
+ * @param point 点击位置（世界坐标）
+ * @param vertexTolerance 吸附到顶点的距离容差
+ * @param featureAngle 特征棱线的二面角阈值（度）
+ * @returns 吸附后的点，没有特征棱线时返回 null
+ */
+export function snapToFeaturePoint(
+  topology: MeshTopology,
+  point: THREE.Vector3,
+  vertexTolerance: number = 0.15,
+  featureAngle: number = 15
+): FeaturePointSnap | null {
+  const edges = extractFeatureEdges(topology, featureAngle);
+  const line = new THREE.Line3();
+  const closest = new THREE.Vector3();
+
+  let nearestVertex: THREE.Vector3 | null = null;
+  let nearestVertexDistance = vertexTolerance * vertexTolerance;
+  let nearestEdgePoint: THREE.Vector3 | null = null;
+  let nearestEdgeDistance = Infinity;
+  for (const [a, b] of edges) {
+    for (const v of [a, b]) {
+      const distance = v.distanceToSquared(point);
+      if (distance <= nearestVertexDistance) {
+        nearestVertexDistance = distance;
+        nearestVertex = v;
+      }
+    }
+    line.set(a, b);
+    line.closestPointToPoint(point, true, closest);
+    const distance = closest.distanceToSquared(point);
+    if (distance < nearestEdgeDistance) {
+      nearestEdgeDistance = distance;
+      nearestEdgePoint = closest.clone();
+    }
+  }
+
+  if (nearestVertex) return { point: nearestVertex.clone(), onVertex: true };
+  if (nearestEdgePoint) return { point: nearestEdgePoint, onVertex: false };
+  return null;
+}
@@ -0,0 +1,194 @@
+import * as THREE from 'three';
+import { Point2D, SectionResult, projectToPlane2D } from './sectionPlane';
+import { pointInPolygon } from './sectionHatch';
+
+/**
+ * 断面图（断面实形）
+ * 将截平面绕自身旋转到与图面重合，在截平面局部坐标中画出断面的实形，
+ * 并给出主轴方向的尺寸与圆锥曲线的特征参数
+ */
+
+// 断面图中的尺寸
+export interface SectionDimension {
+  start: Point2D;
+  end: Point2D;
+  offset: Point2D;   // 尺寸线相对被测两点的平移（尺寸界线方向）
+  label: string;
+}
+
+// 断面实形
+export interface SectionTrueShape {
+  loops: { points: Point2D[]; isClosed: boolean }[];  // 截平面局部坐标中的回路
+  center: Point2D;                                     // 断面形心
+  axes: [Point2D, Point2D];                            // 主轴方向（单位向量，第一根为长度方向）
+  dimensions: SectionDimension[];
+  notes: string[];                                     // 曲线类型与特征参数
+}
+
+const CURVE_NAMES: Record<NonNullable<SectionResult['curveType']>, string> = {
+  polygon: '多边形',
+  circle: '圆',
+  ellipse: '椭圆',
+  parabola: '抛物线',
+  hyperbola: '双曲线',
+};
+
+/**
+ * 断面图中的度量值：保留两位小数并去掉末尾的零
+ */
+export const formatMeasure = (value: number) => Number(value.toFixed(2)).toString();
+
+// 多边形面积与对原点的一、二阶矩（有向，逆时针为正）
+const polygonMoments = (polygon: Point2D[]) => {
+  let area = 0, mx = 0, my = 0, xx = 0, yy = 0, xy = 0;
+  for (let i = 0; i < polygon.length; i++) {
+    const [x1, y1] = polygon[i];
+    const [x2, y2] = polygon[(i + 1) % polygon.length];
+    const cross = x1 * y2 - x2 * y1;
+    area += cross / 2;
+    mx += (x1 + x2) * cross / 6;
+    my += (y1 + y2) * cross / 6;
+    xx += (x1 * x1 + x1 * x2 + x2 * x2) * cross / 12;
+    yy += (y1 * y1 + y1 * y2 + y2 * y2) * cross / 12;
+    xy += (x1 * y2 + 2 * x1 * y1 + 2 * x2 * y2 + x2 * y1) * cross / 24;
+  }
+  return { area, mx, my, xx, yy, xy };
+};
+
+/**
+ * 求断面的形心与惯性主轴
+ * 闭合回路按面积矩计算（被奇数个回路包含的回路为孔洞，面积取负）；没有闭合回路时按点集计算
+ */
+const principalAxes = (loops: SectionTrueShape['loops']): { center: Point2D; axes: [Point2D, Point2D] } => {
+  const closed = loops.filter(loop => loop.isClosed && loop.points.length >= 3).map(loop => loop.points);
+  const sum = { area: 0, mx: 0, my: 0, xx: 0, yy: 0, xy: 0 };
+
+  closed.forEach((polygon, i) => {
+    const depth = closed.filter((other, j) => j !== i && pointInPolygon(polygon[0], other)).length;
+    const m = polygonMoments(polygon);
+    // 外轮廓取正、孔洞取负，与回路走向无关
+    const sign = Math.sign(m.area) * (depth % 2 === 0 ? 1 : -1);
+    (Object.keys(sum) as (keyof typeof sum)[]).forEach(key => { sum[key] += m[key] * sign; });
+  });
+
+  let cx: number, cy: number, ixx: number, iyy: number, ixy: number;
+  if (sum.area > 1e-10) {
+    cx = sum.mx / sum.area;
+    cy = sum.my / sum.area;
+    ixx = sum.xx - sum.area * cx * cx;
+    iyy = sum.yy - sum.area * cy * cy;
+    ixy = sum.xy - sum.area * cx * cy;
+  } else {
+    const points = loops.flatMap(loop => loop.points);
+    const n = Math.max(points.length, 1);
+    cx = points.reduce((acc, [x]) => acc + x, 0) / n;
+    cy = points.reduce((acc, [, y]) => acc + y, 0) / n;
+    ixx = points.reduce((acc, [x]) => acc + (x - cx) ** 2, 0);
+    iyy = points.reduce((acc, [, y]) => acc + (y - cy) ** 2, 0);
+    ixy = points.reduce((acc, [x, y]) => acc + (x - cx) * (y - cy), 0);
+  }
+
+  // 二阶矩矩阵的特征向量；各向同性（圆、正方形）时取截平面坐标轴
+  const theta = Math.abs(ixy) < 1e-12 && Math.abs(ixx - iyy) < 1e-12 ? 0 : Math.atan2(2 * ixy, ixx - iyy) / 2;
+  return {
+    center: [cx, cy],
+    axes: [[Math.cos(theta), Math.sin(theta)], [-Math.sin(theta), Math.cos(theta)]],
+  };
+};
+
+/**
+ * 求断面实形
+ * 以截平面上的点为原点，用 projectToPlane2D 展开到截平面的局部坐标系；
+ * 圆锥曲线的主轴取解析参数中的轴线方向，其余按断面的惯性主轴
+ * @param result 截交线结果
+ * @param planePoint 截平面上的一点
+ * @param planeNormal 截平面法向量
+ * @returns 断面实形，没有截交线时返回 null
+ */
+export function computeSectionTrueShape(
+  result: SectionResult,
+  planePoint: THREE.Vector3,
+  planeNormal: THREE.Vector3
+): SectionTrueShape | null {
+  const toPlane = (p: THREE.Vector3) => projectToPlane2D(p, planePoint, planeNormal);
+  const toPlaneDirection = (d: THREE.Vector3): Point2D => {
+    const [x, y] = projectToPlane2D(d, new THREE.Vector3(), planeNormal);
+    const length = Math.hypot(x, y) || 1;
+    return [x / length, y / length];
+  };
+
+  const loops = result.loops
+    .filter(loop => loop.points.length >= 2)
+    .map(loop => ({ points: loop.points.map(toPlane), isClosed: loop.isClosed }));
+  if (loops.length === 0) return null;
+
+  let { center, axes } = principalAxes(loops);
+  let hasCurveAxes = false;  // 主轴由圆锥曲线参数确定
+  const notes: string[] = [];
+  // 没有曲线类型（组合截切裁去了部分曲线）时不标注曲线名称
+  const curveName = result.curveType ? CURVE_NAMES[result.curveType] : null;
+
+  const { ellipseParams, parabolaParams, hyperbolaParams } = result;
+  if (result.curveType === 'circle' && ellipseParams) {
+    center = toPlane(ellipseParams.center);
+    notes.push(`${curveName}  R = ${formatMeasure(ellipseParams.majorRadius)}  Ø${formatMeasure(ellipseParams.majorRadius * 2)}`);
+  } else if (result.curveType === 'ellipse' && ellipseParams) {
+    const major = toPlaneDirection(ellipseParams.majorAxis);
+    hasCurveAxes = true;
+    axes = [major, [-major[1], major[0]]];
+    center = toPlane(ellipseParams.center);
+    notes.push(`${curveName}  长半轴 a = ${formatMeasure(ellipseParams.majorRadius)}  短半轴 b = ${formatMeasure(ellipseParams.minorRadius)}`);
+  } else if (result.curveType === 'parabola' && parabolaParams) {
+    const axis = toPlaneDirection(parabolaParams.axis);
+    hasCurveAxes = true;
+    axes = [axis, [-axis[1], axis[0]]];
+    notes.push(`${curveName}  焦距 p = ${formatMeasure(parabolaParams.focalLength)}`);
+  } else if (result.curveType === 'hyperbola' && hyperbolaParams) {
+    const transverse = toPlaneDirection(hyperbolaParams.transverseAxis);
+    hasCurveAxes = true;
+    axes = [transverse, [-transverse[1], transverse[0]]];
+    notes.push(`${curveName}  实半轴 a = ${formatMeasure(hyperbolaParams.a)}  虚半轴 b = ${formatMeasure(hyperbolaParams.b)}`);
+  } else if (curveName) {
+    notes.push(curveName);
+  }
+
+  // 沿两根主轴的外廓范围
+  const points = loops.flatMap(loop => loop.points);
+  const extent = axes.map(([ax, ay]) => {
+    const values = points.map(([x, y]) => (x - center[0]) * ax + (y - center[1]) * ay);
+    return [Math.min(...values), Math.max(...values)] as [number, number];
+  });
+
+  // 惯性主轴中外廓较长的方向作为第一主轴
+  if (!hasCurveAxes && extent[1][1] - extent[1][0] > extent[0][1] - extent[0][0] + 1e-9) {
+    axes.reverse();
+    extent.reverse();
+  }
+
+  // 尺寸线画在外廓之外，与主轴平行
+  const gap = Math.max(extent[0][1] - extent[0][0], extent[1][1] - extent[1][0]) * 0.15;
+  const at = (s: number, t: number): Point2D => [
+    center[0] + axes[0][0] * s + axes[1][0] * t,
+    center[1] + axes[0][1] * s + axes[1][1] * t,
+  ];
+  const dimensions: SectionDimension[] = [];
+  const [length, width] = [extent[0][1] - extent[0][0], extent[1][1] - extent[1][0]];
+  if (length > 1e-6) {
+    dimensions.push({
+      start: at(extent[0][0], extent[1][0]),
+      end: at(extent[0][1], extent[1][0]),
+      offset: [-axes[1][0] * gap, -axes[1][1] * gap],
+      label: formatMeasure(length),
+    });
+  }
+  if (width > 1e-6) {
+    dimensions.push({
+      start: at(extent[0][1], extent[1][0]),
+      end: at(extent[0][1], extent[1][1]),
+      offset: [axes[0][0] * gap, axes[0][1] * gap],
+      label: formatMeasure(width),
+    });
+  }
+
+  return { loops, center, axes, dimensions, notes };
+}
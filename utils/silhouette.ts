@@ -0,0 +1,111 @@
+import * as THREE from 'three';
+import { MeshTopology } from './meshTopology';
+
+/**
+ * 轮廓线（转向轮廓素线）提取
+ * 曲面立体在某投射方向下的轮廓线是曲面上"朝向观察者"与"背向观察者"的分界线，
+ * 对三角网格即前向三角形与背向三角形相交的棱边。
+ */
+
+// 3D轮廓折线
+export interface SilhouetteCurve {
+  points: THREE.Vector3[];  // 折线上的点（有序）
+  isClosed: boolean;        // 是否闭合
+}
+
+/**
+ * 提取指定投射方向下的轮廓棱边
+ * 只考虑光滑曲面内部的边（二面角小于折角阈值），尖锐棱线由特征棱线负责
+ * @param topology 网格拓扑
+ * @param direction 投射方向（从观察者指向物体）
+ * @param creaseAngle 折角阈值（度）
+ * @returns 轮廓棱边
+ */
+export function extractSilhouetteSegments(
+  topology: MeshTopology,
+  direction: THREE.Vector3,
+  creaseAngle: number = 15
+): [THREE.Vector3, THREE.Vector3][] {
+  const { vertices, faceNormals, edges } = topology;
+  const creaseDot = Math.cos(THREE.MathUtils.degToRad(creaseAngle));
+  const dir = direction.clone().normalize();
+  const segments: [THREE.Vector3, THREE.Vector3][] = [];
+
+  // 侧立的面（n·d = 0）归入背向面，避免圆柱俯视时侧面产生伪轮廓
+  const isFrontFacing = (face: number) => faceNormals[face].dot(dir) < -1e-9;
+
+  for (const edge of edges) {
+    if (edge.faces.length !== 2) continue;
+    const [f1, f2] = edge.faces;
+    if (faceNormals[f1].dot(faceNormals[f2]) < creaseDot) continue;
+    if (isFrontFacing(f1) === isFrontFacing(f2)) continue;
+
+    segments.push([vertices[edge.a], vertices[edge.b]]);
+  }
+
+  return segments;
+}
+
+/**
+ * 提取轮廓线并串联成折线
+ * @param topology 网格拓扑
+ * @param direction 投射方向
+ * @param creaseAngle 折角阈值（度）
+ * @returns 轮廓折线集合
+ */
+export function extractSilhouettes(
+  topology: MeshTopology,
+  direction: THREE.Vector3,
+  creaseAngle: number = 15
+): SilhouetteCurve[] {
+  const segments = extractSilhouetteSegments(topology, direction, creaseAngle);
+  if (segments.length === 0) return [];
+
+  const tolerance = 1e-5;
+  const pointKey = (p: THREE.Vector3) =>
+    `${Math.round(p.x / tolerance)},${Math.round(p.y / tolerance)},${Math.round(p.z / tolerance)}`;
+
+  const pointToSegments = new Map<string, number[]>();
+  segments.forEach(([start, end], idx) => {
+    for (const key of [pointKey(start), pointKey(end)]) {
+      if (!pointToSegments.has(key)) pointToSegments.set(key, []);
+      pointToSegments.get(key)!.push(idx);
+    }
+  });
+
+  const used = new Set<number>();
+  const curves: SilhouetteCurve[] = [];
+
+  segments.forEach(([start, end], idx) => {
+    if (used.has(idx)) return;
+    used.add(idx);
+    const points = [start.clone(), end.clone()];
+
+    // 向两端追踪相邻线段
+    for (const atEnd of [true, false]) {
+      let found = true;
+      while (found) {
+        found = false;
+        const tip = atEnd ? points[points.length - 1] : points[0];
+        const tipKey = pointKey(tip);
+        for (const next of pointToSegments.get(tipKey) || []) {
+          if (used.has(next)) continue;
+          const [a, b] = segments[next];
+          const other = pointKey(a) === tipKey ? b : a;
+          used.add(next);
+          if (atEnd) points.push(other.clone());
+          else points.unshift(other.clone());
+          found = true;
+          break;
+        }
+      }
+    }
+
+    const isClosed = points.length > 3 && points[0].distanceTo(points[points.length - 1]) < tolerance * 10;
+    if (isClosed) points.pop();
+
+    curves.push({ points, isClosed });
+  });
+
+  return curves;
+}
@@ -0,0 +1,85 @@
+import * as THREE from 'three';
+import { PrimitiveScene } from '../types';
+import { ResolvedLine, ResolvedPlane, ResolvedPoint, ResolvedPrimitives } from './primitives';
+
+/**
+ * 直线的迹点与平面的迹线
+ * 直线与 H 面的交点为水平迹点 M，与 V 面的交点为正面迹点 N，与 W 面的交点为侧面迹点 S；
+ * 平面与各投影面的交线为迹线 P_H、P_V、P_W，相邻两条迹线交于投影轴上的同一点
+ */
+
+// 各投影面上迹点的名称与在教材坐标中为零的分量
+const LINE_TRACE_SPECS = [
+  { viewId: 'H' as const, name: 'M', axis: 2 },
+  { viewId: 'V' as const, name: 'N', axis: 1 },
+  { viewId: 'W' as const, name: 'S', axis: 0 },
+];
+
+// 直线的迹点
+export interface LineTracePoint {
+  viewId: 'V' | 'H' | 'W';
+  point: ResolvedPoint;
+  inRange: boolean;  // 在投影面体系（投影面的显示范围）之内
+}
+
+export interface TraceOverlay {
+  line: ResolvedLine | null;
+  linePoints: LineTracePoint[];
+  extensions: [THREE.Vector3, THREE.Vector3][];  // 直线延长到迹点的部分（场景坐标）
+  plane: ResolvedPlane | null;
+}
+
+/**
+ * 求直线的迹点
+ * 直线平行于某投影面时没有该投影面上的迹点
+ * @param line 直线
+ * @param boxSize 投影面边长（判断迹点是否在投影面范围内）
+ * @returns 各投影面上的迹点
+ */
+export function computeLineTraces(line: ResolvedLine, boxSize: number): LineTracePoint[] {
+  const start = line.start.coords;
+  const end = line.end.coords;
+  return LINE_TRACE_SPECS.flatMap(({ viewId, name, axis }) => {
+    const a = start.getComponent(axis);
+    const b = end.getComponent(axis);
+    if (Math.abs(b - a) < 1e-9) return [];
+    const t = a / (a - b);
+    const coords = start.clone().lerp(end, t).setComponent(axis, 0);
+    const inRange = [0, 1, 2].every(i => i === axis || (coords.getComponent(i) >= -1e-9 && coords.getComponent(i) <= boxSize + 1e-9));
+    return [{
+      viewId,
+      point: { id: `${line.id}-${name}`, name, coords, world: line.start.world.clone().lerp(line.end.world, t) },
+      inRange,
+    }];
+  });
+}
+
+/**
+ * 按选择求迹点或迹线
+ * 直线画出迹点以及从线段端点延长到迹点的部分；平面画出三条迹线及其与投影轴的交点
+ * @returns 所选直线或平面不存在时返回 null
+ */
+export function computeTraceOverlay(
+  primitives: ResolvedPrimitives,
+  target: PrimitiveScene['traceTarget'],
+  boxSize: number
+): TraceOverlay | null {
+  if (!target) return null;
+  if (target.kind === 'plane') {
+    const plane = primitives.planes.find(p => p.id === target.id);
+    return plane ? { line: null, linePoints: [], extensions: [], plane } : null;
+  }
+
+  const line = primitives.lines.find(l => l.id === target.id);
+  if (!line) return null;
+  const linePoints = computeLineTraces(line, boxSize);
+  // 迹点在线段之外时，从较近的端点延长
+  const extensions = linePoints.filter(trace => trace.inRange).flatMap(({ point }): [THREE.Vector3, THREE.Vector3][] => {
+    const direction = line.end.world.clone().sub(line.start.world);
+    const t = point.world.clone().sub(line.start.world).dot(direction) / direction.lengthSq();
+    if (t < 0) return [[line.start.world, point.world]];
+    if (t > 1) return [[line.end.world, point.world]];
+    return [];
+  });
+  return { line, linePoints, extensions, plane: null };
+}
@@ -0,0 +1,105 @@
+import * as THREE from 'three';
+
+/**
+ * 投影面工具
+ * 统一定义各投影面的投射方向与面内坐标系，供投影计算与截交线投影共用
+ */
+
+// 投影面标识：V 主视图、H 俯视图、W 左视图、R 右视图、B 仰视图、K 后视图（GB/T 17451 六个基本视图）
+export type ViewPlane = 'V' | 'H' | 'W' | 'R' | 'B' | 'K';
+
+// 投影面坐标系接口
+export interface ViewBasis {
+  direction: THREE.Vector3;  // 投射方向（从观察者指向物体）
+  uAxis: THREE.Vector3;      // 投影面局部 x 轴对应的世界方向
+  vAxis: THREE.Vector3;      // 投影面局部 y 轴对应的世界方向
+}
+
+/**
+ * 各投影面的坐标系
+ * 与 GlassBoxScene 中投影面 group 的旋转保持一致：
+ * - V面：从前往后看，局部 (x, y) = 世界 (x, y)
+ * - H面：从上往下看，rotation=[-π/2, 0, 0]，局部 y 轴对应世界 -Z
+ * - W面：从左往右看，rotation=[0, -π/2, 0]，局部 x 轴对应世界 +Z
+ * - R面：从右往左看，rotation=[0, π/2, 0]，局部 x 轴对应世界 -Z
+ * - B面：从下往上看，局部 y 轴对应世界 +Z
+ * - K面：从后往前看，局部 x 轴对应世界 -X
+ * 每个面的局部坐标系为 (uAxis, vAxis, -direction)，构成右手系
+ */
+export const VIEW_BASES: Record<ViewPlane, ViewBasis> = {
+  V: {
+    direction: new THREE.Vector3(0, 0, -1),
+    uAxis: new THREE.Vector3(1, 0, 0),
+    vAxis: new THREE.Vector3(0, 1, 0),
+  },
+  H: {
+    direction: new THREE.Vector3(0, -1, 0),
+    uAxis: new THREE.Vector3(1, 0, 0),
+    vAxis: new THREE.Vector3(0, 0, -1),
+  },
+  W: {
+    direction: new THREE.Vector3(1, 0, 0),
+    uAxis: new THREE.Vector3(0, 0, 1),
+    vAxis: new THREE.Vector3(0, 1, 0),
+  },
+  R: {
+    direction: new THREE.Vector3(-1, 0, 0),
+    uAxis: new THREE.Vector3(0, 0, -1),
+    vAxis: new THREE.Vector3(0, 1, 0),
+  },
+  B: {
+    direction: new THREE.Vector3(0, 1, 0),
+    uAxis: new THREE.Vector3(1, 0, 0),
+    vAxis: new THREE.Vector3(0, 0, 1),
+  },
+  K: {
+    direction: new THREE.Vector3(0, 0, 1),
+    uAxis: new THREE.Vector3(-1, 0, 0),
+    vAxis: new THREE.Vector3(0, 1, 0),
+  },
+};
+
+// 投影目标：基本投影面标识，或辅助投影面的坐标系
+export type ViewTarget = ViewPlane | ViewBasis;
+
+/**
+ * 获取投影目标的坐标系
+ * @param view 基本投影面标识或自定义坐标系
+ * @returns 投影面坐标系
+ */
+export function resolveViewBasis(view: ViewTarget): ViewBasis {
+  return typeof view === 'string' ? VIEW_BASES[view] : view;
+}
+
+/**
+ * 由投射方向与面内竖直方向构造投影面坐标系
+ * uAxis = direction × vAxis，保证 (uAxis, vAxis, -direction) 为右手系
+ * @param direction 投射方向
+ * @param up 面内竖直方向（会被正交化到垂直于投射方向）
+ * @returns 投影面坐标系
+ */
+export function createViewBasis(direction: THREE.Vector3, up: THREE.Vector3): ViewBasis {
+  const dir = direction.clone().normalize();
+  const vAxis = up.clone().sub(dir.clone().multiplyScalar(up.dot(dir))).normalize();
+  const uAxis = new THREE.Vector3().crossVectors(dir, vAxis).normalize();
+  return { direction: dir, uAxis, vAxis };
+}
+
+/**
+ * 将3D点正投影到投影面局部坐标
+ * @param point 3D点
+ * @param plane 投影面
+ * @returns 投影面上的2D坐标 [u, v]
+ */
+export function projectPointToView(point: THREE.Vector3, plane: ViewTarget): [number, number] {
+  const basis = resolveViewBasis(plane);
+  return [point.dot(basis.uAxis), point.dot(basis.vAxis)];
+}
+
+/**
+ * 计算点沿投射方向的"靠近观察者"程度
+ * 数值越大，点离观察者越近（用于判断遮挡）
+ */
+export function viewDepth(point: THREE.Vector3, plane: ViewTarget): number {
+  return -point.dot(resolveViewBasis(plane).direction);
+}